@@ -1,12 +1,18 @@
 // Import React and hooks for state and side effects
 import React, { useState, useEffect } from "react";
 // Import ViewMode enum from types definitions
-import { ViewMode } from "./types";
+import { AISettings, SendTarget, ViewMode } from "./types";
 // Import all sub-components for the main views
 import Analyzer from "./components/Analyzer";
 import Comparator from "./components/Comparator";
 import TopicSorter from "./components/TopicSorter";
 import Batcher from "./components/Batcher";
+import PipelineBuilder from "./components/PipelineBuilder";
+import WorkspacePanel from "./components/WorkspacePanel";
+// Import the workspace context for the active workspace
+import { useWorkspace } from "./context/WorkspaceContext";
+// Import the AI provider list and settings storage
+import { AI_PROVIDERS, aiSettingsError, clearAISettings, defaultAISettings, loadAISettings, saveAISettings } from "./services/aiProviders";
 // Import UI icons from Lucide React
 import {
   LayoutGrid,
@@ -26,6 +32,7 @@ import {
   AlertCircle,
   Globe,
   User,
+  Workflow,
 } from "lucide-react";
 
 // Define the Admin Password constant
@@ -38,14 +45,18 @@ const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<ViewMode>(ViewMode.ANALYZER);
   // State for toggling the mobile sidebar menu visibility
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  // Active workspace (null until it has loaded from storage) and its tool state writer
+  const { active, patchToolState } = useWorkspace();
+  // Counter bumped on every "Send to…" so the target tool remounts with the new input
+  const [handoffCount, setHandoffCount] = useState(0);
 
-  // -- API Key Management State --
-  // State to store the actual active API key
-  const [apiKey, setApiKey] = useState<string>("");
+  // -- AI Settings Management State --
+  // State to store the active AI provider, model, endpoint and key
+  const [aiSettings, setAISettings] = useState<AISettings>(defaultAISettings());
   // State to control visibility of the API Key Modal
   const [isKeyModalOpen, setIsKeyModalOpen] = useState(false);
-  // State for the temporary key input value inside the modal
-  const [tempKey, setTempKey] = useState("");
+  // State for the settings being edited inside the modal
+  const [draftSettings, setDraftSettings] = useState<AISettings>(defaultAISettings());
   // State to toggle password visibility (show/hide) for the key input
   const [showKey, setShowKey] = useState(false);
 
@@ -59,43 +70,57 @@ const App: React.FC = () => {
   // State for password error feedback
   const [passwordError, setPasswordError] = useState(false);
 
-  // useEffect hook to load the API key from Local Storage on initial app load
+  // Whether the active settings can run (e.g. a key is present for Gemini)
+  const aiReady = !aiSettingsError(aiSettings);
+  // Provider details for the active settings and for the settings being edited
+  const activeProvider = AI_PROVIDERS.find(p => p.id === aiSettings.provider) ?? AI_PROVIDERS[0];
+  const draftProvider = AI_PROVIDERS.find(p => p.id === draftSettings.provider) ?? AI_PROVIDERS[0];
+  // What is still missing from the settings being edited
+  const draftError = aiSettingsError(draftSettings);
+
+  // useEffect hook to load the AI settings from Local Storage on initial app load
   useEffect(() => {
-    // Retrieve key from storage - Updated key for Horizon Sort
-    const storedKey = localStorage.getItem("horizon_gemini_key");
-    // If key exists, update state
-    if (storedKey) setApiKey(storedKey);
+    // Settings saved by earlier versions (a bare Gemini key) are picked up as well
+    setAISettings(loadAISettings());
   }, []); // Empty dependency array means this runs once on mount
 
-  // Handler to save the API key to Local Storage
+  // Handler to save the AI settings to Local Storage
   const handleSaveKey = () => {
-    // Check if input is not empty
-    if (tempKey.trim()) {
-      // Save trimmed key to storage - Updated key for Horizon Sort
-      localStorage.setItem("horizon_gemini_key", tempKey.trim());
-      // Update active key state
-      setApiKey(tempKey.trim());
-      // Close the modal
-      setIsKeyModalOpen(false);
-      // Clear temp input
-      setTempKey("");
-    }
+    // Only complete settings can be saved
+    if (draftError) return;
+    const next = {
+      ...draftSettings,
+      model: draftSettings.model.trim(),
+      endpoint: draftSettings.endpoint.trim(),
+      apiKey: draftSettings.apiKey.trim(),
+    };
+    saveAISettings(next);
+    // Update active settings state
+    setAISettings(next);
+    // Close the modal
+    setIsKeyModalOpen(false);
   };
 
-  // Handler to remove the API key
+  // Handler to remove the saved AI settings
   const handleClearKey = () => {
-    // Remove item from Local Storage - Updated key for Horizon Sort
-    localStorage.removeItem("horizon_gemini_key");
-    // Clear active key state
-    setApiKey("");
+    // Remove the settings from Local Storage
+    clearAISettings();
+    // Back to the defaults (no key)
+    setAISettings(defaultAISettings());
     // Close the modal
     setIsKeyModalOpen(false);
   };
 
+  // Switch the provider being edited, filling in its default model and endpoint
+  const chooseProvider = (id: AISettings['provider']) => {
+    if (id === draftSettings.provider) return;
+    setDraftSettings({ ...defaultAISettings(id), apiKey: id === aiSettings.provider ? aiSettings.apiKey : '' });
+  };
+
   // Helper function to open the settings modal
   const openSettings = () => {
-    // Pre-fill input with current key if it exists
-    setTempKey(apiKey);
+    // Pre-fill the form with the current settings
+    setDraftSettings(aiSettings);
     // Open modal
     setIsKeyModalOpen(true);
     // Close mobile menu if open
@@ -134,21 +159,33 @@ const App: React.FC = () => {
     }
   };
 
+  // Handler for "Send to…": write the lines into the target tool's saved input, then open it
+  const handleSendTo = (target: SendTarget, items: string[]) => {
+    // The workspace state is shared, so the target picks the lines up when it mounts
+    patchToolState(target.view, { [target.field]: items.join("\n"), [target.sourceField]: null });
+    setHandoffCount((count) => count + 1);
+    // Reuse the nav handler so the AI module still asks for the admin password
+    handleNavClick(target.view);
+  };
+
   // Function to determine which component to render based on currentView state
   const renderView = () => {
     switch (currentView) {
       case ViewMode.ANALYZER:
-        return <Analyzer />;
+        return <Analyzer onSendTo={handleSendTo} />;
       case ViewMode.COMPARATOR:
-        return <Comparator />;
+        return <Comparator onSendTo={handleSendTo} />;
       case ViewMode.TOPICS:
-        // Pass API Key and settings callback to TopicSorter
-        return <TopicSorter apiKey={apiKey} onOpenSettings={openSettings} />;
+        // Pass AI settings and settings callback to TopicSorter
+        return <TopicSorter aiSettings={aiSettings} onOpenSettings={openSettings} onSendTo={handleSendTo} />;
       case ViewMode.BATCHER:
-        return <Batcher />;
+        return <Batcher onSendTo={handleSendTo} />;
+      case ViewMode.PIPELINE:
+        // The pipeline's AI step also needs the API key
+        return <PipelineBuilder aiSettings={aiSettings} onOpenSettings={openSettings} onSendTo={handleSendTo} />;
       default:
         // Default fallback
-        return <Analyzer />;
+        return <Analyzer onSendTo={handleSendTo} />;
     }
   };
 
@@ -269,12 +306,20 @@ const App: React.FC = () => {
             icon={Layers}
             label="Batch Processor"
           />
+          <NavItem
+            mode={ViewMode.PIPELINE}
+            icon={Workflow}
+            label="Pipeline Builder"
+          />
           <NavItem
             mode={ViewMode.TOPICS}
             icon={BrainCircuit}
             label="AI Clustering"
             locked={true}
           />
+
+          {/* Saved Workspaces */}
+          <WorkspacePanel onOpen={() => setMobileMenuOpen(false)} />
         </nav>
 
         {/* Sidebar Footer Area */}
@@ -352,9 +397,13 @@ const App: React.FC = () => {
               {currentView === ViewMode.COMPARATOR && "List Comparator"}
               {currentView === ViewMode.BATCHER && "Batch Processor"}
               {currentView === ViewMode.TOPICS && "AI Clustering"}
+              {currentView === ViewMode.PIPELINE && "Pipeline Builder"}
             </h2>
             {/* Dynamic Description based on current view */}
             <p className="text-sm text-slate-500 mt-1 font-medium">
+              {active && (
+                <span className="text-teal-600 font-semibold">{active.name} · </span>
+              )}
               {currentView === ViewMode.ANALYZER &&
                 "Deep index & frequency analysis tool."}
               {currentView === ViewMode.COMPARATOR &&
@@ -362,7 +411,9 @@ const App: React.FC = () => {
               {currentView === ViewMode.BATCHER &&
                 "Automated list segmentation & formatting."}
               {currentView === ViewMode.TOPICS &&
-                "Smart categorization powered by Gemini."}
+                `Smart categorization powered by ${activeProvider.label}.`}
+              {currentView === ViewMode.PIPELINE &&
+                "Chain dedupe, compare, batch & cluster steps into reusable recipes."}
             </p>
           </div>
 
@@ -370,7 +421,7 @@ const App: React.FC = () => {
           <button
             onClick={openSettings}
             className={`hidden md:flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${
-              apiKey
+              aiReady
                 ? "bg-teal-50 text-teal-700 border-teal-200"
                 : "bg-slate-100 text-slate-600 border-slate-200"
             }`}
@@ -378,15 +429,19 @@ const App: React.FC = () => {
             {/* Status Dot */}
             <div
               className={`w-2 h-2 rounded-full ${
-                apiKey ? "bg-teal-500" : "bg-slate-400"
+                aiReady ? "bg-teal-500" : "bg-slate-400"
               }`}
             ></div>
-            {apiKey ? "API Key Active" : "No API Key"}
+            {aiReady ? `${activeProvider.label} Active` : "No API Key"}
           </button>
         </header>
 
-        {/* Content Render Container */}
-        <div className="p-4 md:p-8 max-w-7xl mx-auto">{renderView()}</div>
+        {/* Content Render Container - keyed by workspace and handoff so the tool reloads its saved state */}
+        <div key={`${active?.id}-${handoffCount}`} className="p-4 md:p-8 max-w-7xl mx-auto">
+          {active ? renderView() : (
+            <p className="text-sm text-slate-400 text-center py-20">Loading workspace...</p>
+          )}
+        </div>
       </main>
 
       {/* ADMIN PASSWORD MODAL */}
@@ -482,42 +537,94 @@ const App: React.FC = () => {
 
             {/* Modal Body */}
             <div className="p-6 space-y-4">
-              <p className="text-sm text-slate-600">
-               Enter your api key
-              </p>
-
-              {/* Input Field with Show/Hide Toggle */}
-              <div className="relative">
-                <input
-                  type={showKey ? "text" : "password"}
-                  value={tempKey}
-                  onChange={(e) => setTempKey(e.target.value)}
-                  placeholder="Paste your API key here..."
-                  className="w-full pl-4 pr-10 py-3 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-800 focus:ring-2 focus:ring-teal-500 outline-none font-mono"
-                />
-                {/* Eye Icon Toggle */}
-                <button
-                  onClick={() => setShowKey(!showKey)}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
-                >
-                  {showKey ? (
-                    <EyeOff className="w-4 h-4" />
-                  ) : (
-                    <Eye className="w-4 h-4" />
-                  )}
-                </button>
+              {/* Provider Picker */}
+              <div>
+                <label className="block text-xs font-bold text-slate-500 mb-1.5">Provider</label>
+                <div className="grid grid-cols-3 gap-1 bg-slate-100 p-1 rounded-lg">
+                  {AI_PROVIDERS.map(provider => (
+                    <button
+                      key={provider.id}
+                      onClick={() => chooseProvider(provider.id)}
+                      className={`py-2 text-xs font-bold rounded-md transition-all ${
+                        draftSettings.provider === provider.id ? "bg-white text-teal-700 shadow-sm" : "text-slate-500 hover:text-slate-700"
+                      }`}
+                    >
+                      {provider.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-1.5">{draftProvider.description}</p>
               </div>
 
+              {/* Endpoint for OpenAI-compatible servers */}
+              {draftProvider.needsEndpoint && (
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-1.5">Endpoint (base URL)</label>
+                  <input
+                    type="text"
+                    value={draftSettings.endpoint}
+                    onChange={(e) => setDraftSettings({ ...draftSettings, endpoint: e.target.value })}
+                    placeholder="e.g. http://localhost:11434/v1"
+                    className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-800 focus:ring-2 focus:ring-teal-500 outline-none font-mono"
+                  />
+                </div>
+              )}
+
+              {/* Model name (the mock has none) */}
+              {draftProvider.id !== "mock" && (
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-1.5">Model</label>
+                  <input
+                    type="text"
+                    value={draftSettings.model}
+                    onChange={(e) => setDraftSettings({ ...draftSettings, model: e.target.value })}
+                    placeholder={draftProvider.defaultModel}
+                    className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-800 focus:ring-2 focus:ring-teal-500 outline-none font-mono"
+                  />
+                </div>
+              )}
+
+              {/* Input Field with Show/Hide Toggle (the mock needs no key) */}
+              {draftProvider.id !== "mock" && (
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-1.5">
+                    API Key{!draftProvider.needsKey && " (optional for local servers)"}
+                  </label>
+                  <div className="relative">
+                    <input
+                      type={showKey ? "text" : "password"}
+                      value={draftSettings.apiKey}
+                      onChange={(e) => setDraftSettings({ ...draftSettings, apiKey: e.target.value })}
+                      placeholder="Paste your API key here..."
+                      className="w-full pl-4 pr-10 py-3 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-800 focus:ring-2 focus:ring-teal-500 outline-none font-mono"
+                    />
+                    {/* Eye Icon Toggle */}
+                    <button
+                      onClick={() => setShowKey(!showKey)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+                    >
+                      {showKey ? (
+                        <EyeOff className="w-4 h-4" />
+                      ) : (
+                        <Eye className="w-4 h-4" />
+                      )}
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* Modal Action Buttons */}
               <div className="flex gap-3 pt-2">
                 <button
                   onClick={handleSaveKey}
-                  className="flex-1 py-2.5 bg-teal-600 text-white font-medium rounded-lg hover:bg-teal-700 transition-all shadow-lg shadow-teal-600/10 flex justify-center items-center gap-2"
+                  disabled={!!draftError}
+                  title={draftError ?? undefined}
+                  className="flex-1 py-2.5 bg-teal-600 text-white font-medium rounded-lg hover:bg-teal-700 transition-all shadow-lg shadow-teal-600/10 flex justify-center items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  <Check className="w-4 h-4" /> Save Key
+                  <Check className="w-4 h-4" /> Save Settings
                 </button>
-                {/* Show Remove button only if key exists */}
-                {apiKey && (
+                {/* Show Remove button only if settings are saved */}
+                {aiReady && (
                   <button
                     onClick={handleClearKey}
                     className="px-4 py-2.5 bg-white border border-slate-200 text-slate-600 font-medium rounded-lg hover:bg-rose-50 hover:text-rose-600 hover:border-rose-200 transition-colors"
@@ -0,0 +1,280 @@
+#!/usr/bin/env node
+// Command-line interface for the Analyzer, Comparator and Batcher
+// Built with `npm run build:cli`; runs the same core logic and export formats as the browser tools
+
+// Import Node file system, path and argument parsing helpers
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+// Import the headless list operations shared with the UI
+import { BUDGET_UNITS, SET_TEMPLATE_PLACEHOLDERS, SPLIT_MODES, batch, compare, compareCounts, dedupe, formatSetText, getSetLabel } from "../core";
+// Import the sheet builders and serializers used by the Export menu
+import { ExportSheet, analysisSheets, batchSheets, comparisonSheets, safeFileName, toCsv, toJson } from "../services/exportService";
+// Import the CSV/TSV reader used by the Import button
+import { columnValues, parseTable } from "../services/csvService";
+// Import the normalization rules used by the Analyzer
+import { DEFAULT_NORMALIZATION, NORMALIZATION_RULES } from "../services/normalizeService";
+// Import shared type definitions
+import { BudgetUnit, NamingScheme, NormalizationOptions, NormalizationRuleId, SplitMode } from "../types";
+
+// Output formats supported by the CLI
+type OutputFormat = 'txt' | 'csv' | 'json';
+
+// One piece of output: plain text for txt, a sheet for csv/json
+interface OutputSection {
+  name: string;       // Section name, also used as the file name with --out-dir
+  text: string;       // Plain-text rendering
+  sheet: ExportSheet; // Table rendering
+}
+
+// Error for invalid arguments; printed with the usage hint
+class UsageError extends Error {}
+
+// Help text shown by --help and after usage errors
+const USAGE = `Usage: horizon-sort <command> [options] [files]
+
+Commands:
+  analyze [file]          Deduplicate a list (reads stdin when no file or "-")
+      --output <name>     unique | duplicates | frequency | all   (default: unique)
+      --rules <list>      Comma-separated match rules (default: ${Object.keys(DEFAULT_NORMALIZATION).filter(id => DEFAULT_NORMALIZATION[id as NormalizationRuleId]).join(',')})
+                          Available: ${NORMALIZATION_RULES.map(rule => rule.id).join(', ')}; "none" for exact matching
+  compare <fileA> <fileB> Compare two lists ("-" reads one of them from stdin)
+      --output <name>     intersection | a-only | b-only | counts | all   (default: all)
+                          "counts" lists every item with its count in each list and the difference
+      --rules <list>      Match rules applied before comparing (default: exact matching)
+  batch [file]            Split a list into sets
+      --mode <mode>       ${SPLIT_MODES.map(mode => mode.id).join(' | ')}   (default: size)
+      --value <n>         Items per set, number of sets, or budget per set   (default: 20)
+      --seed <n>          Seed for --mode shuffle   (default: 1)
+      --marker <text>     Separator line for --mode marker   (default: blank lines)
+      --key <regex>       Key pattern for --mode group; first capture group or whole match
+      --unit <unit>       ${BUDGET_UNITS.map(unit => unit.id).join(' | ')} for --mode budget   (default: chars)
+      --pack              Bin-pack --mode budget sets (fewer sets, list order not kept)
+      --template <text>   Item line template, e.g. "{index:03}. {item|upper}" (replaces numbering and prefix)
+      --header <text>     Header line template per set, e.g. "## Set {setAlpha} ({count} items)"
+      --footer <text>     Footer line template per set
+                          Placeholders: ${SET_TEMPLATE_PLACEHOLDERS.map(p => `{${p.name}}`).join(' ')}
+      --naming <scheme>   numeric | alpha   (default: numeric)
+      --no-index          Do not number the items
+      --prefix <text>     Text placed before every item
+
+Common options:
+  --format <fmt>          txt | csv | json   (default: txt)
+  --out-dir <dir>         Write one file per section instead of printing to stdout
+  --column <name|n>       Column to read from .csv/.tsv input (default: first column);
+                          with stdin input, reads stdin as CSV/TSV and takes this column
+  -h, --help              Show this help`;
+
+// Read a list from a file or stdin; CSV/TSV files are reduced to one column like the Import button does
+// Stdin has no extension, so it is read as a table only when --column asks for one (delimiter sniffed)
+const readLines = (path: string | undefined, column: string | undefined): string => {
+  const stdin = !path || path === '-';
+  const text = stdin ? readFileSync(0, 'utf8') : readFileSync(path, 'utf8');
+  if (stdin ? column === undefined : !/\.(csv|tsv)$/i.test(path)) return text;
+  const source = stdin ? 'stdin' : path;
+  const table = parseTable(text, source);
+  let index = 0;
+  if (column !== undefined) {
+    index = /^\d+$/.test(column) ? parseInt(column, 10) - 1 : table.headers.indexOf(column);
+    if (index < 0 || index >= table.headers.length) {
+      throw new UsageError(`Column "${column}" not found in ${source} (columns: ${table.headers.join(', ')})`);
+    }
+  }
+  return columnValues(table, index).join('\n');
+};
+
+// Parse the --rules option into normalization settings
+const parseRules = (value: string | undefined): NormalizationOptions => {
+  if (!value) return DEFAULT_NORMALIZATION;
+  const ids = value === 'none' ? [] : value.split(',').map(id => id.trim());
+  const options = Object.fromEntries(NORMALIZATION_RULES.map(rule => [rule.id, false])) as NormalizationOptions;
+  ids.forEach(id => {
+    if (!(id in options)) throw new UsageError(`Unknown match rule: ${id}`);
+    options[id as NormalizationRuleId] = true;
+  });
+  return options;
+};
+
+// Check an option against its allowed values
+const pick = <T extends string>(name: string, value: string | undefined, allowed: readonly T[], fallback: T): T => {
+  if (value === undefined) return fallback;
+  if (!allowed.includes(value as T)) throw new UsageError(`--${name} must be one of: ${allowed.join(', ')}`);
+  return value as T;
+};
+
+// Plain-text rendering of a one-column list
+const listSection = (name: string, sheet: ExportSheet): OutputSection =>
+  ({ name, sheet, text: sheet.rows.map(row => row.join('\t')).join('\n') });
+
+// analyze: unique list, duplicates and frequency table
+const runAnalyze = (files: string[], values: Record<string, string | boolean | undefined>): OutputSection[] => {
+  const output = pick('output', values.output as string, ['unique', 'duplicates', 'frequency', 'all'] as const, 'unique');
+  const result = dedupe(readLines(files[0], values.column as string), { normalization: parseRules(values.rules as string) });
+  const [uniqueSheet, frequencySheet] = analysisSheets(result);
+  const sections: Record<string, OutputSection> = {
+    unique: listSection('unique', uniqueSheet),
+    duplicates: listSection('duplicates', {
+      name: 'Duplicates',
+      headers: ['Title'],
+      rows: result.duplicateList.map(title => [title]),
+    }),
+    frequency: listSection('frequency', frequencySheet),
+  };
+  return output === 'all' ? Object.values(sections) : [sections[output]];
+};
+
+// compare: intersection and the items unique to each list
+const runCompare = (files: string[], values: Record<string, string | boolean | undefined>): OutputSection[] => {
+  if (files.length !== 2) throw new UsageError("compare needs two inputs: <fileA> <fileB>");
+  if (files[0] === '-' && files[1] === '-') throw new UsageError("Only one list can be read from stdin");
+  const output = pick('output', values.output as string, ['intersection', 'a-only', 'b-only', 'counts', 'all'] as const, 'all');
+  const column = values.column as string;
+  const options = values.rules ? { normalization: parseRules(values.rules as string) } : {};
+  if (output === 'counts') {
+    // Count-aware comparison: the Export menu's Counts sheet
+    const counted = compareCounts(readLines(files[0], column), readLines(files[1], column), options);
+    return [listSection('counts', comparisonSheets(counted).find(sheet => sheet.name === 'Counts')!)];
+  }
+  const result = compare(readLines(files[0], column), readLines(files[1], column), options);
+  const region = (name: string, label: string, items: string[]) =>
+    listSection(name, { name: label, headers: [label], rows: items.map(item => [item]) });
+  const sections: Record<string, OutputSection> = {
+    'a-only': region('a-only', 'Only in List A', result.aOnly),
+    intersection: region('intersection', 'In Both', result.intersection),
+    'b-only': region('b-only', 'Only in List B', result.bOnly),
+  };
+  if (output !== 'all') return [sections[output]];
+  // With --out-dir every region gets its own file
+  if (values['out-dir']) return Object.values(sections);
+  // "all" on stdout uses the Export menu's three-column sheet so CSV stays a single table
+  const combined = comparisonSheets(result)[0];
+  return [{ ...listSection('comparison', combined), text: Object.values(sections).map(s => `## ${s.sheet.name}\n${s.text}`).join('\n\n') }];
+};
+
+// batch: one section per set, numbered and prefixed like the Batcher's copy output
+const runBatch = (files: string[], values: Record<string, string | boolean | undefined>): OutputSection[] => {
+  const mode = pick<SplitMode>('mode', values.mode as string, SPLIT_MODES.map(m => m.id), 'size');
+  const naming = pick<NamingScheme>('naming', values.naming as string, ['numeric', 'alpha'], 'numeric');
+  const value = values.value === undefined ? 20 : Number(values.value);
+  if (!Number.isInteger(value) || value < 1) throw new UsageError("--value must be a positive whole number");
+  const useIndexing = !values['no-index'];
+  const prefix = (values.prefix as string) || '';
+  const seed = values.seed === undefined ? 1 : Number(values.seed);
+  if (!Number.isInteger(seed)) throw new UsageError("--seed must be a whole number");
+  const budgetUnit = pick<BudgetUnit>('unit', values.unit as string, BUDGET_UNITS.map(unit => unit.id), 'chars');
+  const options = {
+    seed,
+    marker: (values.marker as string) || '',
+    keyPattern: (values.key as string) || '',
+    budgetUnit,
+    binPacking: !!values.pack,
+  };
+
+  const result = batch(readLines(files[0], values.column as string), mode, value, options);
+  const label = (set: typeof result.sets[number]) => getSetLabel(set, naming);
+  // --template (and --header/--footer) replace the numbering and prefix, like the Batcher's Custom Template
+  const template = values.template || values.header || values.footer
+    ? {
+        header: (values.header as string) || '',
+        item: (values.template as string) || '{item}',
+        footer: (values.footer as string) || '',
+      }
+    : null;
+  const format = { useIndexing, prefix, template };
+  const sheets = batchSheets(result.sets, { label, format });
+  let offset = 0;
+  return result.sets.map((set, i) => {
+    const text = formatSetText(set, { offset, totalItems: result.totalItems }, format);
+    offset += set.items.length;
+    return { name: label(set), text, sheet: sheets[i] };
+  });
+};
+
+// Render sections for stdout: txt keeps section headings, CSV must be a single table
+const renderStdout = (sections: OutputSection[], format: OutputFormat, command: string): string => {
+  if (format === 'json') return toJson(sections.map(s => s.sheet));
+  if (format === 'csv') {
+    if (sections.length === 1) return toCsv(sections[0].sheet);
+    if (command !== 'batch') throw new UsageError("CSV holds one table: pick a single --output or use --out-dir");
+    // Batches flatten into one table with a Set column
+    return toCsv({
+      name: 'Sets',
+      headers: ['Set', ...sections[0].sheet.headers],
+      rows: sections.flatMap(s => s.sheet.rows.map(row => [s.name, ...row])),
+    });
+  }
+  if (sections.length === 1) return sections[0].text;
+  // Every section gets a heading line: the set label for batches, "## Sheet" (as in compare --output all) otherwise
+  return sections.map(s => `${command === 'batch' ? s.name : `## ${s.sheet.name}`}\n${s.text}`).join('\n\n');
+};
+
+// Write one file per section into the output directory
+const writeSections = (sections: OutputSection[], format: OutputFormat, dir: string) => {
+  mkdirSync(dir, { recursive: true });
+  sections.forEach(section => {
+    const data = format === 'json' ? toJson([section.sheet]) : format === 'csv' ? toCsv(section.sheet) : section.text;
+    const file = join(dir, `${safeFileName(section.name)}.${format}`);
+    writeFileSync(file, data.endsWith('\n') ? data : `${data}\n`);
+    process.stderr.write(`wrote ${file}\n`);
+  });
+};
+
+// Entry point: parse arguments, run the command and print or write the result
+const main = (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      output: { type: 'string' },
+      rules: { type: 'string' },
+      mode: { type: 'string' },
+      value: { type: 'string' },
+      naming: { type: 'string' },
+      'no-index': { type: 'boolean' },
+      prefix: { type: 'string' },
+      seed: { type: 'string' },
+      marker: { type: 'string' },
+      key: { type: 'string' },
+      unit: { type: 'string' },
+      pack: { type: 'boolean' },
+      template: { type: 'string' },
+      header: { type: 'string' },
+      footer: { type: 'string' },
+      format: { type: 'string' },
+      'out-dir': { type: 'string' },
+      column: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  const [command, ...files] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+  const format = pick<OutputFormat>('format', values.format, ['txt', 'csv', 'json'], 'txt');
+  const runners: Record<string, typeof runAnalyze> = { analyze: runAnalyze, compare: runCompare, batch: runBatch };
+  const runner = runners[command];
+  if (!runner) throw new UsageError(`Unknown command: ${command}`);
+  const sections = runner(files, values);
+
+  if (values['out-dir']) {
+    writeSections(sections, format, values['out-dir']);
+  } else {
+    const text = renderStdout(sections, format, command);
+    process.stdout.write(text.endsWith('\n') || text === '' ? text : `${text}\n`);
+  }
+};
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  // Argument problems get the usage hint; anything else (e.g. a missing file) just the message
+  const message = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`horizon-sort: ${message}\n`);
+  if (error instanceof UsageError || (error as { code?: string })?.code?.startsWith('ERR_PARSE_ARGS')) {
+    process.stderr.write(`Run "horizon-sort --help" for usage.\n`);
+    process.exitCode = 2;
+  } else {
+    process.exitCode = 1;
+  }
+}
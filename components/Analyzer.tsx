@@ -1,102 +1,104 @@
 // Import React hooks: useState for state, useMemo for caching calculations
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 // Import types for Analysis results and Frequency data
-import { AnalysisResult, FrequencyItem } from '../types';
+import { AnalysisResult, NormalizationOptions, SendTarget, SimilarityMetric, TableSource, ViewMode } from '../types';
+// Import the default normalization rules
+import { DEFAULT_NORMALIZATION } from '../services/normalizeService';
+// Import the metric labels for the near-duplicate settings
+import { SIMILARITY_METRICS } from '../services/fuzzyService';
+// Import the worker hook and its cancellation error
+import { useEngineJob } from '../hooks/useEngineJob';
+import { JobCancelledError } from '../services/engineService';
+// Import the progress bar shown while a job runs
+import JobProgress from './JobProgress';
+// Import the file input with CSV/TSV column picker
+import TableImport from './TableImport';
+// Import the shared Export menu and the Analyzer sheet builder
+import ExportMenu from './ExportMenu';
+import { analysisSheets, downloadBlob } from '../services/exportService';
+// Import the shared rule toggles panel
+import NormalizationSettings from './NormalizationSettings';
+// Import workspace autosave and the run history menu
+import { useWorkspaceTool } from '../context/WorkspaceContext';
+import RunHistory from './RunHistory';
+// Import the cross-tool "Send to…" menu
+import SendToMenu from './SendToMenu';
 // Import Recharts components for data visualization (Bar Chart)
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 // Import icons from Lucide React for UI elements
-import { Download, AlertCircle, FileText, Hash } from 'lucide-react';
+import { Download, AlertCircle, FileText, Hash, Layers, Sparkles } from 'lucide-react';
+
+// Inputs and settings autosaved to the active workspace
+type AnalyzerState = {
+  inputText: string;
+  source: TableSource | null;
+  normalization: NormalizationOptions;
+  nearMode: boolean;
+  metric: SimilarityMetric;
+  threshold: number;
+};
+
+// Define the interface for props accepted by Analyzer
+interface AnalyzerProps {
+  onSendTo: (target: SendTarget, items: string[]) => void; // Pipes a result list into another tool
+}
 
 // Define the Analyzer functional component
-const Analyzer: React.FC = () => {
+const Analyzer: React.FC<AnalyzerProps> = ({ onSendTo }) => {
+  // Saved state, autosave and past runs from the active workspace
+  const { saved, save, recordRun, history } = useWorkspaceTool<AnalyzerState>(ViewMode.ANALYZER);
   // State variable for the raw input text entered by the user
-  const [inputText, setInputText] = useState('');
-  // State variable to store the processed analysis result, initially null
-  const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [inputText, setInputText] = useState(saved.inputText ?? '');
+  // State variable to store the processed analysis result (restored from the latest run)
+  const [result, setResult] = useState<AnalysisResult | null>(history[0]?.result ?? null);
+  // State variable for an imported CSV/TSV table and the column being analyzed
+  const [source, setSource] = useState<TableSource | null>(saved.source ?? null);
+  // State variable for the normalization rules used to detect duplicates
+  const [normalization, setNormalization] = useState<NormalizationOptions>({ ...DEFAULT_NORMALIZATION, ...saved.normalization });
+  // State variables for the optional near-duplicate (fuzzy) clustering
+  const [nearMode, setNearMode] = useState(saved.nearMode ?? false);
+  const [metric, setMetric] = useState<SimilarityMetric>(saved.metric ?? 'jaccard');
+  const [threshold, setThreshold] = useState(saved.threshold ?? 0.8);
+  // Background worker job state for the analysis
+  const { run, cancel, running, progress } = useEngineJob();
+
+  // Autosave inputs and settings whenever they change
+  useEffect(() => {
+    save({ inputText, source, normalization, nearMode, metric, threshold });
+  }, [save, inputText, source, normalization, nearMode, metric, threshold]);
 
   // Function to handle the analysis logic when the button is clicked
-  const handleAnalyze = () => {
+  const handleAnalyze = async () => {
     // If input is empty or whitespace, do nothing
     if (!inputText.trim()) return;
 
-    // Split input by newlines, trim each line, and remove empty lines
-    const lines = inputText.split(/\n/).map(l => l.trim()).filter(l => l !== '');
-    // Calculate total number of valid lines
-    const total = lines.length;
-    // Create a Set to automatically filter out duplicates
-    const uniqueSet = new Set(lines);
-    // Get the count of unique items
-    const unique = uniqueSet.size;
-    
-    // Create an object to map each title to its frequency count
-    const freqMap: Record<string, number> = {};
-    // Iterate over all lines
-    lines.forEach(line => {
-      // Increment the count for this line in the map
-      freqMap[line] = (freqMap[line] || 0) + 1;
-    });
-
-    // Convert the map to an array of objects for easier sorting/display
-    const frequencyList: FrequencyItem[] = Object.entries(freqMap)
-      .map(([title, count]) => ({ title, count }))
-      // Sort the list by count in descending order (most frequent first)
-      .sort((a, b) => b.count - a.count);
-
-    // Extract items that appear more than once (duplicates)
-    const duplicateList = frequencyList.filter(item => item.count > 1).map(item => item.title);
-
-    // Update the result state with the calculated statistics and lists
-    setResult({
-      stats: {
-        total,
-        unique,
-        duplicates: total - unique, // Calculate duplicates count
-        processedAt: new Date().toLocaleTimeString(), // Store current time
-      },
-      uniqueList: Array.from(uniqueSet).sort(), // Store sorted unique list
-      duplicateList, // Store list of duplicate titles
-      frequencyMap: frequencyList, // Store full frequency data
-    });
-  };
-
-  // Function to handle file uploads via the file input
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    // Get the first file selected by the user
-    const file = e.target.files?.[0];
-    // If no file selected, exit
-    if (!file) return;
-
-    // Create a FileReader to read the file content
-    const reader = new FileReader();
-    // Define what happens when the file is successfully read
-    reader.onload = (event) => {
-      // Cast the result to a string
-      const text = event.target?.result as string;
-      // Update the input text state with the file content
-      setInputText(text);
-    };
-    // Trigger the file read as plain text
-    reader.readAsText(file);
+    try {
+      // Run the grouping (and optional fuzzy clustering) in the background worker
+      const analysis = await run('analyze', {
+        text: inputText,
+        normalization,
+        fuzzy: nearMode ? { metric, threshold } : undefined,
+      });
+      // Update the result state with the calculated statistics and lists
+      setResult(analysis);
+      // Keep the run in the workspace history
+      recordRun({
+        tool: ViewMode.ANALYZER,
+        summary: `${analysis.stats.total.toLocaleString()} rows · ${analysis.stats.unique.toLocaleString()} unique`,
+        result: analysis,
+      });
+    } catch (err) {
+      // A cancelled job is expected; anything else is logged for debugging
+      if (!(err instanceof JobCancelledError)) console.error("Analysis failed:", err);
+    }
   };
 
   // Function to download the unique list as a text file
   const downloadUnique = () => {
     // If no result exists, do nothing
     if (!result) return;
-    // Create a Blob containing the unique list joined by newlines
-    const blob = new Blob([result.uniqueList.join('\n')], { type: 'text/plain' });
-    // Create a temporary URL for the Blob
-    const url = URL.createObjectURL(blob);
-    // Create a temporary anchor element
-    const a = document.createElement('a');
-    // Set the href to the Blob URL
-    a.href = url;
-    // Set the filename for the download
-    a.download = 'horizon_unique_data.txt';
-    // Programmatically click the anchor to trigger download
-    a.click();
-    // Revoke the URL to free up memory
-    URL.revokeObjectURL(url);
+    // Create a Blob containing the unique list joined by newlines and download it
+    downloadBlob(new Blob([result.uniqueList.join('\n')], { type: 'text/plain' }), 'horizon_unique_data.txt');
   };
 
   // Calculate chart data only when 'result' changes using useMemo
@@ -133,36 +135,72 @@ const Analyzer: React.FC = () => {
               onChange={(e) => setInputText(e.target.value)} // Update state on change
             />
             {/* Controls container: File input and Analyze button */}
-            <div className="mt-4 flex flex-col sm:flex-row gap-3">
-              <label className="flex-1">
-                <span className="sr-only">Choose File</span>
-                {/* File Input for uploading text files */}
-                <input 
-                  type="file" 
-                  accept=".txt,.csv" 
-                  onChange={handleFileUpload}
-                  className="block w-full text-xs text-slate-500
-                    file:mr-4 file:py-2.5 file:px-4
-                    file:rounded-md file:border-0
-                    file:text-xs file:font-semibold
-                    file:bg-slate-100 file:text-slate-700
-                    hover:file:bg-slate-200 cursor-pointer"
-                />
-              </label>
+            <div className="mt-4 flex flex-col sm:flex-row sm:items-start gap-3">
+              <div className="flex-1">
+                {/* File Input for text files, with a column picker for CSV/TSV */}
+                <TableImport source={source} onSourceChange={setSource} onText={setInputText} />
+              </div>
               {/* Analyze Button */}
               <button
                 onClick={handleAnalyze}
-                disabled={!inputText.trim()} // Disable if input is empty
+                disabled={!inputText.trim() || running} // Disable if input is empty or a job is running
                 className="px-6 py-2.5 bg-teal-600 text-white font-medium rounded-md hover:bg-teal-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-md shadow-teal-600/10"
               >
                 Analyze
               </button>
             </div>
+            {/* Normalization rules used to decide which lines count as duplicates */}
+            <div className="mt-4 pt-4 border-t border-slate-100">
+              <NormalizationSettings options={normalization} onChange={setNormalization} />
+            </div>
+            {/* Near-duplicate mode: fuzzy clustering on top of the exact grouping */}
+            <div className="mt-4 pt-4 border-t border-slate-100 space-y-3">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={nearMode}
+                  onChange={(e) => setNearMode(e.target.checked)}
+                  className="w-4 h-4 text-teal-600 rounded focus:ring-teal-500 border-slate-300"
+                />
+                <span className="text-xs font-bold text-slate-700">Find Near Duplicates</span>
+              </label>
+              {nearMode && (
+                <>
+                  {/* Similarity metric selector */}
+                  <select
+                    value={metric}
+                    onChange={(e) => setMetric(e.target.value as SimilarityMetric)}
+                    className="w-full px-3 py-2 text-xs border border-slate-200 rounded-lg bg-white text-slate-700 focus:ring-2 focus:ring-teal-500 outline-none"
+                  >
+                    {SIMILARITY_METRICS.map(m => (
+                      <option key={m.id} value={m.id}>{m.label}</option>
+                    ))}
+                  </select>
+                  {/* Similarity threshold slider */}
+                  <div>
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="text-xs font-medium text-slate-700">Similarity Threshold</span>
+                      <span className="text-xs font-mono font-bold text-teal-600 bg-teal-50 px-2 py-0.5 rounded">{Math.round(threshold * 100)}%</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="50"
+                      max="99"
+                      value={Math.round(threshold * 100)}
+                      onChange={(e) => setThreshold(parseInt(e.target.value) / 100)}
+                      className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-teal-600"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
           </div>
         </div>
 
         {/* Results Section - Takes up 2 columns on large screens */}
         <div className="lg:col-span-2 space-y-6">
+          {/* Progress bar and cancel button while the worker is busy */}
+          {running && <JobProgress progress={progress} label="Analyzing dataset..." onCancel={cancel} />}
           {/* Conditional rendering: Show placeholder if no result, else show data */}
           {!result ? (
             <div className="h-full flex flex-col items-center justify-center bg-white rounded-xl border border-dashed border-slate-300 p-12 text-slate-400">
@@ -230,6 +268,12 @@ const Analyzer: React.FC = () => {
                     <Download className="w-4 h-4" />
                     Download Unique List
                   </button>
+                  {/* Export unique list, frequency map and clusters in other formats */}
+                  <div className="flex justify-center gap-2">
+                    <SendToMenu getItems={() => result.uniqueList} onSend={onSendTo} exclude={ViewMode.ANALYZER} />
+                    <ExportMenu getSheets={() => analysisSheets(result, source)} baseName="horizon_analysis" />
+                    <RunHistory entries={history} onRestore={(entry) => setResult(entry.result)} />
+                  </div>
                   {/* Show duplication warning if duplicates exist */}
                   {result.duplicateList.length > 0 && (
                      <div className="p-3 bg-rose-50 rounded-lg border border-rose-100 flex items-start gap-2">
@@ -242,6 +286,87 @@ const Analyzer: React.FC = () => {
                   )}
                 </div>
               </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {/* Duplicate Groups: each normalized entry with the spellings merged into it */}
+                {result.duplicateList.length > 0 && (
+                  <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                    <div className="px-4 py-3 bg-slate-50 border-b border-slate-100 flex justify-between items-center">
+                      <h3 className="text-sm font-bold text-slate-800 flex items-center gap-2 font-display">
+                        <Layers className="w-4 h-4 text-teal-600" /> Duplicate Groups
+                      </h3>
+                      <div className="flex items-center gap-2">
+                        <SendToMenu getItems={() => result.duplicateList} onSend={onSendTo} exclude={ViewMode.ANALYZER} />
+                        <span className="bg-white text-slate-600 text-xs font-bold px-2 py-0.5 rounded border border-slate-200">{result.duplicateList.length}</span>
+                      </div>
+                    </div>
+                    <ul className="max-h-64 overflow-y-auto divide-y divide-slate-100 custom-scrollbar">
+                      {result.frequencyMap.filter(item => item.count > 1).map((item, i) => (
+                        <li key={i} className="px-4 py-2 text-sm">
+                          <div className="flex justify-between gap-2">
+                            <span className="font-medium text-slate-700 truncate">{item.title}</span>
+                            <span className="text-xs font-mono text-rose-500 font-bold flex-shrink-0">x{item.count}</span>
+                          </div>
+                          {/* Show the original spellings when more than one was merged */}
+                          {item.variants && item.variants.length > 1 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {item.variants.map((variant, v) => (
+                                <span key={v} className="px-1.5 py-0.5 rounded text-[10px] font-mono bg-slate-100 text-slate-600 border border-slate-200">
+                                  {variant}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* Near-Duplicate Clusters: entries linked by the fuzzy similarity measure */}
+                {result.nearDuplicates && (
+                  <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                    <div className="px-4 py-3 bg-teal-50 border-b border-teal-100 flex justify-between items-center">
+                      <h3 className="text-sm font-bold text-teal-900 flex items-center gap-2 font-display">
+                        <Sparkles className="w-4 h-4 text-teal-600" /> Near-Duplicate Clusters
+                      </h3>
+                      <div className="flex items-center gap-2">
+                        {/* Sends one representative per cluster */}
+                        <SendToMenu getItems={() => result.nearDuplicates!.map(cluster => cluster.representative)} onSend={onSendTo} exclude={ViewMode.ANALYZER} />
+                        <span className="bg-white text-teal-700 text-xs font-bold px-2 py-0.5 rounded border border-teal-200">{result.nearDuplicates.length}</span>
+                      </div>
+                    </div>
+                    {/* Very large or near-identical inputs skip the most common words or grams */}
+                    {result.nearDuplicatesApproximate && (
+                      <p className="px-4 py-2 text-xs text-amber-700 bg-amber-50 border-b border-amber-100">
+                        Approximate: this list is too uniform to compare every candidate, so some clusters may be incomplete.
+                      </p>
+                    )}
+                    {result.nearDuplicates.length > 0 ? (
+                      <ul className="max-h-64 overflow-y-auto divide-y divide-slate-100 custom-scrollbar">
+                        {result.nearDuplicates.map((cluster, i) => (
+                          <li key={i} className="px-4 py-2 text-sm">
+                            <div className="flex justify-between gap-2">
+                              <span className="font-medium text-slate-700 truncate">{cluster.representative}</span>
+                              <span className="text-xs font-mono text-teal-600 font-bold flex-shrink-0">
+                                {cluster.members.length} · {Math.round(cluster.score * 100)}%
+                              </span>
+                            </div>
+                            {/* Every distinct entry in the cluster */}
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {cluster.members.map((member, m) => (
+                                <span key={m} className="px-1.5 py-0.5 rounded text-[10px] font-mono bg-slate-100 text-slate-600 border border-slate-200">
+                                  {member}
+                                </span>
+                              ))}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : <p className="text-xs text-slate-400 italic p-4">No near duplicates above the threshold</p>}
+                  </div>
+                )}
+              </div>
             </>
           )}
         </div>
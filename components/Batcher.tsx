@@ -1,104 +1,201 @@
-// Import React, useState, and useMemo from React library
-import React, { useState, useMemo } from 'react';
+// Import React, useState, and useEffect from React library
+import React, { useState, useEffect } from 'react';
+// Import batch type definitions
+import { BatchResult, BatchSet, BudgetUnit, NamingScheme, SendTarget, SplitMode, TableSource, ViewMode } from '../types';
+// Import the headless set labelling and formatting helpers
+import { BUDGET_UNITS, SET_TEMPLATE_PLACEHOLDERS, SPLIT_MODES, SetFormatOptions, SetTemplate, TEMPLATE_TRANSFORMS, formatSetFrame, formatSetItem, formatSetText, getFormattedCount, getSetLabel, unknownPlaceholders } from '../core';
+// Import the worker hook and its cancellation error
+import { useEngineJob } from '../hooks/useEngineJob';
+import { JobCancelledError } from '../services/engineService';
+// Import the progress bar shown while a job runs
+import JobProgress from './JobProgress';
+// Import the file input with CSV/TSV column picker
+import TableImport from './TableImport';
+// Import the shared Export menu and the Batcher sheet builder
+import ExportMenu from './ExportMenu';
+import { batchSheets, downloadBlob, safeFileName } from '../services/exportService';
+// Import the ZIP writer used by "Download All"
+import { createZip, ZipEntry } from '../services/zipService';
+// Import the shared windowed list for set contents
+import VirtualList from './VirtualList';
+// Import workspace autosave
+import { useWorkspaceTool } from '../context/WorkspaceContext';
+// Import the cross-tool "Send to…" menu
+import SendToMenu from './SendToMenu';
 // Import icons for UI elements from Lucide React
-import { Copy, Layers, ListOrdered, Settings2, Hash, GripVertical, Type, ArrowRight } from 'lucide-react';
+import { Copy, Layers, ListOrdered, Settings2, Hash, GripVertical, Type, ArrowRight, Archive, Dices, Regex, SeparatorHorizontal, AlertTriangle, Gauge, PackageCheck, Braces } from 'lucide-react';
 
-// Define a type for the split mode: either by 'size' of sets or by 'count' of sets
-type SplitMode = 'size' | 'count';
+// Number of set cards rendered per page
+const SETS_PER_PAGE = 24;
+// Pause after the last edit before the sets are recalculated, so typing does not start a worker job per keystroke
+const SPLIT_DELAY_MS = 300;
 
-// Define a type for the naming convention: Numeric (1, 2) or Alphabetical (A, B)
-type NamingScheme = 'numeric' | 'alpha';
+// Inputs and settings autosaved to the active workspace
+type BatcherState = {
+  inputText: string;
+  source: TableSource | null;
+  mode: SplitMode;
+  namingScheme: NamingScheme;
+  inputValue: number;
+  useIndexing: boolean;
+  prefix: string;
+  includeManifest: boolean;
+  seed: number;
+  marker: string;
+  keyPattern: string;
+  budgetLimit: number;
+  budgetUnit: BudgetUnit;
+  binPacking: boolean;
+  useTemplate: boolean;
+  template: SetTemplate;
+};
+
+// Quick picks for the size budget
+const BUDGET_PRESETS = [500, 1000, 2000, 4000, 8000];
+
+// Starting point for a custom template, equivalent to numbered items under a heading
+const DEFAULT_TEMPLATE: SetTemplate = { header: 'Set {set} ({count} items)', item: '{index}. {item}', footer: '' };
+
+// Template fields in display order; the header and footer cannot use item placeholders
+const TEMPLATE_FIELDS: { key: keyof SetTemplate; label: string; placeholder: string }[] = [
+  { key: 'header', label: 'Header Line', placeholder: 'e.g. ## Set {setAlpha} ({count} items)' },
+  { key: 'item', label: 'Item Line', placeholder: 'e.g. {index:03}. {item|upper}' },
+  { key: 'footer', label: 'Footer Line', placeholder: 'e.g. -- end of set {set} --' },
+];
 
-// Interface defining the structure of a single Batch/Set
-interface BatchSet {
-  id: number;      // Unique identifier number for the set (0-based index)
-  items: string[]; // Array of strings (lines) in this set
+// Define the interface for props accepted by Batcher
+interface BatcherProps {
+  onSendTo: (target: SendTarget, items: string[]) => void; // Pipes a set into another tool
 }
 
 // Define the Batcher functional component
-const Batcher: React.FC = () => {
+const Batcher: React.FC<BatcherProps> = ({ onSendTo }) => {
+  // Saved state and autosave from the active workspace
+  const { saved, save } = useWorkspaceTool<BatcherState>(ViewMode.BATCHER);
   // State for raw input text from textarea
-  const [inputText, setInputText] = useState('');
-  // State for the current split mode ('size' or 'count')
-  const [mode, setMode] = useState<SplitMode>('size');
+  const [inputText, setInputText] = useState(saved.inputText ?? '');
+  // State for an imported CSV/TSV table and the column being split
+  const [source, setSource] = useState<TableSource | null>(saved.source ?? null);
+  // State for the current split mode (see SPLIT_MODES)
+  const [mode, setMode] = useState<SplitMode>(saved.mode ?? 'size');
   // State for the naming scheme of the sets
-  const [namingScheme, setNamingScheme] = useState<NamingScheme>('numeric');
+  const [namingScheme, setNamingScheme] = useState<NamingScheme>(saved.namingScheme ?? 'numeric');
   // State for the numerical input value (either items per set OR number of sets)
-  const [inputValue, setInputValue] = useState<number>(20);
+  const [inputValue, setInputValue] = useState<number>(saved.inputValue ?? 20);
   // State for toggling auto-indexing feature
-  const [useIndexing, setUseIndexing] = useState(true);
+  const [useIndexing, setUseIndexing] = useState(saved.useIndexing ?? true);
   // State for optional custom prefix string
-  const [prefix, setPrefix] = useState('');
-
-  // Helper function to convert a number to Excel-style column name (0 -> A, 1 -> B ... 26 -> AA)
-  const getAlphaLabel = (index: number): string => {
-    let label = "";
-    let i = index + 1; // Convert to 1-based for calculation
-    while (i > 0) {
-      let remainder = (i - 1) % 26;
-      label = String.fromCharCode(65 + remainder) + label;
-      i = Math.floor((i - 1) / 26);
-    }
-    return label;
-  };
+  const [prefix, setPrefix] = useState(saved.prefix ?? '');
+  // State for including manifest.json in the "Download All" ZIP
+  const [includeManifest, setIncludeManifest] = useState(saved.includeManifest ?? true);
+  // State for the shuffle seed, the marker line and the group key pattern
+  const [seed, setSeed] = useState<number>(saved.seed ?? 1);
+  const [marker, setMarker] = useState(saved.marker ?? '');
+  const [keyPattern, setKeyPattern] = useState(saved.keyPattern ?? '');
+  // State for the size budget: limit per set, its unit and whether to bin-pack
+  const [budgetLimit, setBudgetLimit] = useState<number>(saved.budgetLimit ?? 2000);
+  const [budgetUnit, setBudgetUnit] = useState<BudgetUnit>(saved.budgetUnit ?? 'chars');
+  const [binPacking, setBinPacking] = useState(saved.binPacking ?? false);
+  // State for the custom output template (replaces numbering and prefix while on)
+  const [useTemplate, setUseTemplate] = useState(saved.useTemplate ?? false);
+  const [template, setTemplate] = useState<SetTemplate>({ ...DEFAULT_TEMPLATE, ...saved.template });
+  // Error from the last split (e.g. an invalid key pattern)
+  const [error, setError] = useState<string | null>(null);
 
-  // useMemo hook to recalculate sets only when input dependencies change
-  const processedData = useMemo(() => {
-    // Split input text by newlines, trim lines, remove empty lines
-    const lines = inputText.split(/\n/).map(l => l.trim()).filter(l => l !== '');
-    // If no lines, return empty result immediately
-    if (lines.length === 0) return { sets: [], totalItems: 0 };
-
-    // Variable to hold the calculated size of each set
-    let setSize = 20;
-    
-    // Logic for determining set size based on mode
-    if (mode === 'size') {
-      // Direct assignment: size is the input value (min 1)
-      setSize = Math.max(1, inputValue);
-    } else {
-      // Split by Count: Calculate size by dividing total lines by target set count
-      const targetSets = Math.max(1, inputValue);
-      setSize = Math.ceil(lines.length / targetSets);
-    }
+  // Metadata for the selected mode: label, description and what the value means
+  const modeInfo = SPLIT_MODES.find(m => m.id === mode) ?? SPLIT_MODES[0];
 
-    // Array to store the generated sets
-    const sets: BatchSet[] = [];
-    // Iterate through lines incrementing by setSize
-    for (let i = 0; i < lines.length; i += setSize) {
-      // Create a new set object
-      sets.push({
-        id: sets.length, // store 0-based index
-        items: lines.slice(i, i + setSize) // Slice the main array to get specific batch items
-      });
+  // Autosave inputs and settings whenever they change
+  useEffect(() => {
+    save({ inputText, source, mode, namingScheme, inputValue, useIndexing, prefix, includeManifest, seed, marker, keyPattern, budgetLimit, budgetUnit, binPacking, useTemplate, template });
+  }, [save, inputText, source, mode, namingScheme, inputValue, useIndexing, prefix, includeManifest, seed, marker, keyPattern, budgetLimit, budgetUnit, binPacking, useTemplate, template]);
+
+  // Background worker job state for splitting
+  const { run, cancel, running, progress } = useEngineJob();
+  // State holding the latest generated sets
+  const [processedData, setProcessedData] = useState<BatchResult>({ sets: [], totalItems: 0 });
+  // Number of set cards currently rendered
+  const [visibleSets, setVisibleSets] = useState(SETS_PER_PAGE);
+
+  // Recalculate sets in the worker once input dependencies stop changing
+  // Starting a new run cancels the previous one, so a slow split never delivers stale sets
+  useEffect(() => {
+    // Skip the worker entirely for empty input
+    if (!inputText.trim()) {
+      cancel();
+      setProcessedData({ sets: [], totalItems: 0 });
+      setError(null);
+      return;
     }
+    // The size budget keeps its own limit so switching modes never turns "20 items" into "20 characters"
+    const value = mode === 'budget' ? budgetLimit : inputValue;
+    const timer = setTimeout(() => {
+      run('batch', { text: inputText, mode, value, options: { seed, marker, keyPattern, budgetUnit, binPacking } })
+        .then(data => {
+          setProcessedData(data);
+          setError(null);
+          // Start from the first page of cards for every new result
+          setVisibleSets(SETS_PER_PAGE);
+        })
+        .catch(err => {
+          // A superseded or cancelled job is expected; anything else is logged for debugging
+          if (err instanceof JobCancelledError) return;
+          // Keep the last good sets on screen and explain why they did not update
+          setError(err instanceof Error ? err.message : String(err));
+        });
+    }, SPLIT_DELAY_MS);
+    // A newer edit within the delay replaces this run before it starts
+    return () => clearTimeout(timer);
+  }, [inputText, mode, inputValue, seed, marker, keyPattern, budgetLimit, budgetUnit, binPacking, run, cancel]); // Dependencies
 
-    // Return the sets array and the total item count
-    return { sets, totalItems: lines.length };
-  }, [inputText, mode, inputValue]); // Dependencies
+  // Current indexing and prefix settings, or the template, used when writing sets out
+  // The card preview, copy, ZIP and export all format through these same options
+  const formatOptions: SetFormatOptions = { useIndexing, prefix, template: useTemplate ? template : null };
+
+  // Placeholders a template field would leave unreplaced (item placeholders only work on the item line)
+  const templateWarnings = (key: keyof SetTemplate): string[] => unknownPlaceholders(
+    template[key],
+    SET_TEMPLATE_PLACEHOLDERS.filter(p => key === 'item' || !p.itemOnly).map(p => p.name)
+  );
+
+  // Helper function to build a set's display label with the chosen naming scheme (e.g., Set 1 or Set A)
+  const getLabel = (set: BatchSet) => getSetLabel(set, namingScheme);
 
   // Helper function to copy a single set to clipboard
-  const copySet = (items: string[], offset: number) => {
-    // Transform items based on indexing and prefix settings
-    const text = items.map((item, idx) => {
-      // Create index string if enabled (e.g., "11. ")
-      const indexStr = useIndexing ? `${offset + idx + 1}. ` : '';
-      // Create prefix string if exists (e.g., "Day 1 ")
-      const prefixStr = prefix ? `${prefix} ` : '';
-      // Combine parts
-      return `${indexStr}${prefixStr}${item}`;
-    }).join('\n'); // Join with newlines
-    
+  const copySet = (set: BatchSet, offset: number) => {
     // Write to clipboard
-    navigator.clipboard.writeText(text);
+    navigator.clipboard.writeText(formatSetText(set, { offset, totalItems: processedData.totalItems }, formatOptions));
   };
 
-  // Helper function to calculate the starting index offset for a specific set
-  const getFormattedCount = (setIndex: number, sets: BatchSet[]) => {
-    let prevCount = 0;
-    // Sum the length of all previous sets
-    for(let i=0; i<setIndex; i++) prevCount += sets[i].items.length;
-    return prevCount;
+  // Helper function to download every set as one ZIP with a text file per set
+  const downloadAllSets = () => {
+    let offset = 0;
+    const manifestSets: { name: string; file: string; count: number; offset: number; usage?: number }[] = [];
+    const entries: ZipEntry[] = processedData.sets.map(set => {
+      // File name follows the naming scheme, e.g. Set_A.txt or Set_1.txt
+      const file = `${safeFileName(getLabel(set))}.txt`;
+      const entry = { name: file, data: formatSetText(set, { offset, totalItems: processedData.totalItems }, formatOptions) };
+      manifestSets.push({ name: getLabel(set), file, count: set.items.length, offset, usage: set.usage });
+      offset += set.items.length;
+      return entry;
+    });
+    // Optional manifest describing every file: item count and 0-based offset into the full list
+    if (includeManifest) {
+      entries.push({
+        name: 'manifest.json',
+        data: JSON.stringify({
+          generatedAt: new Date().toISOString(),
+          totalItems: processedData.totalItems,
+          naming: namingScheme,
+          indexing: useIndexing,
+          prefix,
+          template: formatOptions.template ?? undefined,
+          budget: processedData.budget,
+          sets: manifestSets,
+        }, null, 2),
+      });
+    }
+    downloadBlob(createZip(entries), 'horizon_sets.zip');
   };
 
   // Render component JSX
@@ -132,30 +229,142 @@ const Batcher: React.FC = () => {
               {/* --- Split Logic Section --- */}
               <div className="space-y-3">
                 <label className="text-xs font-bold text-slate-500 uppercase tracking-wide">Split Strategy</label>
-                <div className="flex bg-slate-100 p-1 rounded-lg">
-                  <button
-                    onClick={() => setMode('size')}
-                    className={`flex-1 py-2 text-xs font-bold uppercase rounded-md transition-all ${
-                      mode === 'size' ? 'bg-white text-teal-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'
-                    }`}
-                  >
-                    Set Capacity
-                  </button>
-                  <button
-                    onClick={() => setMode('count')}
-                    className={`flex-1 py-2 text-xs font-bold uppercase rounded-md transition-all ${
-                      mode === 'count' ? 'bg-white text-teal-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'
-                    }`}
-                  >
-                    Fixed Sets
-                  </button>
+                <div className="grid grid-cols-2 gap-1 bg-slate-100 p-1 rounded-lg">
+                  {SPLIT_MODES.map(option => (
+                    <button
+                      key={option.id}
+                      onClick={() => setMode(option.id)}
+                      className={`py-2 text-[10px] font-bold uppercase rounded-md transition-all ${
+                        mode === option.id ? 'bg-white text-teal-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
                 </div>
+                <p className="text-[11px] text-slate-500">{modeInfo.description}</p>
+
+                {/* Seed for the shuffled mode; the same seed always gives the same sets */}
+                {mode === 'shuffle' && (
+                  <div>
+                    <label className="block text-xs font-bold text-slate-500 mb-1">Seed</label>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        value={seed}
+                        onChange={(e) => setSeed(parseInt(e.target.value) || 0)}
+                        className="flex-1 px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-teal-500 outline-none font-mono text-slate-700"
+                      />
+                      <button
+                        onClick={() => setSeed(Math.floor(Math.random() * 1000000))}
+                        title="Pick a new random seed"
+                        className="px-3 py-2 text-xs font-medium text-teal-700 border border-slate-200 rounded-lg hover:bg-teal-50 transition-colors flex items-center gap-1.5"
+                      >
+                        <Dices className="w-3.5 h-3.5" /> Reshuffle
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Marker line for the marker split; blank lines when empty */}
+                {mode === 'marker' && (
+                  <div>
+                    <label className="block text-xs font-bold text-slate-500 mb-1">Marker Line</label>
+                    <div className="relative">
+                      <SeparatorHorizontal className="absolute left-3 top-2.5 w-4 h-4 text-slate-400" />
+                      <input
+                        type="text"
+                        value={marker}
+                        onChange={(e) => setMarker(e.target.value)}
+                        placeholder="Blank line (or e.g. ---)"
+                        className="w-full pl-9 pr-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-teal-500 outline-none font-mono text-slate-700 placeholder:font-sans"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {/* Key pattern for grouping; the first capture group (or the whole match) is the key */}
+                {mode === 'group' && (
+                  <div>
+                    <label className="block text-xs font-bold text-slate-500 mb-1">Key Pattern (regex)</label>
+                    <div className="relative">
+                      <Regex className="absolute left-3 top-2.5 w-4 h-4 text-slate-400" />
+                      <input
+                        type="text"
+                        value={keyPattern}
+                        onChange={(e) => setKeyPattern(e.target.value)}
+                        placeholder="e.g. ^(\w+):"
+                        className="w-full pl-9 pr-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-teal-500 outline-none font-mono text-slate-700 placeholder:font-sans"
+                      />
+                    </div>
+                    <p className="text-[10px] text-slate-500 mt-1">Items with the same key share a set; items that do not match stand alone.</p>
+                  </div>
+                )}
 
-                {/* Capacity/Count Slider (Crossbar) */}
+                {/* Budget limit, unit and packing for the size budget */}
+                {modeInfo.value === 'budget' && (
+                  <div className="space-y-3">
+                    <div>
+                      <label className="block text-xs font-bold text-slate-500 mb-1">Maximum per Set</label>
+                      <div className="flex gap-2">
+                        <div className="relative flex-1">
+                          <Gauge className="absolute left-3 top-2.5 w-4 h-4 text-slate-400" />
+                          <input
+                            type="number"
+                            min="1"
+                            value={budgetLimit}
+                            onChange={(e) => setBudgetLimit(Math.max(1, parseInt(e.target.value) || 1))}
+                            className="w-full pl-9 pr-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-teal-500 outline-none font-mono text-slate-700"
+                          />
+                        </div>
+                        <select
+                          value={budgetUnit}
+                          onChange={(e) => setBudgetUnit(e.target.value as BudgetUnit)}
+                          className="px-2 py-2 text-xs border border-slate-200 rounded-lg bg-white text-slate-700 outline-none focus:ring-2 focus:ring-teal-500"
+                        >
+                          {BUDGET_UNITS.map(unit => <option key={unit.id} value={unit.id}>{unit.label}</option>)}
+                        </select>
+                      </div>
+                      {/* Preset Quick Buttons */}
+                      <div className="flex gap-2 mt-2">
+                        {BUDGET_PRESETS.map(val => (
+                          <button
+                            key={val}
+                            onClick={() => setBudgetLimit(val)}
+                            className={`px-2 py-1 text-[10px] font-bold rounded border ${
+                              budgetLimit === val
+                              ? 'bg-teal-600 text-white border-teal-600'
+                              : 'bg-slate-50 text-slate-500 border-slate-200 hover:border-teal-300'
+                            }`}
+                          >
+                            {val.toLocaleString()}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    {/* Bin-packing trades the original order for fewer sets */}
+                    <label className="flex items-center gap-3 p-2.5 border border-slate-200 rounded-lg cursor-pointer hover:bg-slate-50 transition-colors bg-slate-50/50">
+                      <input
+                        type="checkbox"
+                        checked={binPacking}
+                        onChange={(e) => setBinPacking(e.target.checked)}
+                        className="w-4 h-4 text-teal-600 rounded focus:ring-teal-500 border-slate-300"
+                      />
+                      <div className="flex-1">
+                        <span className="text-xs font-bold text-slate-700 block">Bin-Pack</span>
+                        <span className="text-[10px] text-slate-500 block">Fewer sets; items no longer follow the list order.</span>
+                      </div>
+                      <PackageCheck className="w-4 h-4 text-slate-400" />
+                    </label>
+                  </div>
+                )}
+
+                {/* Capacity/Count Slider (Crossbar); the marker split and the size budget have no item value */}
+                {(modeInfo.value === 'size' || modeInfo.value === 'count') && (
                 <div className="pt-2">
                   <div className="flex justify-between items-center mb-2">
                     <label className="text-xs font-medium text-slate-700">
-                      {mode === 'size' ? 'Items per Set' : 'Total Sets to Create'}
+                      {modeInfo.value === 'size' ? 'Items per Set' : 'Total Sets to Create'}
                     </label>
                     <span className="text-xs font-mono font-bold text-teal-600 bg-teal-50 px-2 py-0.5 rounded">
                       {inputValue}
@@ -189,6 +398,7 @@ const Batcher: React.FC = () => {
                     ))}
                   </div>
                 </div>
+                )}
               </div>
 
               <hr className="border-slate-100" />
@@ -216,35 +426,89 @@ const Batcher: React.FC = () => {
                     </div>
                  </div>
 
-                {/* Auto-Index Checkbox */}
+                {/* Custom Template Toggle */}
                 <label className="flex items-center gap-3 p-2.5 border border-slate-200 rounded-lg cursor-pointer hover:bg-slate-50 transition-colors bg-slate-50/50">
-                  <input 
-                    type="checkbox" 
-                    checked={useIndexing}
-                    onChange={(e) => setUseIndexing(e.target.checked)}
-                    className="w-4 h-4 text-teal-600 rounded focus:ring-teal-500 border-slate-300" 
+                  <input
+                    type="checkbox"
+                    checked={useTemplate}
+                    onChange={(e) => setUseTemplate(e.target.checked)}
+                    className="w-4 h-4 text-teal-600 rounded focus:ring-teal-500 border-slate-300"
                   />
                   <div className="flex-1">
-                    <span className="text-xs font-bold text-slate-700 block">Number Items</span>
-                    <span className="text-[10px] text-slate-500 block">Prefix items with 1., 2., etc.</span>
+                    <span className="text-xs font-bold text-slate-700 block">Custom Template</span>
+                    <span className="text-[10px] text-slate-500 block">Write header, item and footer lines with placeholders.</span>
                   </div>
-                  <ListOrdered className="w-4 h-4 text-slate-400" />
+                  <Braces className="w-4 h-4 text-slate-400" />
                 </label>
 
-                {/* Custom Prefix Input */}
-                <div>
-                   <label className="block text-xs font-bold text-slate-500 mb-1">Custom Prefix</label>
-                   <div className="relative">
-                      <GripVertical className="absolute left-3 top-2.5 w-4 h-4 text-slate-400" />
-                      <input 
-                        type="text" 
-                        value={prefix}
-                        onChange={(e) => setPrefix(e.target.value)}
-                        placeholder="e.g. Video -"
-                        className="w-full pl-9 pr-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-teal-500 outline-none text-slate-700 font-medium placeholder:font-normal"
-                      />
-                   </div>
-                </div>
+                {useTemplate ? (
+                  <div className="space-y-3">
+                    {TEMPLATE_FIELDS.map(field => (
+                      <div key={field.key}>
+                        <label className="block text-xs font-bold text-slate-500 mb-1">{field.label}</label>
+                        <input
+                          type="text"
+                          value={template[field.key]}
+                          onChange={(e) => setTemplate({ ...template, [field.key]: e.target.value })}
+                          placeholder={field.placeholder}
+                          className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-teal-500 outline-none font-mono text-slate-700 placeholder:font-sans"
+                        />
+                        {/* Unknown placeholders are copied as written, so point them out */}
+                        {templateWarnings(field.key).length > 0 && (
+                          <p className="mt-1 text-[10px] text-amber-700 flex items-center gap-1">
+                            <AlertTriangle className="w-3 h-3" /> Not replaced: {templateWarnings(field.key).join(' ')}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                    {/* Placeholder reference */}
+                    <div className="p-2.5 bg-slate-50 rounded-lg border border-slate-100 text-[10px] text-slate-500 space-y-1">
+                      {SET_TEMPLATE_PLACEHOLDERS.map(p => (
+                        <p key={p.name}>
+                          <code className="font-mono text-teal-700">{`{${p.name}}`}</code> {p.description}
+                          {p.itemOnly && <span className="text-slate-400"> (item line)</span>}
+                        </p>
+                      ))}
+                      <p>
+                        <code className="font-mono text-teal-700">{'{index:03}'}</code> pads with zeros;{' '}
+                        {TEMPLATE_TRANSFORMS.map(t => <code key={t.id} className="font-mono text-teal-700 mr-1">{`{item|${t.id}}`}</code>)}
+                        change case; <code className="font-mono text-teal-700">{'{{ }}'}</code> write braces.
+                      </p>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                  {/* Auto-Index Checkbox */}
+                  <label className="flex items-center gap-3 p-2.5 border border-slate-200 rounded-lg cursor-pointer hover:bg-slate-50 transition-colors bg-slate-50/50">
+                    <input 
+                      type="checkbox" 
+                      checked={useIndexing}
+                      onChange={(e) => setUseIndexing(e.target.checked)}
+                      className="w-4 h-4 text-teal-600 rounded focus:ring-teal-500 border-slate-300" 
+                    />
+                    <div className="flex-1">
+                      <span className="text-xs font-bold text-slate-700 block">Number Items</span>
+                      <span className="text-[10px] text-slate-500 block">Prefix items with 1., 2., etc.</span>
+                    </div>
+                    <ListOrdered className="w-4 h-4 text-slate-400" />
+                  </label>
+
+                  {/* Custom Prefix Input */}
+                  <div>
+                     <label className="block text-xs font-bold text-slate-500 mb-1">Custom Prefix</label>
+                     <div className="relative">
+                        <GripVertical className="absolute left-3 top-2.5 w-4 h-4 text-slate-400" />
+                        <input 
+                          type="text" 
+                          value={prefix}
+                          onChange={(e) => setPrefix(e.target.value)}
+                          placeholder="e.g. Video -"
+                          className="w-full pl-9 pr-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-teal-500 outline-none text-slate-700 font-medium placeholder:font-normal"
+                        />
+                     </div>
+                  </div>
+                  </>
+                )}
               </div>
            </div>
         </div>
@@ -268,26 +532,76 @@ const Batcher: React.FC = () => {
                 value={inputText}
                 onChange={(e) => setInputText(e.target.value)}
               />
+             {/* File Input for text files, with a column picker for CSV/TSV */}
+             <div className="mt-2">
+               <TableImport source={source} onSourceChange={setSource} onText={setInputText} />
+             </div>
            </div>
 
+           {/* Progress bar and cancel button while the worker is busy */}
+           {running && <JobProgress progress={progress} label="Splitting into sets..." onCancel={cancel} />}
+
+           {/* Split error, e.g. an invalid key pattern */}
+           {error && (
+             <div className="p-3 bg-rose-50 text-rose-700 rounded-xl border border-rose-100 text-sm flex items-center gap-2">
+               <AlertTriangle className="w-4 h-4 flex-shrink-0" /> {error}
+             </div>
+           )}
+
            {/* Output Section */}
            {processedData.sets.length > 0 ? (
             <div className="space-y-4 animate-fade-in">
                {/* Summary Bar */}
                <div className="flex items-center gap-2 text-slate-400 text-xs uppercase font-bold tracking-wider">
                   <ArrowRight className="w-4 h-4" />
-                  <span>Result: {processedData.sets.length} Sets Generated</span>
+                  <span className="flex-1">
+                    Result: {processedData.sets.length} Sets Generated
+                    {/* Items that do not fit any set on their own */}
+                    {processedData.sets.some(set => set.oversized) && (
+                      <span className="text-rose-600"> · {processedData.sets.filter(set => set.oversized).length} over budget</span>
+                    )}
+                  </span>
+                  {/* Download every set as a ZIP of text files */}
+                  <span className="normal-case tracking-normal flex items-center gap-2">
+                    <label className="flex items-center gap-1.5 text-[10px] font-medium text-slate-500 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={includeManifest}
+                        onChange={(e) => setIncludeManifest(e.target.checked)}
+                        className="w-3.5 h-3.5 text-teal-600 rounded focus:ring-teal-500 border-slate-300"
+                      />
+                      manifest.json
+                    </label>
+                    <button
+                      onClick={downloadAllSets}
+                      className="px-3 py-1.5 text-xs font-medium bg-slate-800 text-white rounded-lg hover:bg-slate-900 transition-colors flex items-center gap-1.5"
+                    >
+                      <Archive className="w-3.5 h-3.5" /> Download All
+                    </button>
+                  </span>
+                  {/* Export every set, one sheet/file per set */}
+                  <span className="normal-case tracking-normal">
+                    <ExportMenu
+                      baseName="horizon_sets"
+                      getSheets={() => batchSheets(processedData.sets, {
+                        label: getLabel,
+                        format: formatOptions,
+                        source,
+                      })}
+                    />
+                  </span>
                </div>
                
                {/* Sets Grid */}
                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {processedData.sets.map((set, idx) => {
+                {processedData.sets.slice(0, visibleSets).map((set, idx) => {
                   // Calculate offset for item indexing
                   const currentOffset = getFormattedCount(idx, processedData.sets);
+                  // Position of the set for template placeholders, and its rendered header/footer
+                  const context = { offset: currentOffset, totalItems: processedData.totalItems };
+                  const frame = formatSetFrame(set, context, formatOptions);
                   // Generate Set Label (e.g., Set 1 or Set A)
-                  const setLabel = namingScheme === 'numeric' 
-                    ? `Set ${set.id + 1}` 
-                    : `Set ${getAlphaLabel(set.id)}`;
+                  const setLabel = getLabel(set);
 
                   return (
                     <div key={set.id} className="bg-white rounded-xl shadow-sm border border-slate-200 hover:shadow-md transition-shadow flex flex-col group">
@@ -298,12 +612,44 @@ const Batcher: React.FC = () => {
                           {set.items.length} items
                         </span>
                       </div>
+
+                      {/* Budget usage bar; a set over budget holds one item that is too big on its own */}
+                      {processedData.budget && set.usage !== undefined && (
+                        <div className="px-4 pt-2">
+                          <div className="flex justify-between text-[10px] font-mono text-slate-500 mb-1">
+                            <span>
+                              {set.usage.toLocaleString()} / {processedData.budget.limit.toLocaleString()}{' '}
+                              {BUDGET_UNITS.find(unit => unit.id === processedData.budget!.unit)?.label.toLowerCase()}
+                            </span>
+                            <span>{Math.round((set.usage / processedData.budget.limit) * 100)}%</span>
+                          </div>
+                          <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                            <div
+                              className={`h-full rounded-full ${set.oversized ? 'bg-rose-500' : 'bg-teal-500'}`}
+                              style={{ width: `${Math.min(100, (set.usage / processedData.budget.limit) * 100)}%` }}
+                            />
+                          </div>
+                          {set.oversized && (
+                            <p className="mt-1.5 text-[10px] font-medium text-rose-700 flex items-center gap-1">
+                              <AlertTriangle className="w-3 h-3" /> Item exceeds the budget on its own
+                            </p>
+                          )}
+                        </div>
+                      )}
                       
-                      {/* Set Items List */}
+                      {/* Set Items List (windowed, with filter and keyboard navigation) */}
                       <div className="p-3 flex-1 bg-white">
-                        <ul className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
-                          {set.items.map((item, i) => (
-                            <li key={i} className="text-sm text-slate-600 truncate flex gap-2 border-b border-transparent hover:border-slate-100 pb-0.5">
+                        {/* Template header, rendered exactly as copied (spaces and line breaks included) */}
+                        {frame.header && (
+                          <p className="px-3 pb-2 mb-2 border-b border-slate-100 font-mono text-xs text-slate-500 overflow-hidden text-ellipsis whitespace-pre">{frame.header}</p>
+                        )}
+                        <VirtualList
+                          items={set.items}
+                          renderItem={(item, i) => formatOptions.template ? (
+                            // Template lines are shown verbatim (spaces included) so the preview equals the copied text
+                            <span className="flex-1 overflow-hidden text-ellipsis whitespace-pre font-mono text-xs">{formatSetItem(set, i, context, formatOptions)}</span>
+                          ) : (
+                            <span className="flex-1 truncate flex gap-2">
                               {/* Index & Prefix */}
                               {(useIndexing || prefix) && (
                                 <span className="text-slate-400 font-mono select-none text-xs mt-0.5 w-8 text-right flex-shrink-0">
@@ -314,24 +660,40 @@ const Batcher: React.FC = () => {
                                 {prefix && <span className="text-slate-400 mr-1">{prefix}</span>}
                                 {item}
                               </span>
-                            </li>
-                          ))}
-                        </ul>
+                            </span>
+                          )}
+                        />
+                        {/* Template footer */}
+                        {frame.footer && (
+                          <p className="px-3 pt-2 mt-2 border-t border-slate-100 font-mono text-xs text-slate-500 overflow-hidden text-ellipsis whitespace-pre">{frame.footer}</p>
+                        )}
                       </div>
 
-                      {/* Footer / Copy Action */}
-                      <div className="p-2 border-t border-slate-50 bg-slate-50/30">
+                      {/* Footer / Copy and Send Actions */}
+                      <div className="p-2 border-t border-slate-50 bg-slate-50/30 flex items-center gap-2">
                         <button 
-                          onClick={() => copySet(set.items, currentOffset)}
-                          className="w-full text-xs text-teal-600 hover:text-teal-800 font-medium py-2 flex items-center justify-center gap-2 hover:bg-white rounded-lg transition-all shadow-sm shadow-transparent hover:shadow-slate-200"
+                          onClick={() => copySet(set, currentOffset)}
+                          className="flex-1 text-xs text-teal-600 hover:text-teal-800 font-medium py-2 flex items-center justify-center gap-2 hover:bg-white rounded-lg transition-all shadow-sm shadow-transparent hover:shadow-slate-200"
                         >
                           <Copy className="w-3 h-3" /> Copy {setLabel}
                         </button>
+                        {/* Sends the raw lines, without index or prefix */}
+                        <SendToMenu getItems={() => set.items} onSend={onSendTo} exclude={ViewMode.BATCHER} />
                       </div>
                     </div>
                   );
                 })}
                </div>
+
+               {/* Load further set cards on demand so thousands of sets never mount at once */}
+               {processedData.sets.length > visibleSets && (
+                 <button
+                   onClick={() => setVisibleSets(visibleSets + SETS_PER_PAGE)}
+                   className="w-full py-2.5 text-xs font-medium text-teal-700 bg-white border border-slate-200 rounded-lg hover:bg-teal-50 transition-colors"
+                 >
+                   Show more sets ({(processedData.sets.length - visibleSets).toLocaleString()} remaining)
+                 </button>
+               )}
             </div>
            ) : (
              // Empty State
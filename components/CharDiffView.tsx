@@ -0,0 +1,122 @@
+// Import React and memo hook for the rule suggestions
+import React, { useMemo } from 'react';
+// Import the pair and normalization types
+import { NormalizationOptions, NormalizationRuleId, ProbableMatch } from '../types';
+// Import the character diff and special character names
+import { DiffSegment, diffChars, specialCharName } from '../services/diffService';
+// Import the rule list and the "which rule would fix this" check
+import { NORMALIZATION_RULES, rulesThatMatch } from '../services/normalizeService';
+// Import the shared windowed list
+import VirtualList from './VirtualList';
+// Import icons for UI elements
+import { WandSparkles } from 'lucide-react';
+
+// Define the interface for props accepted by CharDiffView
+interface CharDiffViewProps {
+  pairs: ProbableMatch[];                        // Unmatched A items aligned with their closest B item
+  normalization: NormalizationOptions;           // Match rules used by the comparison
+  onEnableRule: (rule: NormalizationRuleId) => void; // Switch a rule on and compare again
+}
+
+// Label of a rule id
+const ruleLabel = (id: NormalizationRuleId) => NORMALIZATION_RULES.find(rule => rule.id === id)?.label ?? id;
+
+// Render one side of a diff; changed characters are highlighted and special ones spelled out
+const DiffLine: React.FC<{ segments: DiffSegment[]; side: 'removed' | 'added' }> = ({ segments, side }) => (
+  <span className="truncate font-mono text-xs">
+    {segments.filter(segment => segment.type === 'same' || segment.type === side).map((segment, i) => {
+      if (segment.type === 'same') {
+        // Invisible characters are flagged even where both lines agree
+        return <React.Fragment key={i}>{Array.from<string>(segment.text).map((char, j) => {
+          const name = /[\u0000-\u007F]/.test(char) ? null : specialCharName(char);
+          return name
+            ? <span key={j} className="mx-px px-0.5 rounded bg-slate-200 text-[9px] text-slate-600">{name}</span>
+            : char;
+        })}</React.Fragment>;
+      }
+      return (
+        <span key={i} className={side === 'removed' ? 'bg-rose-100 text-rose-800' : 'bg-teal-100 text-teal-800'}>
+          {Array.from<string>(segment.text).map((char, j) => {
+            const name = specialCharName(char);
+            return name
+              ? <span key={j} className={`mx-px px-0.5 rounded text-[9px] font-bold ${side === 'removed' ? 'bg-rose-200' : 'bg-teal-200'}`}>{name}</span>
+              : char;
+          })}
+        </span>
+      );
+    })}
+  </span>
+);
+
+// Side-by-side character diff of near-matching A-only and B-only items, with one-click rule fixes
+const CharDiffView: React.FC<CharDiffViewProps> = ({ pairs, normalization, onEnableRule }) => {
+  // Diff segments and fixing rules for every pair
+  const rows = useMemo(() => pairs.map(pair => ({
+    segments: diffChars(pair.a, pair.b),
+    fixes: rulesThatMatch(pair.a, pair.b, normalization),
+  })), [pairs, normalization]);
+  // How many pairs each rule would merge, most useful first
+  const ruleTotals = useMemo(() => {
+    const totals = new Map<NormalizationRuleId, number>();
+    rows.forEach(row => row.fixes.forEach(id => totals.set(id, (totals.get(id) || 0) + 1)));
+    return Array.from(totals).sort((a, b) => b[1] - a[1]);
+  }, [rows]);
+  // Search text for each row
+  const labels = useMemo(() => pairs.map(pair => `${pair.a} ${pair.b}`), [pairs]);
+
+  return (
+    <div className="space-y-2">
+      {/* Rules that would turn some of these pairs into exact matches */}
+      {ruleTotals.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 px-1">
+          <span className="text-xs text-slate-500">Fix by enabling:</span>
+          {ruleTotals.map(([id, count]) => (
+            <button
+              key={id}
+              onClick={() => onEnableRule(id)}
+              className="px-2 py-1 text-xs font-medium bg-white border border-slate-200 text-slate-700 rounded-lg hover:bg-teal-50 hover:border-teal-300 transition-colors flex items-center gap-1"
+            >
+              <WandSparkles className="w-3 h-3 text-teal-600" /> {ruleLabel(id)} <span className="text-slate-400">({count})</span>
+            </button>
+          ))}
+        </div>
+      )}
+      <VirtualList
+        items={labels}
+        rowHeight={56}
+        height={280}
+        emptyText="No near matches between the unmatched items"
+        renderItem={(_, index) => (
+          <div className="flex items-center gap-3 w-full min-w-0">
+            <div className="flex-1 min-w-0 flex flex-col gap-1">
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="text-[10px] font-bold text-teal-700 shrink-0 w-3">A</span>
+                <DiffLine segments={rows[index].segments} side="removed" />
+              </div>
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="text-[10px] font-bold text-rose-700 shrink-0 w-3">B</span>
+                <DiffLine segments={rows[index].segments} side="added" />
+              </div>
+            </div>
+            {/* Per-pair fixes */}
+            <div className="flex flex-col items-end gap-1 shrink-0">
+              {rows[index].fixes.slice(0, 2).map(id => (
+                <button
+                  key={id}
+                  onClick={() => onEnableRule(id)}
+                  className="text-[10px] text-teal-700 hover:underline"
+                  title={`Enable "${ruleLabel(id)}" and compare again`}
+                >
+                  {ruleLabel(id)}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      />
+    </div>
+  );
+};
+
+// Export CharDiffView component
+export default CharDiffView;
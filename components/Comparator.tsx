@@ -1,82 +1,336 @@
 // Import React and hooks for state management
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 // Import ComparisonResult type definition
-import { ComparisonResult } from '../types';
+import { ComparisonResult, HistoryEntry, ItemCount, MatchDecision, MultiComparisonResult, NamedList, NormalizationOptions, NormalizationRuleId, ProbableMatch, RecordDiffResult, SimilarityMetric, SendTarget, TableSource, ViewMode } from '../types';
+// Import the N-way list limit, count-difference wording and overlap/match helpers
+import { MAX_COMPARE_LISTS, countDifferenceLabel, matchKey, overlapMetrics } from '../core';
+// Import the metric labels shared with the Analyzer's near-duplicate mode
+import { SIMILARITY_METRICS } from '../services/fuzzyService';
+// Import the exact-matching defaults and the match rule toggles
+import { EXACT_MATCH } from '../services/normalizeService';
+import NormalizationSettings from './NormalizationSettings';
+// Import the worker hook and its cancellation error
+import { useEngineJob } from '../hooks/useEngineJob';
+import { JobCancelledError } from '../services/engineService';
+// Import the progress bar shown while a job runs
+import JobProgress from './JobProgress';
+// Import the file input with CSV/TSV column picker
+import TableImport from './TableImport';
+// Import the shared Export menu and the Comparator sheet builder
+import ExportMenu from './ExportMenu';
+import { comparisonSheets, multiComparisonSheets, recordDiffSheets } from '../services/exportService';
+// Import the shared windowed list for result panels
+import VirtualList from './VirtualList';
+// Import workspace autosave and the run history menu
+import { useWorkspaceTool } from '../context/WorkspaceContext';
+import RunHistory from './RunHistory';
+// Import the cross-tool "Send to…" menu
+import SendToMenu from './SendToMenu';
+// Import the N-way results view and the per-list colours
+import MultiComparisonView, { listColor } from './MultiComparisonView';
+// Import the record-diff results view and the character diff of near matches
+import RecordDiffView from './RecordDiffView';
+import CharDiffView from './CharDiffView';
 // Import Recharts components for pie chart visualization
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
 // Import icons for UI elements
-import { GitCompare, ArrowRightLeft, Check, X, Layers } from 'lucide-react';
+import { GitCompare, ArrowRightLeft, Check, X, Layers, Plus, Trash2, Scale, Sparkles, SlidersHorizontal, Type } from 'lucide-react';
+
+// Inputs autosaved to the active workspace
+// List A and B keep their own fields so "Send to" can fill them directly
+type ComparatorState = {
+  listA: string;
+  listB: string;
+  sourceA: TableSource | null;
+  sourceB: TableSource | null;
+  nameA: string;
+  nameB: string;
+  extraLists: NamedList[]; // Lists C, D, … for an N-way comparison
+  countMode: boolean;      // Compare duplicate counts instead of plain membership (two lists only)
+  fuzzyMode: boolean;      // Pair leftover A-only and B-only items as probable matches
+  metric: SimilarityMetric;
+  threshold: number;
+  decisions: Record<string, MatchDecision>; // Accept/reject verdicts keyed by matchKey
+  recordMode: boolean;     // Diff two imported tables row by row on their selected (key) columns
+  normalization: NormalizationOptions; // Match rules for two-list comparisons (all off = exact)
+};
+
+// Name given to the list at a position: List A, List B, List C, …
+const defaultListName = (index: number) => `List ${String.fromCharCode(65 + index)}`;
+
+// Which kind of comparison produced a result: N-way, record diff or two plain lists
+const resultKind = (result: HistoryEntry['result']): 'multi' | 'records' | 'pair' =>
+  'regions' in result ? 'multi' : 'modified' in result ? 'records' : 'pair';
+
+// Count the non-empty lines of a list
+const countLines = (text: string) => text.split(/\n/).filter(l => l.trim()).length;
+
+// Define the interface for props accepted by Comparator
+interface ComparatorProps {
+  onSendTo: (target: SendTarget, items: string[]) => void; // Pipes a result list into another tool
+}
 
 // Define the Comparator functional component
-const Comparator: React.FC = () => {
+const Comparator: React.FC<ComparatorProps> = ({ onSendTo }) => {
+  // Saved state, autosave and past runs from the active workspace
+  const { saved, save, recordRun, history } = useWorkspaceTool<ComparatorState>(ViewMode.COMPARATOR);
   // State for the text content of List A
-  const [listA, setListA] = useState('');
+  const [listA, setListA] = useState(saved.listA ?? '');
   // State for the text content of List B
-  const [listB, setListB] = useState('');
-  // State for storing the result of the comparison, null initially
-  const [result, setResult] = useState<ComparisonResult | null>(null);
-
-  // Function to execute the comparison logic
-  const handleCompare = () => {
-    // Process List A: Split by newline, trim, filter empty lines, convert to Set
-    const setA = new Set<string>(listA.split(/\n/).map(l => l.trim()).filter(l => l !== ''));
-    // Process List B: Split by newline, trim, filter empty lines, convert to Set
-    const setB = new Set<string>(listB.split(/\n/).map(l => l.trim()).filter(l => l !== ''));
-
-    // Initialize arrays to hold categorization results
-    const intersection: string[] = []; // Items in both lists
-    const aOnly: string[] = [];        // Items only in A
-    const bOnly: string[] = [];        // Items only in B
-
-    // Iterate through Set A to find intersection and unique-to-A items
-    setA.forEach(item => {
-      // Check if item exists in Set B
-      if (setB.has(item)) {
-        intersection.push(item); // It's in both
-      } else {
-        aOnly.push(item); // It's only in A
+  const [listB, setListB] = useState(saved.listB ?? '');
+  // State for imported CSV/TSV tables feeding each list
+  const [sourceA, setSourceA] = useState<TableSource | null>(saved.sourceA ?? null);
+  const [sourceB, setSourceB] = useState<TableSource | null>(saved.sourceB ?? null);
+  // State for the names of List A and List B
+  const [nameA, setNameA] = useState(saved.nameA ?? defaultListName(0));
+  const [nameB, setNameB] = useState(saved.nameB ?? defaultListName(1));
+  // State for any further lists; with one or more the comparison becomes N-way
+  const [extraLists, setExtraLists] = useState<NamedList[]>(saved.extraLists ?? []);
+  // State for count-aware mode, where "Widget" ×5 vs ×3 reports "A has 2 more"
+  const [countMode, setCountMode] = useState(saved.countMode ?? false);
+  // State for fuzzy matching: on/off, metric, threshold and the user's verdict on each pair
+  const [fuzzyMode, setFuzzyMode] = useState(saved.fuzzyMode ?? false);
+  const [metric, setMetric] = useState<SimilarityMetric>(saved.metric ?? 'levenshtein');
+  const [threshold, setThreshold] = useState(saved.threshold ?? 0.8);
+  const [decisions, setDecisions] = useState<Record<string, MatchDecision>>(saved.decisions ?? {});
+  // State for diffing imported tables as keyed records
+  const [recordMode, setRecordMode] = useState(saved.recordMode ?? false);
+  // State for the match rules applied before comparing two lists, and whether their panel is open
+  const [normalization, setNormalization] = useState<NormalizationOptions>({ ...EXACT_MATCH, ...saved.normalization });
+  const [showRules, setShowRules] = useState(false);
+  // State for unmatched items aligned for the character diff (null until requested)
+  const [nearPairs, setNearPairs] = useState<ProbableMatch[] | null>(null);
+  // Latest run, restored into whichever result state matches its kind
+  const latest = history[0]?.result;
+  // State for storing the result of the comparison (restored from the latest run)
+  const [result, setResult] = useState<ComparisonResult | null>(
+    () => (latest && resultKind(latest) === 'pair' ? (latest as ComparisonResult) : null));
+  // State for the N-way result, used instead of `result` when more than two lists were compared
+  const [multiResult, setMultiResult] = useState<MultiComparisonResult | null>(
+    () => (latest && resultKind(latest) === 'multi' ? (latest as MultiComparisonResult) : null));
+  // State for the record-diff result
+  const [recordResult, setRecordResult] = useState<RecordDiffResult | null>(
+    () => (latest && resultKind(latest) === 'records' ? (latest as RecordDiffResult) : null));
+  // Background worker job state for the comparison
+  const { run, cancel, running, progress } = useEngineJob();
+
+  // Autosave every list whenever it changes
+  useEffect(() => {
+    save({ listA, listB, sourceA, sourceB, nameA, nameB, extraLists, countMode, fuzzyMode, metric, threshold, decisions, recordMode, normalization });
+  }, [save, listA, listB, sourceA, sourceB, nameA, nameB, extraLists, countMode, fuzzyMode, metric, threshold, decisions, recordMode, normalization]);
+
+  // Update one field of an extra list
+  const updateExtraList = (index: number, patch: Partial<NamedList>) =>
+    setExtraLists(lists => lists.map((list, i) => (i === index ? { ...list, ...patch } : list)));
+
+  // Add an empty list after the last one
+  const addList = () =>
+    setExtraLists(lists => [...lists, { name: defaultListName(lists.length + 2), text: '', source: null }]);
+
+  // Show a new or restored run of any kind, clearing the other result views
+  const showResult = (shown: HistoryEntry['result']) => {
+    const kind = resultKind(shown);
+    setResult(kind === 'pair' ? (shown as ComparisonResult) : null);
+    setMultiResult(kind === 'multi' ? (shown as MultiComparisonResult) : null);
+    setRecordResult(kind === 'records' ? (shown as RecordDiffResult) : null);
+    setNearPairs(null);
+  };
+
+  // Every list in display order
+  const allLists: NamedList[] = [
+    { name: nameA, text: listA, source: sourceA },
+    { name: nameB, text: listB, source: sourceB },
+    ...extraLists,
+  ];
+  // Display name of a list, falling back to its letter when left blank
+  const displayName = (list: NamedList, index: number) => list.name.trim() || defaultListName(index);
+
+  // Record diff needs two imported tables and applies to two-list comparisons
+  const canDiffRecords = extraLists.length === 0 && !!sourceA && !!sourceB;
+  const diffingRecords = recordMode && canDiffRecords;
+
+  // Function to execute the comparison logic; `rules` overrides the match rules when a fix was just applied
+  const handleCompare = async (rules: NormalizationOptions = normalization) => {
+    try {
+      if (diffingRecords) {
+        // Row-by-row diff keyed on the column each table import has selected
+        const diff = await run('recordDiff', {
+          tableA: sourceA!.table,
+          keyA: sourceA!.column,
+          tableB: sourceB!.table,
+          keyB: sourceB!.column,
+        });
+        showResult(diff);
+        recordRun({
+          tool: ViewMode.COMPARATOR,
+          summary: `Records · ${diff.added.length.toLocaleString()} added · ${diff.removed.length.toLocaleString()} removed · ${diff.modified.length.toLocaleString()} modified`,
+          result: diff,
+        });
+        return;
+      }
+      if (extraLists.length > 0) {
+        // Three or more lists: compute every region of the set diagram
+        const comparison = await run('compareMany', {
+          lists: allLists.map((list, i) => ({ name: displayName(list, i), text: list.text })),
+          normalization: rules,
+        });
+        showResult(comparison);
+        recordRun({
+          tool: ViewMode.COMPARATOR,
+          summary: `${comparison.lists.length} lists · ${comparison.totalItems.toLocaleString()} items · ${comparison.regions.length} regions`,
+          result: comparison,
+        });
+        return;
       }
+
+      // Run the set comparison in the background worker
+      const comparison = await run('compare', {
+        textA: listA,
+        textB: listB,
+        counts: countMode,
+        normalization: rules,
+        fuzzy: fuzzyMode ? { metric, threshold } : undefined,
+      });
+      showResult(comparison);
+      setDecisions({});
+      // Keep the run in the workspace history
+      recordRun({
+        tool: ViewMode.COMPARATOR,
+        summary: `A ${comparison.stats.totalA.toLocaleString()} vs B ${comparison.stats.totalB.toLocaleString()} · ${comparison.stats.inBoth.toLocaleString()} common${comparison.counts ? ' · counts' : ''}${comparison.probableMatches ? ` · ${comparison.probableMatches.length} probable` : ''}`,
+        result: comparison,
+      });
+    } catch (err) {
+      // A cancelled job is expected; anything else is logged for debugging
+      if (!(err instanceof JobCancelledError)) console.error("Comparison failed:", err);
+    }
+  };
+
+  // Align the unmatched items with their closest counterpart for the character diff
+  const findNearMatches = async () => {
+    try {
+      setNearPairs(await run('nearMatches', { aOnly: aOnlyItems, bOnly: bOnlyItems }));
+    } catch (err) {
+      if (!(err instanceof JobCancelledError)) console.error("Near-match alignment failed:", err);
+    }
+  };
+
+  // Switch on a match rule from the character diff and compare again with it
+  const enableRule = (rule: NormalizationRuleId) => {
+    const next = { ...normalization, [rule]: true };
+    setNormalization(next);
+    setShowRules(true);
+    handleCompare(next);
+  };
+
+  // Per-item counts of a count-aware result, keyed by item
+  const countLookup = useMemo(
+    () => new Map<string, ItemCount>((result?.counts || []).map(entry => [entry.item, entry])),
+    [result]
+  );
+  // Items present in both lists with different counts
+  const countMismatches = useMemo(
+    () => (result?.counts || []).filter(entry => entry.countA > 0 && entry.countB > 0 && entry.countA !== entry.countB).map(entry => entry.item),
+    [result]
+  );
+
+  // Probable matches the user accepted, and the items they take out of the A-only / B-only panels
+  const accepted = useMemo(() => {
+    const matches = (result?.probableMatches || []).filter(match => decisions[matchKey(match)] === 'accepted');
+    return { matches, a: new Set(matches.map(m => m.a)), b: new Set(matches.map(m => m.b)) };
+  }, [result, decisions]);
+  const aOnlyItems = useMemo(() => (result?.aOnly || []).filter(item => !accepted.a.has(item)), [result, accepted]);
+  const bOnlyItems = useMemo(() => (result?.bOnly || []).filter(item => !accepted.b.has(item)), [result, accepted]);
+
+  // Shared amount counting accepted matches as common, in items (occurrences for count-aware results)
+  const overlap = useMemo(() => {
+    if (!result) return null;
+    const sizeA = result.stats.occurrencesA ?? result.stats.totalA;
+    const sizeB = result.stats.occurrencesB ?? result.stats.totalB;
+    let shared = result.stats.matched ?? result.stats.inBoth;
+    accepted.matches.forEach(match => {
+      shared += result.counts ? Math.min(countLookup.get(match.a)?.countA ?? 1, countLookup.get(match.b)?.countB ?? 1) : 1;
     });
+    return { shared, onlyA: sizeA - shared, onlyB: sizeB - shared, metrics: overlapMetrics(shared, sizeA, sizeB) };
+  }, [result, accepted, countLookup]);
 
-    // Iterate through Set B to find items unique to B
-    setB.forEach(item => {
-      // Check if item is NOT in Set A
-      if (!setA.has(item)) {
-        bOnly.push(item); // It's only in B
-      }
+  // Prepare data for the Pie Chart based on results
+  // Count-aware results chart occurrences: A's surplus, paired occurrences and B's surplus
+  const data = result && overlap ? [
+    { name: result.counts ? `${displayName(allLists[0], 0)} surplus` : `Only in ${displayName(allLists[0], 0)}`, value: overlap.onlyA, color: '#0d9488' }, // Teal 600
+    { name: result.counts ? 'Matched' : 'Common', value: overlap.shared, color: '#64748b' },      // Slate 500
+    { name: result.counts ? `${displayName(allLists[1], 1)} surplus` : `Only in ${displayName(allLists[1], 1)}`, value: overlap.onlyB, color: '#e11d48' }, // Rose 600
+  ] : [];
+
+  // Search text for each probable match row
+  const probableLabels = useMemo(() => (result?.probableMatches || []).map(match => `${match.a} ↔ ${match.b}`), [result]);
+
+  // Record a verdict on a probable match; choosing the same verdict again clears it
+  const decide = (key: string, decision: MatchDecision) =>
+    setDecisions(current => {
+      const next = { ...current };
+      if (next[key] === decision) delete next[key];
+      else next[key] = decision;
+      return next;
     });
 
-    // Update state with the results, sorting arrays alphabetically
-    setResult({
-      intersection: intersection.sort(),
-      aOnly: aOnly.sort(),
-      bOnly: bOnly.sort(),
-      stats: {
-        inBoth: intersection.length, // Count of common items
-        inAOnly: aOnly.length,       // Count of A-only items
-        inBOnly: bOnly.length,       // Count of B-only items
-        totalA: setA.size,           // Total unique items in A
-        totalB: setB.size            // Total unique items in B
-      }
+  // Accept every pair that has no verdict yet
+  const acceptPending = () =>
+    setDecisions(current => {
+      const next = { ...current };
+      (result?.probableMatches || []).forEach(match => { next[matchKey(match)] ??= 'accepted'; });
+      return next;
     });
+
+  // Result row showing each list's count and the difference in count-aware mode
+  const renderCountRow = (item: string) => {
+    const entry = countLookup.get(item);
+    if (!entry) return <span className="truncate" title={item}>{item}</span>;
+    return (
+      <div className="flex items-center gap-2 w-full min-w-0">
+        <span className="truncate flex-1" title={item}>{item}</span>
+        <span className="font-mono text-xs text-slate-400 shrink-0">×{entry.countA} / ×{entry.countB}</span>
+        {entry.countA !== entry.countB && entry.countA > 0 && entry.countB > 0 && (
+          <span className={`text-xs font-medium shrink-0 ${entry.countA > entry.countB ? 'text-teal-700' : 'text-rose-700'}`}>
+            {countDifferenceLabel(entry, displayName(allLists[0], 0), displayName(allLists[1], 1))}
+          </span>
+        )}
+      </div>
+    );
   };
+  // Row renderer for the result panels (plain rows unless the result has counts)
+  const rowRenderer = result?.counts ? renderCountRow : undefined;
 
-  // Prepare data for the Pie Chart based on results
-  const data = result ? [
-    { name: 'Only in List A', value: result.stats.inAOnly, color: '#0d9488' }, // Teal 600
-    { name: 'Common', value: result.stats.inBoth, color: '#64748b' },      // Slate 500
-    { name: 'Only in List B', value: result.stats.inBOnly, color: '#e11d48' }, // Rose 600
-  ] : [];
+  // History and export controls shared by both result layouts
+  const resultActions = (sheets: () => ReturnType<typeof comparisonSheets>) => (
+    <>
+      <RunHistory entries={history} onRestore={(entry) => showResult(entry.result)} />
+      <ExportMenu getSheets={sheets} baseName="horizon_comparison" />
+    </>
+  );
+
+  // Name field shown as the heading of each list card
+  const nameInput = (value: string, index: number, onChange: (name: string) => void, hint?: string) => (
+    <div className="flex items-center gap-2 mb-2">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={defaultListName(index)}
+        className="flex-1 min-w-0 text-sm font-bold text-slate-600 uppercase tracking-wide font-display bg-transparent border-b border-transparent hover:border-slate-200 focus:border-slate-400 focus:outline-none"
+      />
+      {hint && <span className="text-xs text-slate-400 shrink-0">{hint}</span>}
+    </div>
+  );
 
   // Render component JSX
   return (
     // Main container with spacing and animation
     <div className="space-y-6 animate-fade-in">
-      {/* Input Grid: Two columns for List A and List B */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {/* Input Grid: List A and List B, then any further lists */}
+      <div className={`grid grid-cols-1 md:grid-cols-2 ${extraLists.length > 0 ? 'xl:grid-cols-3' : ''} gap-4`}>
         {/* List A Input Container */}
         <div className="flex flex-col h-full bg-white p-4 rounded-xl shadow-sm border border-slate-200 border-t-4 border-t-teal-500">
-          <h3 className="text-sm font-bold text-slate-500 uppercase mb-2 tracking-wide font-display">List A (Base)</h3>
+          {nameInput(nameA, 0, setNameA, extraLists.length === 0 ? 'Base' : undefined)}
           {/* Textarea for List A */}
           <textarea
             className="flex-1 p-3 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent resize-none bg-slate-50 font-mono h-48 md:h-64 text-slate-700"
@@ -86,13 +340,17 @@ const Comparator: React.FC = () => {
           />
           {/* Line count indicator */}
           <div className="mt-2 text-xs text-right text-slate-400 font-mono">
-            {listA.split(/\n/).filter(l => l.trim()).length} lines
+            {countLines(listA)} lines
+          </div>
+          {/* File Input for List A, with a column picker for CSV/TSV */}
+          <div className="mt-2">
+            <TableImport source={sourceA} onSourceChange={setSourceA} onText={setListA} />
           </div>
         </div>
         
         {/* List B Input Container */}
         <div className="flex flex-col h-full bg-white p-4 rounded-xl shadow-sm border border-slate-200 border-t-4 border-t-rose-500">
-          <h3 className="text-sm font-bold text-slate-500 uppercase mb-2 tracking-wide font-display">List B (Target)</h3>
+          {nameInput(nameB, 1, setNameB, extraLists.length === 0 ? 'Target' : undefined)}
           {/* Textarea for List B */}
           <textarea
             className="flex-1 p-3 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent resize-none bg-slate-50 font-mono h-48 md:h-64 text-slate-700"
@@ -102,22 +360,169 @@ const Comparator: React.FC = () => {
           />
            {/* Line count indicator */}
            <div className="mt-2 text-xs text-right text-slate-400 font-mono">
-            {listB.split(/\n/).filter(l => l.trim()).length} lines
+            {countLines(listB)} lines
+          </div>
+          {/* File Input for List B, with a column picker for CSV/TSV */}
+          <div className="mt-2">
+            <TableImport source={sourceB} onSourceChange={setSourceB} onText={setListB} />
           </div>
         </div>
+
+        {/* Further List Containers (List C onwards) */}
+        {extraLists.map((list, i) => (
+          <div
+            key={i}
+            style={{ borderTopColor: listColor(i + 2) }}
+            className="flex flex-col h-full bg-white p-4 rounded-xl shadow-sm border border-slate-200 border-t-4"
+          >
+            <div className="flex items-start gap-2">
+              <div className="flex-1 min-w-0">{nameInput(list.name, i + 2, name => updateExtraList(i, { name }))}</div>
+              <button
+                onClick={() => setExtraLists(lists => lists.filter((_, j) => j !== i))}
+                className="p-1 text-slate-400 hover:text-rose-600"
+                title="Remove list"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <textarea
+              className="flex-1 p-3 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-slate-400 focus:border-transparent resize-none bg-slate-50 font-mono h-48 md:h-64 text-slate-700"
+              placeholder="Paste another list..."
+              value={list.text}
+              onChange={(e) => updateExtraList(i, { text: e.target.value })}
+            />
+            <div className="mt-2 text-xs text-right text-slate-400 font-mono">
+              {countLines(list.text)} lines
+            </div>
+            <div className="mt-2">
+              <TableImport
+                source={list.source}
+                onSourceChange={source => updateExtraList(i, { source })}
+                onText={text => updateExtraList(i, { text })}
+              />
+            </div>
+          </div>
+        ))}
       </div>
 
       {/* Action Button Area */}
-      <div className="flex justify-center">
+      <div className="flex justify-center gap-3">
+        <button
+          onClick={addList}
+          disabled={allLists.length >= MAX_COMPARE_LISTS}
+          className="px-4 py-3 bg-white border border-slate-200 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-5 h-5" />
+          Add List
+        </button>
         <button
-          onClick={handleCompare}
-          disabled={!listA.trim() || !listB.trim()} // Disable if either list is empty
+          onClick={() => handleCompare()}
+          disabled={allLists.some(list => !list.text.trim()) || running} // Disable if any list is empty or a job is running
           className="px-8 py-3 bg-slate-800 text-white font-medium rounded-lg hover:bg-slate-900 transition-all shadow-lg shadow-slate-900/10 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed transform hover:scale-[1.02]"
         >
           <ArrowRightLeft className="w-5 h-5" />
           Compare Lists
         </button>
       </div>
+      {/* Count-aware, fuzzy and record modes apply to two-list comparisons */}
+      {extraLists.length === 0 && (
+        <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-2 text-sm text-slate-600">
+          <label
+            className={`flex items-center gap-2 ${canDiffRecords ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}
+            title={canDiffRecords ? 'Rows are matched on the column selected in each import' : 'Import a CSV/TSV file into both lists first'}
+          >
+            <input
+              type="checkbox"
+              checked={diffingRecords}
+              disabled={!canDiffRecords}
+              onChange={(e) => setRecordMode(e.target.checked)}
+              className="rounded border-slate-300 text-teal-600 focus:ring-teal-500"
+            />
+            Compare as records (selected column is the key)
+          </label>
+          {!diffingRecords && (
+            <>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={countMode}
+                  onChange={(e) => setCountMode(e.target.checked)}
+                  className="rounded border-slate-300 text-teal-600 focus:ring-teal-500"
+                />
+                Count duplicates (compare how many times each item appears)
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={fuzzyMode}
+                  onChange={(e) => setFuzzyMode(e.target.checked)}
+                  className="rounded border-slate-300 text-teal-600 focus:ring-teal-500"
+                />
+                Find probable matches
+              </label>
+              {fuzzyMode && (
+                <div className="flex items-center gap-3">
+                  {/* Similarity metric selector */}
+                  <select
+                    value={metric}
+                    onChange={(e) => setMetric(e.target.value as SimilarityMetric)}
+                    className="px-3 py-1.5 text-xs border border-slate-200 rounded-lg bg-white text-slate-700 focus:ring-2 focus:ring-teal-500 outline-none"
+                  >
+                    {SIMILARITY_METRICS.map(m => (
+                      <option key={m.id} value={m.id}>{m.label}</option>
+                    ))}
+                  </select>
+                  {/* Similarity threshold slider */}
+                  <input
+                    type="range"
+                    min="50"
+                    max="99"
+                    value={Math.round(threshold * 100)}
+                    onChange={(e) => setThreshold(parseInt(e.target.value) / 100)}
+                    className="w-28 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-teal-600"
+                  />
+                  <span className="text-xs font-mono font-bold text-teal-600 bg-teal-50 px-2 py-0.5 rounded">{Math.round(threshold * 100)}%</span>
+                </div>
+              )}
+              {/* Match rules panel toggle */}
+              <button
+                onClick={() => setShowRules(open => !open)}
+                className={`px-3 py-1.5 text-xs font-medium border rounded-lg flex items-center gap-1 transition-colors ${showRules ? 'bg-teal-50 border-teal-300 text-teal-800' : 'bg-white border-slate-200 text-slate-700 hover:bg-slate-50'}`}
+              >
+                <SlidersHorizontal className="w-3 h-3 text-teal-600" />
+                Match Rules ({Object.values(normalization).filter(Boolean).length} on)
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      {/* Match rules applied to both lists before comparing (all off = exact matching) */}
+      {extraLists.length === 0 && !diffingRecords && showRules && (
+        <div className="max-w-2xl mx-auto bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+          <NormalizationSettings options={normalization} onChange={setNormalization} />
+        </div>
+      )}
+
+      {/* Progress bar and cancel button while the worker is busy */}
+      {running && <JobProgress progress={progress} label="Comparing lists..." onCancel={cancel} />}
+
+      {/* Record Diff Results: added, removed and modified rows */}
+      {recordResult && (
+        <RecordDiffView
+          result={recordResult}
+          actions={resultActions(() => recordDiffSheets(recordResult))}
+          onSendTo={onSendTo}
+        />
+      )}
+
+      {/* N-way Results: set diagram, regions and membership matrix */}
+      {multiResult && (
+        <MultiComparisonView
+          result={multiResult}
+          actions={resultActions(() => multiComparisonSheets(multiResult))}
+          onSendTo={onSendTo}
+        />
+      )}
 
       {/* Results Display Area - Only shown if result exists */}
       {result && (
@@ -149,36 +554,52 @@ const Comparator: React.FC = () => {
                  </PieChart>
                </ResponsiveContainer>
              </div>
-             {/* Similarity Index Calculation Display */}
-             <div className="text-center mt-4 space-y-2">
-                <div className="text-3xl font-bold text-slate-700 font-display">
-                   {/* Calculate Jaccard-like index: Intersection / (Union) */}
-                  {((result.stats.inBoth / (result.stats.totalA + result.stats.totalB - result.stats.inBoth || 1)) * 100).toFixed(1)}%
-                </div>
-                <div className="text-xs text-slate-400 uppercase tracking-widest font-semibold">Similarity Index</div>
-             </div>
+             {/* Similarity Index (Jaccard) and the other overlap measures; accepted matches count as shared */}
+             {overlap && (
+               <div className="mt-4 space-y-4">
+                 <div className="text-center space-y-2">
+                   <div className="text-3xl font-bold text-slate-700 font-display">
+                     {(overlap.metrics.jaccard * 100).toFixed(1)}%
+                   </div>
+                   <div className="text-xs text-slate-400 uppercase tracking-widest font-semibold">Similarity Index</div>
+                 </div>
+                 <div className="grid grid-cols-2 gap-2">
+                   {[
+                     { label: 'Dice', value: overlap.metrics.dice },
+                     { label: 'Overlap', value: overlap.metrics.overlap },
+                     { label: `${displayName(allLists[0], 0)} in ${displayName(allLists[1], 1)}`, value: overlap.metrics.containmentAInB },
+                     { label: `${displayName(allLists[1], 1)} in ${displayName(allLists[0], 0)}`, value: overlap.metrics.containmentBInA },
+                   ].map(metricItem => (
+                     <div key={metricItem.label} className="bg-slate-50 rounded-lg px-3 py-2 text-center">
+                       <div className="text-sm font-bold text-slate-700 font-mono">{(metricItem.value * 100).toFixed(1)}%</div>
+                       <div className="text-[10px] text-slate-400 uppercase tracking-wide font-semibold truncate" title={metricItem.label}>{metricItem.label}</div>
+                     </div>
+                   ))}
+                 </div>
+               </div>
+             )}
           </div>
 
           {/* Detailed Lists Output Section */}
           <div className="lg:col-span-2 space-y-4">
+             {/* Export the three regions as labelled columns */}
+             <div className="flex justify-end gap-2">
+               {resultActions(() => comparisonSheets(result, sourceA, sourceB, decisions))}
+             </div>
              {/* List A Only Results */}
              <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
                 <div className="px-4 py-3 bg-teal-50 border-b border-teal-100 flex justify-between items-center">
                    <h4 className="text-sm font-bold text-teal-900 flex items-center gap-2 font-display">
-                     <X className="w-4 h-4" /> Unique to List A
+                     <X className="w-4 h-4" /> Unique to {displayName(allLists[0], 0)}
                    </h4>
-                   <span className="bg-white text-teal-700 text-xs font-bold px-2 py-0.5 rounded border border-teal-200">{result.stats.inAOnly}</span>
+                   <div className="flex items-center gap-2">
+                     <SendToMenu getItems={() => aOnlyItems} onSend={onSendTo} />
+                     <span className="bg-white text-teal-700 text-xs font-bold px-2 py-0.5 rounded border border-teal-200">{aOnlyItems.length}</span>
+                   </div>
                 </div>
-                <div className="max-h-32 overflow-y-auto p-2 bg-white custom-scrollbar">
-                  {result.aOnly.length > 0 ? (
-                    <div className="flex flex-wrap gap-2">
-                      {result.aOnly.map((t, i) => (
-                         <span key={i} className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-slate-100 text-slate-700 border border-slate-200">
-                           {t}
-                         </span>
-                      ))}
-                    </div>
-                  ) : <span className="text-xs text-slate-400 italic p-2">None found</span>}
+                <div className="p-2 bg-white">
+                  {/* Windowed list with filter and keyboard navigation */}
+                  <VirtualList items={aOnlyItems} height={128} renderItem={rowRenderer} />
                 </div>
              </div>
 
@@ -188,41 +609,139 @@ const Comparator: React.FC = () => {
                    <h4 className="text-sm font-bold text-slate-800 flex items-center gap-2 font-display">
                      <GitCompare className="w-4 h-4" /> Intersection (In Both)
                    </h4>
-                   <span className="bg-white text-slate-600 text-xs font-bold px-2 py-0.5 rounded border border-slate-200">{result.stats.inBoth}</span>
+                   <div className="flex items-center gap-2">
+                     <SendToMenu getItems={() => result.intersection} onSend={onSendTo} />
+                     <span className="bg-white text-slate-600 text-xs font-bold px-2 py-0.5 rounded border border-slate-200">{result.stats.inBoth}</span>
+                   </div>
                 </div>
-                <div className="max-h-32 overflow-y-auto p-2 bg-white custom-scrollbar">
-                   {result.intersection.length > 0 ? (
-                    <div className="flex flex-wrap gap-2">
-                      {result.intersection.map((t, i) => (
-                         <span key={i} className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-slate-100 text-slate-700 border border-slate-200">
-                           {t}
-                         </span>
-                      ))}
-                    </div>
-                  ) : <span className="text-xs text-slate-400 italic p-2">None found</span>}
+                <div className="p-2 bg-white">
+                  {/* Windowed list with filter and keyboard navigation */}
+                  <VirtualList items={result.intersection} height={128} renderItem={rowRenderer} />
                 </div>
              </div>
 
+             {/* Count Mismatches: in both lists, but not the same number of times */}
+             {result.counts && (
+               <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                  <div className="px-4 py-3 bg-amber-50 border-b border-amber-100 flex justify-between items-center">
+                     <h4 className="text-sm font-bold text-amber-900 flex items-center gap-2 font-display">
+                       <Scale className="w-4 h-4" /> Count Differences
+                     </h4>
+                     <div className="flex items-center gap-2">
+                       <SendToMenu getItems={() => countMismatches} onSend={onSendTo} />
+                       <span className="bg-white text-amber-700 text-xs font-bold px-2 py-0.5 rounded border border-amber-200">{countMismatches.length}</span>
+                     </div>
+                  </div>
+                  <div className="p-2 bg-white">
+                    <VirtualList items={countMismatches} height={128} renderItem={renderCountRow} emptyText="Every shared item has the same count" />
+                  </div>
+               </div>
+             )}
+
              {/* List B Only Results */}
              <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
                 <div className="px-4 py-3 bg-rose-50 border-b border-rose-100 flex justify-between items-center">
                    <h4 className="text-sm font-bold text-rose-900 flex items-center gap-2 font-display">
-                     <Check className="w-4 h-4" /> Unique to List B
+                     <Check className="w-4 h-4" /> Unique to {displayName(allLists[1], 1)}
                    </h4>
-                   <span className="bg-white text-rose-700 text-xs font-bold px-2 py-0.5 rounded border border-rose-200">{result.stats.inBOnly}</span>
+                   <div className="flex items-center gap-2">
+                     <SendToMenu getItems={() => bOnlyItems} onSend={onSendTo} />
+                     <span className="bg-white text-rose-700 text-xs font-bold px-2 py-0.5 rounded border border-rose-200">{bOnlyItems.length}</span>
+                   </div>
                 </div>
-                 <div className="max-h-32 overflow-y-auto p-2 bg-white custom-scrollbar">
-                   {result.bOnly.length > 0 ? (
-                    <div className="flex flex-wrap gap-2">
-                      {result.bOnly.map((t, i) => (
-                         <span key={i} className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-slate-100 text-slate-700 border border-slate-200">
-                           {t}
-                         </span>
-                      ))}
-                    </div>
-                  ) : <span className="text-xs text-slate-400 italic p-2">None found</span>}
+                 <div className="p-2 bg-white">
+                   {/* Windowed list with filter and keyboard navigation */}
+                   <VirtualList items={bOnlyItems} height={128} renderItem={rowRenderer} />
+                 </div>
+             </div>
+
+             {/* Character Diff: unmatched items next to their closest counterpart */}
+             <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                <div className="px-4 py-3 bg-slate-100 border-b border-slate-200 flex justify-between items-center">
+                   <h4 className="text-sm font-bold text-slate-800 flex items-center gap-2 font-display">
+                     <Type className="w-4 h-4" /> Near Matches (Character Diff)
+                   </h4>
+                   <div className="flex items-center gap-2">
+                     <button
+                       onClick={findNearMatches}
+                       disabled={running || aOnlyItems.length === 0 || bOnlyItems.length === 0}
+                       className="px-2 py-1 text-xs font-medium bg-white border border-slate-200 text-slate-700 rounded-lg hover:bg-slate-50 hover:border-teal-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                     >
+                       {nearPairs ? 'Refresh' : 'Align unmatched items'}
+                     </button>
+                     {nearPairs && (
+                       <span className="bg-white text-slate-600 text-xs font-bold px-2 py-0.5 rounded border border-slate-200">{nearPairs.length}</span>
+                     )}
+                   </div>
                 </div>
+                {nearPairs && (
+                  <div className="p-2 bg-white">
+                    <CharDiffView pairs={nearPairs} normalization={normalization} onEnableRule={enableRule} />
+                  </div>
+                )}
              </div>
+
+             {/* Probable Matches: A-only and B-only items that look like the same entry */}
+             {result.probableMatches && (
+               <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                  <div className="px-4 py-3 bg-violet-50 border-b border-violet-100 flex justify-between items-center">
+                     <h4 className="text-sm font-bold text-violet-900 flex items-center gap-2 font-display">
+                       <Sparkles className="w-4 h-4" /> Probable Matches
+                     </h4>
+                     <div className="flex items-center gap-2">
+                       <span className="text-xs text-violet-700">{accepted.matches.length} accepted</span>
+                       <button
+                         onClick={acceptPending}
+                         disabled={result.probableMatches.every(match => decisions[matchKey(match)])}
+                         className="px-2 py-1 text-xs font-medium bg-white border border-slate-200 text-slate-700 rounded-lg hover:bg-slate-50 hover:border-violet-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                       >
+                         Accept pending
+                       </button>
+                       <span className="bg-white text-violet-700 text-xs font-bold px-2 py-0.5 rounded border border-violet-200">{result.probableMatches.length}</span>
+                     </div>
+                  </div>
+                  {/* Very large or near-identical inputs skip the most common words or grams */}
+                  {result.probableMatchesApproximate && (
+                    <p className="px-4 py-2 text-xs text-amber-700 bg-amber-50 border-b border-amber-100">
+                      Approximate: these lists are too uniform to compare every candidate, so some pairs may be missing.
+                    </p>
+                  )}
+                  <div className="p-2 bg-white">
+                    <VirtualList
+                      items={probableLabels}
+                      height={192}
+                      emptyText="No close pairs at this threshold"
+                      renderItem={(_, index) => {
+                        const match = result.probableMatches![index];
+                        const key = matchKey(match);
+                        const decision = decisions[key];
+                        return (
+                          <div className={`flex items-center gap-2 w-full min-w-0 ${decision === 'rejected' ? 'opacity-40 line-through' : ''}`}>
+                            <span className="truncate flex-1 text-teal-800" title={match.a}>{match.a}</span>
+                            <ArrowRightLeft className="w-3 h-3 text-slate-300 shrink-0" />
+                            <span className="truncate flex-1 text-rose-800" title={match.b}>{match.b}</span>
+                            <span className="font-mono text-xs text-slate-400 shrink-0">{Math.round(match.score * 100)}%</span>
+                            <button
+                              onClick={() => decide(key, 'accepted')}
+                              className={`p-0.5 rounded shrink-0 ${decision === 'accepted' ? 'bg-teal-600 text-white' : 'text-slate-400 hover:text-teal-600'}`}
+                              title="Accept match"
+                            >
+                              <Check className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                              onClick={() => decide(key, 'rejected')}
+                              className={`p-0.5 rounded shrink-0 ${decision === 'rejected' ? 'bg-rose-600 text-white' : 'text-slate-400 hover:text-rose-600'}`}
+                              title="Reject match"
+                            >
+                              <X className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        );
+                      }}
+                    />
+                  </div>
+               </div>
+             )}
           </div>
         </div>
       )}
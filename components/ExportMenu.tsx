@@ -0,0 +1,68 @@
+// Import React and hooks for the dropdown state and outside-click handling
+import React, { useState, useRef, useEffect } from 'react';
+// Import the export helpers and format list
+import { EXPORT_FORMATS, ExportFormat, ExportSheet, exportSheets } from '../services/exportService';
+// Import icons for the menu
+import { Download, ChevronDown } from 'lucide-react';
+
+// Define the interface for props accepted by ExportMenu
+interface ExportMenuProps {
+  getSheets: () => ExportSheet[]; // Builds the tables to export (called only when a format is picked)
+  baseName: string;               // File name without extension
+  disabled?: boolean;             // Disable the button when there is nothing to export
+}
+
+// Common "Export" dropdown offering CSV, JSON, Markdown and XLSX
+const ExportMenu: React.FC<ExportMenuProps> = ({ getSheets, baseName, disabled }) => {
+  // State for whether the dropdown is open
+  const [open, setOpen] = useState(false);
+  // Ref to the wrapper so clicks outside can close the menu
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the dropdown when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  // Export in the chosen format and close the menu
+  const handleExport = (format: ExportFormat) => {
+    exportSheets(getSheets(), format, baseName);
+    setOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} className="relative inline-block">
+      {/* Menu Toggle Button */}
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        className="px-3 py-1.5 text-xs font-medium bg-white border border-slate-200 text-slate-700 rounded-lg hover:bg-slate-50 hover:border-teal-300 transition-colors flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Download className="w-3.5 h-3.5 text-teal-600" /> Export <ChevronDown className="w-3 h-3" />
+      </button>
+      {/* Format Options */}
+      {open && (
+        <div className="absolute right-0 mt-1 w-44 bg-white border border-slate-200 rounded-lg shadow-lg z-20 py-1 animate-fade-in">
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => handleExport(format.id)}
+              className="w-full text-left px-3 py-2 text-xs text-slate-700 hover:bg-teal-50 hover:text-teal-800 flex justify-between"
+            >
+              {format.label}
+              <span className="font-mono text-slate-400">.{format.extension}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Export ExportMenu component
+export default ExportMenu;
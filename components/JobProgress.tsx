@@ -0,0 +1,43 @@
+// Import React for component creation
+import React from 'react';
+// Import icon for the cancel button
+import { X } from 'lucide-react';
+
+// Define the interface for props accepted by JobProgress
+interface JobProgressProps {
+  progress: number;     // Completed fraction (0 - 1)
+  label?: string;       // Text shown above the bar
+  onCancel: () => void; // Callback to stop the running job
+}
+
+// Progress bar with a cancel button, shown while a background job runs
+const JobProgress: React.FC<JobProgressProps> = ({ progress, label = 'Processing...', onCancel }) => {
+  // Clamp and convert to a whole percentage for display
+  const percent = Math.round(Math.min(1, Math.max(0, progress)) * 100);
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 flex items-center gap-4 animate-fade-in">
+      <div className="flex-1">
+        {/* Label and percentage */}
+        <div className="flex justify-between text-xs font-medium text-slate-600 mb-1.5">
+          <span>{label}</span>
+          <span className="font-mono text-teal-600 font-bold">{percent}%</span>
+        </div>
+        {/* Progress track and fill */}
+        <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+          <div className="h-full bg-teal-500 transition-all duration-200" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+      {/* Cancel Button */}
+      <button
+        onClick={onCancel}
+        className="px-3 py-1.5 text-xs font-medium text-slate-600 border border-slate-200 rounded-lg hover:bg-rose-50 hover:text-rose-600 hover:border-rose-200 transition-colors flex items-center gap-1"
+      >
+        <X className="w-3 h-3" /> Cancel
+      </button>
+    </div>
+  );
+};
+
+// Export JobProgress component
+export default JobProgress;
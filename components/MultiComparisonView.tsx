@@ -0,0 +1,145 @@
+// Import React and state for the selected region
+import React, { useState, useMemo } from 'react';
+// Import the N-way comparison result and handoff types
+import { MultiComparisonResult, SendTarget, ViewMode } from '../types';
+// Import the region naming shared with exports
+import { regionLabel } from '../core';
+// Import the set diagrams
+import VennDiagram from './VennDiagram';
+import UpSetChart from './UpSetChart';
+// Import the shared windowed list and the cross-tool "Send to…" menu
+import VirtualList from './VirtualList';
+import SendToMenu from './SendToMenu';
+// Import icons for UI elements
+import { Layers, Grid3x3, ChevronDown, ChevronRight } from 'lucide-react';
+
+// Colour per list, in input order; repeats after eight lists
+export const LIST_COLORS = ['#0d9488', '#e11d48', '#4f46e5', '#d97706', '#0284c7', '#7c3aed', '#65a30d', '#ea580c'];
+
+// Colour of list i
+export const listColor = (i: number) => LIST_COLORS[i % LIST_COLORS.length];
+
+// Define the interface for props accepted by MultiComparisonView
+interface MultiComparisonViewProps {
+  result: MultiComparisonResult;                           // Comparison of three or more lists
+  actions: React.ReactNode;                                // History and export controls shown above the regions
+  onSendTo: (target: SendTarget, items: string[]) => void; // Pipes a region into another tool
+}
+
+// Results of an N-way comparison: set diagram, every region and the per-item membership matrix
+const MultiComparisonView: React.FC<MultiComparisonViewProps> = ({ result, actions, onSendTo }) => {
+  // Region whose items are expanded (null = none)
+  const [selected, setSelected] = useState<number | null>(null);
+  const names = result.lists.map(list => list.name);
+  const colors = names.map((_, i) => listColor(i));
+  // Row labels for the membership matrix (memoized so the list keeps its scroll position)
+  const memberItems = useMemo(() => result.membership.map(entry => entry.item), [result]);
+
+  // Toggle a region, from the diagram or the region list
+  const toggle = (mask: number) => setSelected(current => (current === mask ? null : mask));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Diagram Section: Venn for three lists, UpSet beyond that */}
+      <div className="lg:col-span-1 bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2 font-display">
+          <Layers className="w-5 h-5 text-teal-600" />
+          Overlap Analysis
+        </h3>
+        {result.lists.length === 3
+          ? <VennDiagram result={result} colors={colors} selected={selected} onSelect={toggle} />
+          : <UpSetChart result={result} colors={colors} selected={selected} onSelect={toggle} />}
+        <div className="text-center mt-4 space-y-2">
+          <div className="text-3xl font-bold text-slate-700 font-display">{result.totalItems.toLocaleString()}</div>
+          <div className="text-xs text-slate-400 uppercase tracking-widest font-semibold">Distinct Items</div>
+        </div>
+      </div>
+
+      {/* Regions and Membership Section */}
+      <div className="lg:col-span-2 space-y-4">
+        <div className="flex justify-end gap-2">{actions}</div>
+
+        {/* One row per non-empty region, largest first */}
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-4 py-3 bg-slate-100 border-b border-slate-200 flex justify-between items-center">
+            <h4 className="text-sm font-bold text-slate-800 flex items-center gap-2 font-display">
+              <Layers className="w-4 h-4" /> Regions
+            </h4>
+            <span className="bg-white text-slate-600 text-xs font-bold px-2 py-0.5 rounded border border-slate-200">{result.regions.length}</span>
+          </div>
+          <div className="divide-y divide-slate-100 max-h-[28rem] overflow-y-auto">
+            {result.regions.map(region => (
+              <div key={region.mask}>
+                <div className={`px-4 py-2 flex items-center gap-3 ${selected === region.mask ? 'bg-teal-50' : ''}`}>
+                  <button onClick={() => toggle(region.mask)} className="flex-1 min-w-0 flex items-center gap-2 text-left">
+                    {selected === region.mask
+                      ? <ChevronDown className="w-4 h-4 text-slate-400 shrink-0" />
+                      : <ChevronRight className="w-4 h-4 text-slate-400 shrink-0" />}
+                    {/* Membership dots, one per list */}
+                    <span className="flex gap-0.5 shrink-0">
+                      {colors.map((color, i) => (
+                        <span
+                          key={i}
+                          className={`w-2 h-2 rounded-full ${region.mask & (1 << i) ? '' : 'bg-slate-200'}`}
+                          style={region.mask & (1 << i) ? { backgroundColor: color } : undefined}
+                        />
+                      ))}
+                    </span>
+                    <span className="text-sm text-slate-700 truncate">{regionLabel(region.mask, names)}</span>
+                  </button>
+                  <SendToMenu getItems={() => region.items} onSend={onSendTo} exclude={ViewMode.COMPARATOR} />
+                  <span className="bg-white text-slate-600 text-xs font-bold px-2 py-0.5 rounded border border-slate-200">{region.items.length}</span>
+                </div>
+                {selected === region.mask && (
+                  <div className="px-4 pb-3 bg-teal-50">
+                    <VirtualList items={region.items} height={160} />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Membership matrix: every distinct item with a column per list */}
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-4 py-3 bg-slate-100 border-b border-slate-200 flex justify-between items-center">
+            <h4 className="text-sm font-bold text-slate-800 flex items-center gap-2 font-display">
+              <Grid3x3 className="w-4 h-4" /> Membership Matrix
+            </h4>
+            {/* Column legend */}
+            <div className="flex flex-wrap justify-end gap-x-3 gap-y-1">
+              {names.map((name, i) => (
+                <span key={i} className="flex items-center gap-1 text-xs text-slate-600">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: colors[i] }} /> {name}
+                </span>
+              ))}
+            </div>
+          </div>
+          <div className="p-2 bg-white">
+            <VirtualList
+              items={memberItems}
+              height={224}
+              renderItem={(item, index) => (
+                <div className="flex items-center gap-3 w-full min-w-0">
+                  <span className="flex gap-1 shrink-0">
+                    {colors.map((color, i) => (
+                      <span
+                        key={i}
+                        className={`w-2.5 h-2.5 rounded-full ${result.membership[index].mask & (1 << i) ? '' : 'bg-slate-200'}`}
+                        style={result.membership[index].mask & (1 << i) ? { backgroundColor: color } : undefined}
+                      />
+                    ))}
+                  </span>
+                  <span className="truncate">{item}</span>
+                </div>
+              )}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Export MultiComparisonView component
+export default MultiComparisonView;
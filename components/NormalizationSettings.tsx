@@ -0,0 +1,47 @@
+// Import React for component creation
+import React from 'react';
+// Import normalization types
+import { NormalizationOptions } from '../types';
+// Import the ordered rule list to render one toggle per rule
+import { NORMALIZATION_RULES } from '../services/normalizeService';
+// Import icon for the section header
+import { SlidersHorizontal } from 'lucide-react';
+
+// Define the interface for props accepted by NormalizationSettings
+interface NormalizationSettingsProps {
+  options: NormalizationOptions;                        // Current rule toggles
+  onChange: (options: NormalizationOptions) => void;    // Callback with the updated toggles
+}
+
+// Reusable panel of checkboxes controlling the normalization pipeline
+const NormalizationSettings: React.FC<NormalizationSettingsProps> = ({ options, onChange }) => {
+  return (
+    <div className="space-y-2">
+      {/* Section Header */}
+      <label className="text-xs font-bold text-slate-500 uppercase tracking-wide flex items-center gap-2">
+        <SlidersHorizontal className="w-3 h-3 text-teal-600" /> Match Rules
+      </label>
+      {/* One checkbox per rule, listed in pipeline order */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {NORMALIZATION_RULES.map(rule => (
+          <label
+            key={rule.id}
+            title={rule.description}
+            className="flex items-center gap-2 p-2 border border-slate-200 rounded-lg cursor-pointer hover:bg-slate-50 transition-colors bg-slate-50/50"
+          >
+            <input
+              type="checkbox"
+              checked={!!options[rule.id]}
+              onChange={(e) => onChange({ ...options, [rule.id]: e.target.checked })}
+              className="w-4 h-4 text-teal-600 rounded focus:ring-teal-500 border-slate-300"
+            />
+            <span className="text-xs font-medium text-slate-700">{rule.label}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Export NormalizationSettings component
+export default NormalizationSettings;
@@ -0,0 +1,488 @@
+// Import React and hooks for state, side effects and the hidden file input
+import React, { useState, useEffect, useRef } from 'react';
+// Import pipeline and handoff type definitions
+import { AISettings, PipelineGroup, PipelineRecipe, PipelineStep, PipelineStepType, SendTarget, SplitMode, TableSource, ViewMode } from '../types';
+// Import step metadata, recipe helpers and the pipeline runner
+import {
+  PIPELINE_STEP_TYPES,
+  createStep,
+  deleteRecipe,
+  executePipeline,
+  listRecipes,
+  parseRecipe,
+  saveRecipe,
+  serializeRecipe,
+} from '../services/pipelineService';
+// Import the AI categorization used by 'categorize' steps
+import { categorizeTitles } from '../services/aiService';
+import { aiSettingsError } from '../services/aiProviders';
+// Import the shared line splitter
+import { splitLines } from '../core';
+// Import the worker hook and its cancellation error
+import { useEngineJob } from '../hooks/useEngineJob';
+import { JobCancelledError } from '../services/engineService';
+// Import the progress bar shown while a job runs
+import JobProgress from './JobProgress';
+// Import the file input with CSV/TSV column picker
+import TableImport from './TableImport';
+// Import the shared Export menu, the category sheet builder and download helpers
+import ExportMenu from './ExportMenu';
+import { categorySheets, downloadBlob, safeFileName } from '../services/exportService';
+// Import the shared windowed list for step previews
+import VirtualList from './VirtualList';
+// Import workspace autosave
+import { useWorkspaceTool } from '../context/WorkspaceContext';
+// Import the cross-tool "Send to…" menu
+import SendToMenu from './SendToMenu';
+// Import icons for the builder UI
+import { Workflow, Play, Plus, ArrowUp, ArrowDown, Trash2, Eye, EyeOff, Save, Upload, Download, FileText, AlertTriangle } from 'lucide-react';
+
+// Define the interface for props accepted by PipelineBuilder
+interface PipelineBuilderProps {
+  aiSettings: AISettings;                                  // Needed by AI Categorize steps
+  onOpenSettings: () => void;                              // Opens the API key modal
+  onSendTo: (target: SendTarget, items: string[]) => void; // Pipes the output into another tool
+}
+
+// Inputs, steps and recipe name autosaved to the active workspace
+type PipelineState = {
+  inputText: string;
+  source: TableSource | null;
+  steps: PipelineStep[];
+  recipeName: string;
+};
+
+// Label for a step type, e.g. "AI Categorize"
+const stepLabel = (type: PipelineStepType) => PIPELINE_STEP_TYPES.find(t => t.type === type)?.label || type;
+
+// Total number of lines across all groups
+const countItems = (groups: PipelineGroup[]) => groups.reduce((sum, group) => sum + group.items.length, 0);
+
+// Define the PipelineBuilder functional component
+const PipelineBuilder: React.FC<PipelineBuilderProps> = ({ aiSettings, onOpenSettings, onSendTo }) => {
+  // Saved state and autosave from the active workspace
+  const { saved, save } = useWorkspaceTool<PipelineState>(ViewMode.PIPELINE);
+  // State for the pipeline input text
+  const [inputText, setInputText] = useState(saved.inputText ?? '');
+  // State for an imported CSV/TSV table and the column used as input
+  const [source, setSource] = useState<TableSource | null>(saved.source ?? null);
+  // State for the ordered steps
+  const [steps, setSteps] = useState<PipelineStep[]>(saved.steps ?? []);
+  // State for the name used when saving or exporting the recipe
+  const [recipeName, setRecipeName] = useState(saved.recipeName ?? 'My Pipeline');
+  // State for the saved recipes list
+  const [recipes, setRecipes] = useState<PipelineRecipe[]>(listRecipes);
+  // State for the output after each step (null until the pipeline runs)
+  const [outputs, setOutputs] = useState<PipelineGroup[][] | null>(null);
+  // Id of the step whose output is being previewed
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  // Index of the group shown in the preview
+  const [previewGroup, setPreviewGroup] = useState(0);
+  // Whether the whole pipeline (engine and AI steps) is running
+  const [busy, setBusy] = useState(false);
+  // State for errors from running or importing
+  const [error, setError] = useState<string | null>(null);
+  // Background worker job state for local steps
+  const { run, cancel, running, progress } = useEngineJob();
+  // Ref to the hidden recipe file input
+  const recipeInputRef = useRef<HTMLInputElement>(null);
+
+  // Autosave input, steps and recipe name whenever they change
+  useEffect(() => {
+    save({ inputText, source, steps, recipeName });
+  }, [save, inputText, source, steps, recipeName]);
+
+  // Any edit makes earlier step outputs stale
+  useEffect(() => {
+    setOutputs(null);
+  }, [inputText, steps]);
+
+  // Append a new step of the chosen type
+  const addStep = (type: PipelineStepType) => setSteps([...steps, createStep(type)]);
+
+  // Update fields of one step
+  const updateStep = (id: string, patch: Partial<PipelineStep>) =>
+    setSteps(steps.map(step => (step.id === id ? { ...step, ...patch } : step)));
+
+  // Move a step up (-1) or down (+1)
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= steps.length) return;
+    const next = [...steps];
+    [next[index], next[target]] = [next[target], next[index]];
+    setSteps(next);
+  };
+
+  // Remove a step
+  const removeStep = (id: string) => setSteps(steps.filter(step => step.id !== id));
+
+  // Show or hide the preview of a step's output
+  const togglePreview = (id: string) => {
+    setPreviewId(previewId === id ? null : id);
+    setPreviewGroup(0);
+  };
+
+  // Run every step, keeping each intermediate output
+  const handleRun = async () => {
+    if (!inputText.trim() || steps.length === 0) return;
+    // AI steps need a key before anything runs
+    const settingsError = aiSettingsError(aiSettings);
+    if (steps.some(step => step.type === 'categorize') && settingsError) {
+      setError(settingsError);
+      onOpenSettings();
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      const lines = splitLines(inputText);
+      const result = await executePipeline(
+        [{ name: 'Input', items: lines }],
+        steps,
+        (groups, localSteps) => run('pipeline', { groups, steps: localSteps }),
+        async titles => (await categorizeTitles(titles, aiSettings)).categories
+      );
+      setOutputs(result);
+      // Open the final output straight away
+      setPreviewId(steps[steps.length - 1].id);
+      setPreviewGroup(0);
+    } catch (err: any) {
+      // A cancelled job is expected; anything else is shown to the user
+      if (!(err instanceof JobCancelledError)) setError(err.message || "Pipeline failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Save the current steps under the recipe name
+  const handleSaveRecipe = () => {
+    const name = recipeName.trim();
+    if (!name || steps.length === 0) return;
+    setRecipes(saveRecipe({ version: 1, name, steps }));
+  };
+
+  // Replace the current steps with a recipe
+  const loadRecipe = (recipe: PipelineRecipe) => {
+    // Round-trip through the parser so every loaded step gets a fresh id
+    const parsed = parseRecipe(JSON.stringify(recipe));
+    setSteps(parsed.steps);
+    setRecipeName(parsed.name);
+  };
+
+  // Download the current pipeline as a recipe JSON file
+  const exportRecipe = () => {
+    downloadBlob(
+      new Blob([serializeRecipe(recipeName.trim() || 'Pipeline', steps)], { type: 'application/json' }),
+      `${safeFileName(recipeName)}.json`
+    );
+  };
+
+  // Load a recipe JSON file chosen by the user
+  const importRecipe = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = '';
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const recipe = parseRecipe(event.target?.result as string);
+        setSteps(recipe.steps);
+        setRecipeName(recipe.name);
+        setError(null);
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  // Output of the last step, used by Export and Send to
+  const finalOutput = outputs ? outputs[outputs.length - 1] : null;
+
+  // Render the settings editor for one step
+  const renderSettings = (step: PipelineStep) => {
+    switch (step.type) {
+      case 'difference':
+      case 'intersection':
+        return (
+          <textarea
+            className="w-full h-24 p-2 text-xs border border-slate-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent resize-none font-mono text-slate-700 bg-slate-50/50"
+            placeholder={step.type === 'difference' ? "Lines to remove (e.g. last week's list)..." : "Lines to keep..."}
+            value={step.reference || ''}
+            onChange={(e) => updateStep(step.id, { reference: e.target.value })}
+          />
+        );
+      case 'filter':
+        return (
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={step.keep === false ? 'remove' : 'keep'}
+              onChange={(e) => updateStep(step.id, { keep: e.target.value === 'keep' })}
+              className="px-2 py-1.5 text-xs border border-slate-200 rounded-lg bg-white text-slate-700 outline-none focus:ring-2 focus:ring-teal-500"
+            >
+              <option value="keep">Keep lines matching</option>
+              <option value="remove">Remove lines matching</option>
+            </select>
+            <input
+              value={step.pattern || ''}
+              onChange={(e) => updateStep(step.id, { pattern: e.target.value })}
+              placeholder={step.regex ? "Regular expression" : "Text (case-insensitive)"}
+              className="flex-1 min-w-[140px] px-2 py-1.5 text-xs border border-slate-200 rounded-lg font-mono text-slate-700 outline-none focus:ring-2 focus:ring-teal-500"
+            />
+            <label className="flex items-center gap-1.5 text-xs text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!step.regex}
+                onChange={(e) => updateStep(step.id, { regex: e.target.checked })}
+                className="w-3.5 h-3.5 text-teal-600 rounded focus:ring-teal-500 border-slate-300"
+              />
+              Regex
+            </label>
+          </div>
+        );
+      case 'sort':
+        return (
+          <select
+            value={step.order || 'az'}
+            onChange={(e) => updateStep(step.id, { order: e.target.value as PipelineStep['order'] })}
+            className="px-2 py-1.5 text-xs border border-slate-200 rounded-lg bg-white text-slate-700 outline-none focus:ring-2 focus:ring-teal-500"
+          >
+            <option value="az">A → Z</option>
+            <option value="za">Z → A</option>
+            <option value="length">Shortest first</option>
+          </select>
+        );
+      case 'batch':
+        return (
+          <div className="flex items-center gap-2">
+            <select
+              value={step.mode || 'size'}
+              onChange={(e) => updateStep(step.id, { mode: e.target.value as SplitMode })}
+              className="px-2 py-1.5 text-xs border border-slate-200 rounded-lg bg-white text-slate-700 outline-none focus:ring-2 focus:ring-teal-500"
+            >
+              <option value="size">Items per set</option>
+              <option value="count">Number of sets</option>
+              <option value="balanced">Number of sets (balanced)</option>
+              <option value="roundRobin">Number of sets (round-robin)</option>
+            </select>
+            <input
+              type="number"
+              min="1"
+              value={step.value ?? 25}
+              onChange={(e) => updateStep(step.id, { value: Math.max(1, parseInt(e.target.value) || 1) })}
+              className="w-24 px-2 py-1.5 text-xs border border-slate-200 rounded-lg font-mono text-slate-700 outline-none focus:ring-2 focus:ring-teal-500"
+            />
+          </div>
+        );
+      case 'categorize':
+        return <p className="text-xs text-slate-500">Each group is sorted into topics by the AI provider chosen in Settings; large groups are sent in chunks and merged.</p>;
+      default:
+        return <p className="text-xs text-slate-500">Keeps one copy of every line using the default match rules.</p>;
+    }
+  };
+
+  // Render component JSX
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Input and Recipes Column */}
+        <div className="lg:col-span-1 space-y-4">
+          {/* Input Card */}
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+            <h2 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2 font-display">
+              <FileText className="w-5 h-5 text-teal-600" />
+              Pipeline Input
+            </h2>
+            <textarea
+              className="w-full h-64 p-4 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent resize-none font-mono text-slate-700 bg-slate-50/50"
+              placeholder="Paste list here (one per line)..."
+              value={inputText}
+              onChange={(e) => setInputText(e.target.value)}
+            />
+            <div className="mt-3">
+              <TableImport source={source} onSourceChange={setSource} onText={setInputText} />
+            </div>
+          </div>
+
+          {/* Recipes Card */}
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-3">
+            <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide">Recipes</h3>
+            <div className="flex gap-2">
+              <input
+                value={recipeName}
+                onChange={(e) => setRecipeName(e.target.value)}
+                placeholder="Recipe name"
+                className="flex-1 min-w-0 px-3 py-2 text-xs border border-slate-200 rounded-lg text-slate-700 outline-none focus:ring-2 focus:ring-teal-500"
+              />
+              <button
+                onClick={handleSaveRecipe}
+                disabled={!recipeName.trim() || steps.length === 0}
+                title="Save recipe"
+                className="px-3 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save className="w-4 h-4" />
+              </button>
+            </div>
+            {/* Saved Recipes */}
+            {recipes.length > 0 && (
+              <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                {recipes.map(recipe => (
+                  <li key={recipe.name} className="flex items-center gap-2 px-3 py-2 text-xs">
+                    <button onClick={() => loadRecipe(recipe)} className="flex-1 text-left font-medium text-slate-700 hover:text-teal-700 truncate">
+                      {recipe.name}
+                    </button>
+                    <span className="text-slate-400 font-mono">{recipe.steps.length} steps</span>
+                    <button onClick={() => setRecipes(deleteRecipe(recipe.name))} title="Delete recipe" className="text-slate-400 hover:text-rose-500">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {/* Recipe JSON import / export */}
+            <div className="flex gap-2">
+              <button
+                onClick={() => recipeInputRef.current?.click()}
+                className="flex-1 px-3 py-1.5 text-xs font-medium bg-white border border-slate-200 text-slate-700 rounded-lg hover:bg-slate-50 hover:border-teal-300 transition-colors flex items-center justify-center gap-1.5"
+              >
+                <Upload className="w-3.5 h-3.5 text-teal-600" /> Import JSON
+              </button>
+              <button
+                onClick={exportRecipe}
+                disabled={steps.length === 0}
+                className="flex-1 px-3 py-1.5 text-xs font-medium bg-white border border-slate-200 text-slate-700 rounded-lg hover:bg-slate-50 hover:border-teal-300 transition-colors flex items-center justify-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Download className="w-3.5 h-3.5 text-teal-600" /> Export JSON
+              </button>
+              <input ref={recipeInputRef} type="file" accept=".json,application/json" onChange={importRecipe} className="hidden" />
+            </div>
+          </div>
+        </div>
+
+        {/* Steps Column */}
+        <div className="lg:col-span-2 space-y-4">
+          {/* Error Message Display */}
+          {error && (
+            <div className="p-4 bg-rose-50 text-rose-700 rounded-xl border border-rose-100 flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5" />
+              {error}
+            </div>
+          )}
+
+          {/* Placeholder Empty State */}
+          {steps.length === 0 && (
+            <div className="flex flex-col items-center justify-center bg-white rounded-xl border border-dashed border-slate-300 p-12 text-slate-400">
+              <Workflow className="w-16 h-16 mb-4 opacity-10" />
+              <p className="font-medium">No steps yet</p>
+              <p className="text-sm opacity-60">Add steps below, e.g. Unique → Difference → Batch → AI Categorize</p>
+            </div>
+          )}
+
+          {/* Step Cards */}
+          {steps.map((step, index) => {
+            const output = outputs?.[index];
+            const showPreview = previewId === step.id && output;
+            const group = showPreview ? output[Math.min(previewGroup, output.length - 1)] : undefined;
+            return (
+              <div key={step.id} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                {/* Step Header */}
+                <div className="px-4 py-3 bg-slate-50 border-b border-slate-100 flex items-center gap-3">
+                  <span className="w-6 h-6 rounded-full bg-teal-600 text-white text-xs font-bold flex items-center justify-center flex-shrink-0">
+                    {index + 1}
+                  </span>
+                  <h3 className="text-sm font-bold text-slate-800 font-display flex-1">{stepLabel(step.type)}</h3>
+                  {/* Output summary once the pipeline has run */}
+                  {output && (
+                    <button
+                      onClick={() => togglePreview(step.id)}
+                      className="text-xs font-medium text-teal-700 hover:text-teal-900 flex items-center gap-1"
+                    >
+                      {previewId === step.id ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+                      {countItems(output).toLocaleString()} lines · {output.length} {output.length === 1 ? 'group' : 'groups'}
+                    </button>
+                  )}
+                  <div className="flex items-center gap-1.5 text-slate-400">
+                    <button onClick={() => moveStep(index, -1)} disabled={index === 0} title="Move up" className="hover:text-slate-700 disabled:opacity-30">
+                      <ArrowUp className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} title="Move down" className="hover:text-slate-700 disabled:opacity-30">
+                      <ArrowDown className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => removeStep(step.id)} title="Remove step" className="hover:text-rose-500">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+                {/* Step Settings */}
+                <div className="p-4">{renderSettings(step)}</div>
+                {/* Intermediate Output Preview */}
+                {showPreview && (
+                  <div className="px-4 pb-4 space-y-2">
+                    <div className="flex items-center gap-2">
+                      {output.length > 1 && (
+                        <select
+                          value={Math.min(previewGroup, output.length - 1)}
+                          onChange={(e) => setPreviewGroup(parseInt(e.target.value))}
+                          className="flex-1 px-2 py-1.5 text-xs border border-slate-200 rounded-lg bg-white text-slate-700 outline-none focus:ring-2 focus:ring-teal-500"
+                        >
+                          {output.map((g, i) => (
+                            <option key={i} value={i}>{g.name} ({g.items.length})</option>
+                          ))}
+                        </select>
+                      )}
+                      {group && <SendToMenu getItems={() => group.items} onSend={onSendTo} exclude={ViewMode.PIPELINE} />}
+                    </div>
+                    <VirtualList items={group?.items || []} height={160} emptyText="No lines left after this step" />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {/* Add Step Buttons */}
+          <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Add Step</p>
+            <div className="flex flex-wrap gap-2">
+              {PIPELINE_STEP_TYPES.map(t => (
+                <button
+                  key={t.type}
+                  onClick={() => addStep(t.type)}
+                  title={t.description}
+                  className="px-3 py-1.5 text-xs font-medium bg-white border border-slate-200 text-slate-700 rounded-lg hover:bg-teal-50 hover:border-teal-300 hover:text-teal-800 transition-colors flex items-center gap-1"
+                >
+                  <Plus className="w-3 h-3" /> {t.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Progress bar and cancel button while local steps run in the worker */}
+          {running && <JobProgress progress={progress} label="Running pipeline..." onCancel={cancel} />}
+          {busy && !running && (
+            <p className="text-xs text-slate-500 text-center animate-pulse">Waiting for AI categorization...</p>
+          )}
+
+          {/* Run and Output Actions */}
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            {finalOutput && (
+              <>
+                <SendToMenu getItems={() => finalOutput.flatMap(g => g.items)} onSend={onSendTo} exclude={ViewMode.PIPELINE} />
+                <ExportMenu getSheets={() => categorySheets(finalOutput)} baseName={safeFileName(recipeName)} />
+              </>
+            )}
+            <button
+              onClick={handleRun}
+              disabled={busy || !inputText.trim() || steps.length === 0}
+              className="px-6 py-2.5 bg-teal-600 text-white font-medium rounded-md hover:bg-teal-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-md shadow-teal-600/10 flex items-center gap-2"
+            >
+              <Play className="w-4 h-4 fill-current" /> Run Pipeline
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Export PipelineBuilder component
+export default PipelineBuilder;
@@ -0,0 +1,161 @@
+// Import React and state for the selected record
+import React, { useState, useMemo } from 'react';
+// Import the record-diff result and handoff types
+import { RecordDiffResult, SendTarget, ViewMode } from '../types';
+// Import the shared windowed list and the cross-tool "Send to…" menu
+import VirtualList from './VirtualList';
+import SendToMenu from './SendToMenu';
+// Import icons for UI elements
+import { FilePlus, FileMinus, FilePen, FileCheck, AlertTriangle } from 'lucide-react';
+
+// Define the interface for props accepted by RecordDiffView
+interface RecordDiffViewProps {
+  result: RecordDiffResult;                                // Key-based diff of two tables
+  actions: React.ReactNode;                                // History and export controls
+  onSendTo: (target: SendTarget, items: string[]) => void; // Pipes a list of keys into another tool
+}
+
+// Results of a record diff: added, removed and modified rows with each changed field highlighted
+const RecordDiffView: React.FC<RecordDiffViewProps> = ({ result, actions, onSendTo }) => {
+  // Index of the modified record shown in the detail table
+  const [selected, setSelected] = useState(0);
+  // Keys of each group, memoized so the lists keep their scroll position
+  const keys = useMemo(() => ({
+    added: result.added.map(record => record.key),
+    removed: result.removed.map(record => record.key),
+    modified: result.modified.map(record => record.key),
+  }), [result]);
+  const record = result.modified[selected];
+
+  // Summary cards: one per kind of change
+  const stats = [
+    { label: 'Added', value: result.added.length, icon: FilePlus, color: 'text-teal-600' },
+    { label: 'Removed', value: result.removed.length, icon: FileMinus, color: 'text-rose-600' },
+    { label: 'Modified', value: result.modified.length, icon: FilePen, color: 'text-amber-600' },
+    { label: 'Unchanged', value: result.unchanged, icon: FileCheck, color: 'text-slate-400' },
+  ];
+
+  // Panel listing the keys of added or removed rows
+  const keyPanel = (title: string, items: string[], tone: 'teal' | 'rose') => (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className={`px-4 py-3 border-b flex justify-between items-center ${tone === 'teal' ? 'bg-teal-50 border-teal-100' : 'bg-rose-50 border-rose-100'}`}>
+        <h4 className={`text-sm font-bold font-display ${tone === 'teal' ? 'text-teal-900' : 'text-rose-900'}`}>{title}</h4>
+        <div className="flex items-center gap-2">
+          <SendToMenu getItems={() => items} onSend={onSendTo} exclude={ViewMode.COMPARATOR} />
+          <span className="bg-white text-slate-600 text-xs font-bold px-2 py-0.5 rounded border border-slate-200">{items.length}</span>
+        </div>
+      </div>
+      <div className="p-2 bg-white">
+        <VirtualList items={items} height={160} />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end gap-2">{actions}</div>
+
+      {/* Statistics Summary Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 flex items-center gap-3">
+            <stat.icon className={`w-6 h-6 ${stat.color}`} />
+            <div>
+              <div className="text-2xl font-bold text-slate-700 font-display">{stat.value.toLocaleString()}</div>
+              <div className="text-xs text-slate-400 uppercase tracking-widest font-semibold">{stat.label}</div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Column and key warnings */}
+      {(result.columnsOnlyA.length > 0 || result.columnsOnlyB.length > 0 || result.duplicateKeys.length > 0) && (
+        <div className="p-3 bg-amber-50 text-amber-800 text-xs rounded-lg border border-amber-100 space-y-1">
+          {result.columnsOnlyA.length > 0 && (
+            <p className="flex items-center gap-2"><AlertTriangle className="w-3.5 h-3.5" /> Only in table A (not compared): {result.columnsOnlyA.join(', ')}</p>
+          )}
+          {result.columnsOnlyB.length > 0 && (
+            <p className="flex items-center gap-2"><AlertTriangle className="w-3.5 h-3.5" /> Only in table B (not compared): {result.columnsOnlyB.join(', ')}</p>
+          )}
+          {result.duplicateKeys.length > 0 && (
+            <p className="flex items-center gap-2">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              {result.duplicateKeys.length} repeated {result.keyColumn} value{result.duplicateKeys.length === 1 ? '' : 's'}; the first row was used (e.g. {result.duplicateKeys.slice(0, 3).join(', ')})
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Modified rows: key list on the left, field-by-field detail on the right */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-4 py-3 bg-amber-50 border-b border-amber-100 flex justify-between items-center">
+          <h4 className="text-sm font-bold text-amber-900 flex items-center gap-2 font-display">
+            <FilePen className="w-4 h-4" /> Modified Rows
+          </h4>
+          <div className="flex items-center gap-2">
+            <SendToMenu getItems={() => keys.modified} onSend={onSendTo} exclude={ViewMode.COMPARATOR} />
+            <span className="bg-white text-amber-700 text-xs font-bold px-2 py-0.5 rounded border border-amber-200">{result.modified.length}</span>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-5">
+          <div className="md:col-span-2 p-2 border-b md:border-b-0 md:border-r border-slate-100">
+            <VirtualList
+              items={keys.modified}
+              height={256}
+              emptyText="No modified rows"
+              renderItem={(key, index) => (
+                <button
+                  onClick={() => setSelected(index)}
+                  className={`flex items-center justify-between gap-2 w-full min-w-0 text-left ${index === selected ? 'font-bold text-amber-900' : ''}`}
+                >
+                  <span className="truncate" title={key}>{key}</span>
+                  <span className="text-xs text-slate-400 shrink-0">{result.modified[index].changed.length} field{result.modified[index].changed.length === 1 ? '' : 's'}</span>
+                </button>
+              )}
+            />
+          </div>
+          <div className="md:col-span-3 p-4 overflow-x-auto">
+            {record ? (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-400 uppercase tracking-wide">
+                    <th className="pb-2 pr-4 font-semibold">Field</th>
+                    <th className="pb-2 pr-4 font-semibold">Before</th>
+                    <th className="pb-2 font-semibold">After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-t border-slate-100">
+                    <td className="py-1.5 pr-4 font-medium text-slate-500">{result.keyColumn}</td>
+                    <td colSpan={2} className="py-1.5 font-mono text-slate-700">{record.key}</td>
+                  </tr>
+                  {result.columns.map((column, i) => {
+                    const changed = record.changed.includes(i);
+                    return (
+                      <tr key={column} className={`border-t border-slate-100 ${changed ? 'bg-amber-50' : ''}`}>
+                        <td className={`py-1.5 pr-4 font-medium ${changed ? 'text-amber-900' : 'text-slate-500'}`}>{column}</td>
+                        <td className={`py-1.5 pr-4 font-mono break-all ${changed ? 'text-rose-700 line-through' : 'text-slate-600'}`}>{record.before[i]}</td>
+                        <td className={`py-1.5 font-mono break-all ${changed ? 'text-teal-700 font-bold' : 'text-slate-600'}`}>{record.after[i]}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-slate-400 text-center py-12">Every row with a matching key is unchanged.</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Added and Removed Rows */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {keyPanel(`Added (${result.keyColumn})`, keys.added, 'teal')}
+        {keyPanel(`Removed (${result.keyColumn})`, keys.removed, 'rose')}
+      </div>
+    </div>
+  );
+};
+
+// Export RecordDiffView component
+export default RecordDiffView;
@@ -0,0 +1,67 @@
+// Import React and hooks for the dropdown state and outside-click handling
+import React, { useState, useRef, useEffect } from 'react';
+// Import the history entry type
+import { HistoryEntry } from '../types';
+// Import icons for the menu
+import { History, ChevronDown } from 'lucide-react';
+
+// Define the interface for props accepted by RunHistory
+interface RunHistoryProps<T extends HistoryEntry> {
+  entries: T[];                      // Past runs of the current tool, newest first
+  onRestore: (entry: T) => void;     // Called when the user picks a past run
+}
+
+// "History" dropdown listing a tool's past runs in the active workspace
+const RunHistory = <T extends HistoryEntry>({ entries, onRestore }: RunHistoryProps<T>) => {
+  // State for whether the dropdown is open
+  const [open, setOpen] = useState(false);
+  // Ref to the wrapper so clicks outside can close the menu
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the dropdown when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  // Restore the chosen run and close the menu
+  const handleRestore = (entry: T) => {
+    onRestore(entry);
+    setOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} className="relative inline-block">
+      {/* Menu Toggle Button */}
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={entries.length === 0}
+        className="px-3 py-1.5 text-xs font-medium bg-white border border-slate-200 text-slate-700 rounded-lg hover:bg-slate-50 hover:border-teal-300 transition-colors flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <History className="w-3.5 h-3.5 text-teal-600" /> History ({entries.length}) <ChevronDown className="w-3 h-3" />
+      </button>
+      {/* Past Runs */}
+      {open && (
+        <div className="absolute right-0 mt-1 w-72 max-h-72 overflow-y-auto bg-white border border-slate-200 rounded-lg shadow-lg z-20 py-1 animate-fade-in">
+          {entries.map(entry => (
+            <button
+              key={entry.id}
+              onClick={() => handleRestore(entry)}
+              className="w-full text-left px-3 py-2 text-xs text-slate-700 hover:bg-teal-50 hover:text-teal-800"
+            >
+              <div className="font-medium truncate">{entry.summary}</div>
+              <div className="font-mono text-[10px] text-slate-400">{new Date(entry.createdAt).toLocaleString()}</div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Export RunHistory component
+export default RunHistory;
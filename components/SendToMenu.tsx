@@ -0,0 +1,103 @@
+// Import React and hooks for the dropdown state and outside-click handling
+import React, { useState, useRef, useEffect } from 'react';
+// Import the handoff target type and tool identifiers
+import { SendTarget, ViewMode } from '../types';
+// Import icons for the menu
+import { Send, ChevronDown } from 'lucide-react';
+
+// Every place a result list can be sent to
+export const SEND_TARGETS: SendTarget[] = [
+  { view: ViewMode.ANALYZER, field: 'inputText', sourceField: 'source', label: 'Data Analyzer' },
+  { view: ViewMode.COMPARATOR, field: 'listA', sourceField: 'sourceA', label: 'Comparator · List A' },
+  { view: ViewMode.COMPARATOR, field: 'listB', sourceField: 'sourceB', label: 'Comparator · List B' },
+  { view: ViewMode.BATCHER, field: 'inputText', sourceField: 'source', label: 'Batch Processor' },
+  { view: ViewMode.TOPICS, field: 'inputText', sourceField: 'source', label: 'AI Clustering' },
+  { view: ViewMode.PIPELINE, field: 'inputText', sourceField: 'source', label: 'Pipeline Builder' },
+];
+
+// Define the interface for props accepted by SendToMenu
+interface SendToMenuProps {
+  getItems: () => string[];                             // Lines to send (called only when a target is picked)
+  onSend: (target: SendTarget, items: string[]) => void; // Handoff provided by App
+  exclude?: ViewMode;                                   // Hide targets of the tool the list belongs to
+}
+
+// Width of the dropdown in pixels, used to right-align it under the button
+const MENU_WIDTH = 192;
+
+// "Send to…" dropdown that pipes a result list into another tool's input
+const SendToMenu: React.FC<SendToMenuProps> = ({ getItems, onSend, exclude }) => {
+  // Screen position of the open dropdown (null when closed)
+  const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
+  // Refs to the button and menu so clicks outside can close it
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the dropdown when clicking elsewhere or scrolling (it is fixed-positioned)
+  useEffect(() => {
+    if (!position) return;
+    const handleClick = (e: MouseEvent) => {
+      const target = e.target as Node;
+      if (!menuRef.current?.contains(target) && !buttonRef.current?.contains(target)) setPosition(null);
+    };
+    const handleScroll = (e: Event) => {
+      if (!menuRef.current?.contains(e.target as Node)) setPosition(null);
+    };
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('scroll', handleScroll, true);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('scroll', handleScroll, true);
+    };
+  }, [position]);
+
+  // Open below the button; fixed positioning escapes panels with overflow-hidden
+  const toggle = () => {
+    if (position || !buttonRef.current) {
+      setPosition(null);
+      return;
+    }
+    const rect = buttonRef.current.getBoundingClientRect();
+    setPosition({ top: rect.bottom + 4, left: Math.max(8, rect.right - MENU_WIDTH) });
+  };
+
+  // Hand the lines to the chosen tool and close the menu
+  const handleSend = (target: SendTarget) => {
+    onSend(target, getItems());
+    setPosition(null);
+  };
+
+  return (
+    <>
+      {/* Menu Toggle Button */}
+      <button
+        ref={buttonRef}
+        onClick={toggle}
+        className="px-2 py-1 text-xs font-medium bg-white border border-slate-200 text-slate-700 rounded-lg hover:bg-slate-50 hover:border-teal-300 transition-colors flex items-center gap-1"
+      >
+        <Send className="w-3 h-3 text-teal-600" /> Send to <ChevronDown className="w-3 h-3" />
+      </button>
+      {/* Target Tools */}
+      {position && (
+        <div
+          ref={menuRef}
+          style={{ top: position.top, left: position.left, width: MENU_WIDTH }}
+          className="fixed bg-white border border-slate-200 rounded-lg shadow-lg z-40 py-1 animate-fade-in"
+        >
+          {SEND_TARGETS.filter(target => target.view !== exclude).map(target => (
+            <button
+              key={`${target.view}-${target.field}`}
+              onClick={() => handleSend(target)}
+              className="w-full text-left px-3 py-2 text-xs text-slate-700 hover:bg-teal-50 hover:text-teal-800"
+            >
+              {target.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+// Export SendToMenu component
+export default SendToMenu;
@@ -0,0 +1,118 @@
+// Import React for component creation
+import React from 'react';
+// Import table type definitions
+import { TableSource } from '../types';
+// Import the CSV/TSV parser helpers
+import { DELIMITER_LABELS, columnValues, parseTable, setHeaderRow } from '../services/csvService';
+// Import icons for the picker UI
+import { Table2, X } from 'lucide-react';
+
+// Define the interface for props accepted by TableImport
+interface TableImportProps {
+  source: TableSource | null;                  // Currently imported table and selected column
+  onSourceChange: (source: TableSource | null) => void; // Called when a table is imported, re-configured or cleared
+  onText: (text: string) => void;              // Called with the tool's new input lines (plain file or chosen column)
+}
+
+// File input that understands CSV/TSV: shows a column picker and keeps the whole table for export
+const TableImport: React.FC<TableImportProps> = ({ source, onSourceChange, onText }) => {
+  // Push a new table/column selection up and replace the tool's input with that column
+  const applySource = (next: TableSource) => {
+    onSourceChange(next);
+    onText(columnValues(next.table, next.column).join('\n'));
+  };
+
+  // Function to handle file uploads via the file input
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Get the first file selected by the user
+    const file = e.target.files?.[0];
+    // If no file selected, exit
+    if (!file) return;
+    // Allow re-selecting the same file later
+    e.target.value = '';
+
+    // Create a FileReader to read the file content
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      // Cast the result to a string
+      const text = event.target?.result as string;
+      if (/\.(csv|tsv)$/i.test(file.name)) {
+        // Structured file: parse it and start with the first column selected
+        applySource({ table: parseTable(text, file.name), column: 0 });
+      } else {
+        // Plain text file: one entry per line, no table kept
+        onSourceChange(null);
+        onText(text);
+      }
+    };
+    // Trigger the file read as plain text
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block">
+        <span className="sr-only">Choose File</span>
+        {/* File Input for uploading text or CSV/TSV files */}
+        <input
+          type="file"
+          accept=".txt,.csv,.tsv"
+          onChange={handleFileUpload}
+          className="block w-full text-xs text-slate-500
+            file:mr-4 file:py-2.5 file:px-4
+            file:rounded-md file:border-0
+            file:text-xs file:font-semibold
+            file:bg-slate-100 file:text-slate-700
+            hover:file:bg-slate-200 cursor-pointer"
+        />
+      </label>
+
+      {/* Column picker, shown once a table has been imported */}
+      {source && (
+        <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs font-bold text-slate-700 flex items-center gap-1.5 truncate">
+              <Table2 className="w-3.5 h-3.5 text-teal-600 flex-shrink-0" />
+              <span className="truncate" title={source.table.fileName}>{source.table.fileName}</span>
+            </span>
+            {/* Clear Button: keep the text, forget the table */}
+            <button
+              onClick={() => onSourceChange(null)}
+              title="Detach table"
+              className="text-slate-400 hover:text-rose-500 transition-colors"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          {/* Parse summary */}
+          <p className="text-[10px] text-slate-500 font-mono">
+            {source.table.rows.length.toLocaleString()} rows · {source.table.headers.length} columns · {source.table.delimiter ? `${DELIMITER_LABELS[source.table.delimiter] || source.table.delimiter} separated` : 'not delimited'}
+          </p>
+          {/* Column selector */}
+          <select
+            value={source.column}
+            onChange={(e) => applySource({ ...source, column: parseInt(e.target.value) })}
+            className="w-full px-2 py-1.5 text-xs border border-slate-200 rounded-md bg-white text-slate-700 focus:ring-2 focus:ring-teal-500 outline-none"
+          >
+            {source.table.headers.map((header, i) => (
+              <option key={i} value={i}>{header}</option>
+            ))}
+          </select>
+          {/* Header row toggle */}
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={source.table.hasHeader}
+              onChange={(e) => applySource({ ...source, table: setHeaderRow(source.table, e.target.checked) })}
+              className="w-3.5 h-3.5 text-teal-600 rounded focus:ring-teal-500 border-slate-300"
+            />
+            <span className="text-[10px] font-medium text-slate-600">First row is a header</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Export TableImport component
+export default TableImport;
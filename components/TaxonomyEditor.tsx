@@ -0,0 +1,143 @@
+// Import React and the state hook for the saved list
+import React, { useState } from 'react';
+// Import taxonomy types
+import { Taxonomy, TaxonomyCategory } from '../types';
+// Import taxonomy storage and validation helpers
+import { createTaxonomyCategory, deleteTaxonomy, listTaxonomies, saveTaxonomy, taxonomyError } from '../services/taxonomyService';
+// Import the name of the catch-all bucket shown under the categories
+import { TAXONOMY_OTHER } from '../core';
+// Import icons for the header and row actions
+import { ListTree, Plus, Save, Trash2 } from 'lucide-react';
+
+// Define the interface for props accepted by TaxonomyEditor
+interface TaxonomyEditorProps {
+  taxonomy: Taxonomy;                     // Taxonomy being edited
+  onChange: (taxonomy: Taxonomy) => void; // Callback with the updated taxonomy
+  disabled?: boolean;                     // Locks editing while a run is in progress
+}
+
+// Shared classes for the small text inputs
+const INPUT_CLASS = "w-full px-2 py-1.5 text-xs border border-slate-200 rounded-lg text-slate-700 outline-none focus:ring-2 focus:ring-teal-500 disabled:bg-slate-50";
+
+// Editor for a fixed category taxonomy: names, descriptions and example titles, saved by name
+const TaxonomyEditor: React.FC<TaxonomyEditorProps> = ({ taxonomy, onChange, disabled = false }) => {
+  // State for the saved taxonomies list
+  const [taxonomies, setTaxonomies] = useState<Taxonomy[]>(listTaxonomies);
+  // Why the current taxonomy cannot be used yet, if anything
+  const problem = taxonomyError(taxonomy);
+
+  // Replace one category row
+  const updateCategory = (index: number, changes: Partial<TaxonomyCategory>) =>
+    onChange({ ...taxonomy, categories: taxonomy.categories.map((c, i) => (i === index ? { ...c, ...changes } : c)) });
+
+  // Remove one category row
+  const removeCategory = (index: number) =>
+    onChange({ ...taxonomy, categories: taxonomy.categories.filter((_, i) => i !== index) });
+
+  return (
+    <div className="space-y-3">
+      {/* Section Header */}
+      <label className="text-xs font-bold text-slate-500 uppercase tracking-wide flex items-center gap-2">
+        <ListTree className="w-3 h-3 text-teal-600" /> Taxonomy
+      </label>
+
+      {/* Name and Save */}
+      <div className="flex gap-2">
+        <input
+          value={taxonomy.name}
+          onChange={(e) => onChange({ ...taxonomy, name: e.target.value })}
+          placeholder="Taxonomy name"
+          disabled={disabled}
+          className={`flex-1 min-w-0 ${INPUT_CLASS}`}
+        />
+        <button
+          onClick={() => setTaxonomies(saveTaxonomy(taxonomy))}
+          disabled={disabled || !taxonomy.name.trim() || !!problem}
+          title="Save taxonomy"
+          className="px-3 py-1.5 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Saved Taxonomies */}
+      {taxonomies.length > 0 && (
+        <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+          {taxonomies.map(saved => (
+            <li key={saved.name} className="flex items-center gap-2 px-3 py-2 text-xs">
+              <button
+                onClick={() => onChange(saved)}
+                disabled={disabled}
+                className="flex-1 text-left font-medium text-slate-700 hover:text-teal-700 truncate"
+              >
+                {saved.name}
+              </button>
+              <span className="text-slate-400 font-mono">{saved.categories.length} categories</span>
+              <button onClick={() => setTaxonomies(deleteTaxonomy(saved.name))} title="Delete taxonomy" className="text-slate-400 hover:text-rose-500">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Category Rows */}
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {taxonomy.categories.map((category, index) => (
+          <div key={index} className="p-2 border border-slate-200 rounded-lg bg-slate-50/50 space-y-1.5">
+            <div className="flex gap-2">
+              <input
+                value={category.name}
+                onChange={(e) => updateCategory(index, { name: e.target.value })}
+                placeholder="Category name"
+                disabled={disabled}
+                className={`flex-1 min-w-0 font-medium ${INPUT_CLASS}`}
+              />
+              <button
+                onClick={() => removeCategory(index)}
+                disabled={disabled}
+                title="Remove category"
+                className="text-slate-400 hover:text-rose-500 disabled:opacity-50"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <input
+              value={category.description}
+              onChange={(e) => updateCategory(index, { description: e.target.value })}
+              placeholder="Description (optional)"
+              disabled={disabled}
+              className={INPUT_CLASS}
+            />
+            {/* One example title per line */}
+            <textarea
+              value={category.examples.join('\n')}
+              onChange={(e) => updateCategory(index, { examples: e.target.value.split('\n') })}
+              placeholder="Example titles, one per line (optional)"
+              rows={2}
+              disabled={disabled}
+              className={`resize-y font-mono ${INPUT_CLASS}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* Add Category */}
+      <button
+        onClick={() => onChange({ ...taxonomy, categories: [...taxonomy.categories, createTaxonomyCategory()] })}
+        disabled={disabled}
+        className="w-full px-3 py-1.5 text-xs font-medium bg-white border border-dashed border-slate-300 text-slate-600 rounded-lg hover:border-teal-300 hover:text-teal-700 transition-colors flex items-center justify-center gap-1.5 disabled:opacity-50"
+      >
+        <Plus className="w-3.5 h-3.5" /> Add Category
+      </button>
+
+      {/* Validation message, or a reminder of the catch-all bucket */}
+      <p className={`text-xs ${problem ? 'text-rose-600' : 'text-slate-400'}`}>
+        {problem ?? `Titles that fit none of these go to "${TAXONOMY_OTHER}".`}
+      </p>
+    </div>
+  );
+};
+
+// Export TaxonomyEditor component
+export default TaxonomyEditor;
@@ -1,42 +1,142 @@
 // Import React and hooks for state management
-import React, { useState } from 'react';
-// Import the categorizeTitles service function for API calls
-import { categorizeTitles } from '../services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+// Import the categorizeTitles service function for API calls and its chunk size
+import { AI_CHUNK_SIZE, categorizeSteps, categorizeTitles } from '../services/aiService';
+// Import the check for incomplete AI settings
+import { aiSettingsError } from '../services/aiProviders';
+// Import the taxonomy defaults and check, and the taxonomy editor
+import { cleanTaxonomy, createTaxonomy, taxonomyError } from '../services/taxonomyService';
+import TaxonomyEditor from './TaxonomyEditor';
+// Import the cancellation error and the progress bar shared with the background engine
+import { JobCancelledError } from '../services/engineService';
+import JobProgress from './JobProgress';
+// Import the background worker hook used by offline clustering
+import { useEngineJob } from '../hooks/useEngineJob';
+// Import the shared line splitter
+import { splitLines } from '../core';
 // Import type definition for TopicCategory
-import { TopicCategory } from '../types';
+import { AISettings, CategoryCoverage, SendTarget, TableSource, Taxonomy, TopicCategory, ViewMode } from '../types';
+// Import the file input with CSV/TSV column picker
+import TableImport from './TableImport';
+// Import the shared Export menu and the category sheet builder
+import ExportMenu from './ExportMenu';
+import { categorySheets } from '../services/exportService';
+// Import the shared windowed list for category contents
+import VirtualList from './VirtualList';
+// Import workspace autosave and the run history menu
+import { useWorkspaceTool } from '../context/WorkspaceContext';
+import RunHistory from './RunHistory';
+// Import the cross-tool "Send to…" menu
+import SendToMenu from './SendToMenu';
 // Import icons from Lucide React
-import { Sparkles, Play, Copy, Folder, Tag, AlertTriangle, Key } from 'lucide-react';
+import { Sparkles, Play, Copy, Folder, Tag, AlertTriangle, Key, ShieldCheck, Cpu, Cloud } from 'lucide-react';
 
 // Define the interface for props accepted by TopicSorter
 interface TopicSorterProps {
-  apiKey: string;          // The API key passed from App state
+  aiSettings: AISettings;  // The AI provider settings passed from App state
   onOpenSettings: () => void; // Callback function to open settings modal
+  onSendTo: (target: SendTarget, items: string[]) => void; // Pipes a category into another tool
 }
 
+// How titles are grouped: the configured AI provider, or keyword clustering that runs entirely in the browser
+type SortMethod = 'ai' | 'offline';
+
+// Inputs autosaved to the active workspace
+type TopicSorterState = {
+  inputText: string;
+  source: TableSource | null;
+  method: SortMethod;
+  clusterCount: number; // Topics for offline clustering; 0 picks the number automatically
+  useTaxonomy: boolean;  // AI runs assign titles only to the taxonomy's categories
+  taxonomy: Taxonomy;    // Taxonomy being edited
+};
+
 // Define TopicSorter component with props destructuring
-const TopicSorter: React.FC<TopicSorterProps> = ({ apiKey, onOpenSettings }) => {
+const TopicSorter: React.FC<TopicSorterProps> = ({ aiSettings, onOpenSettings, onSendTo }) => {
+  // Saved state, autosave and past runs from the active workspace
+  const { saved, save, recordRun, history } = useWorkspaceTool<TopicSorterState>(ViewMode.TOPICS);
   // State for raw input text
-  const [inputText, setInputText] = useState('');
-  // State for storing categorization results
-  const [categories, setCategories] = useState<TopicCategory[]>([]);
+  const [inputText, setInputText] = useState(saved.inputText ?? '');
+  // State for an imported CSV/TSV table and the column being categorized
+  const [source, setSource] = useState<TableSource | null>(saved.source ?? null);
+  // State for storing categorization results (restored from the latest run)
+  const [categories, setCategories] = useState<TopicCategory[]>(history[0]?.result ?? []);
+  // State for the check of the latest run against its input titles (not kept in run history)
+  const [coverage, setCoverage] = useState<CategoryCoverage | null>(null);
   // State for tracking loading status during API call
   const [loading, setLoading] = useState(false);
   // State for tracking errors
   const [error, setError] = useState<string | null>(null);
+  // Completed and total requests of the running categorization (chunks, then reconciliation)
+  const [steps, setSteps] = useState({ done: 0, total: 0 });
+  // Aborts the running categorization
+  const abortRef = useRef<AbortController | null>(null);
+  // State for the grouping method and the number of offline topics (0 = automatic)
+  const [method, setMethod] = useState<SortMethod>(saved.method ?? 'ai');
+  const [clusterCount, setClusterCount] = useState(saved.clusterCount ?? 0);
+  // State for the fixed taxonomy and whether AI runs use it
+  const [useTaxonomy, setUseTaxonomy] = useState(saved.useTaxonomy ?? false);
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(saved.taxonomy ?? createTaxonomy);
+  // Background worker job state for offline clustering
+  const { run, cancel, running, progress } = useEngineJob();
+  // Whether either kind of run is in progress
+  const busy = loading || running;
+  // Why the AI provider cannot run yet, or null when it can
+  const settingsError = aiSettingsError(aiSettings);
+
+  // Autosave inputs whenever they change
+  useEffect(() => {
+    save({ inputText, source, method, clusterCount, useTaxonomy, taxonomy });
+  }, [save, inputText, source, method, clusterCount, useTaxonomy, taxonomy]);
+
+  // Abort a running categorization when the view unmounts (e.g. remounted by "Send to")
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Group the titles by shared keywords in the worker; no key or network needed
+  const handleCluster = () => {
+    const titles = splitLines(inputText);
+    if (titles.length < 2) {
+      setError("Please enter at least 2 titles to categorize.");
+      return;
+    }
+    setError(null);
+    setCategories([]);
+    setCoverage(null);
+    run('cluster', { text: inputText, k: clusterCount })
+      .then(result => {
+        setCategories(result);
+        // Keep the run in the workspace history
+        recordRun({
+          tool: ViewMode.TOPICS,
+          summary: `${titles.length.toLocaleString()} titles · ${result.length} offline clusters`,
+          result,
+        });
+      })
+      .catch(err => {
+        // A cancelled run is expected; anything else is shown to the user
+        if (!(err instanceof JobCancelledError)) setError(err instanceof Error ? err.message : String(err));
+      });
+  };
 
   // Handle the logic when "Sort" is clicked
   const handleSort = async () => {
     // If input is empty, do nothing
     if (!inputText.trim()) return;
     // Check if API key is present
-    if (!apiKey) {
-      // Set error message prompting user to add key
-      setError("Please add your Gemini API Key in settings first.");
+    if (settingsError) {
+      // Set error message prompting user to complete the settings
+      setError(settingsError);
       // Open the settings modal automatically
       onOpenSettings();
       // Exit function
       return;
     }
+    // An enabled taxonomy must be complete before it can guide the run
+    const taxonomyProblem = useTaxonomy ? taxonomyError(taxonomy) : null;
+    if (taxonomyProblem) {
+      setError(taxonomyProblem);
+      return;
+    }
     
     // Set loading state to true
     setLoading(true);
@@ -44,26 +144,46 @@ const TopicSorter: React.FC<TopicSorterProps> = ({ apiKey, onOpenSettings }) =>
     setError(null);
     // Clear previous results
     setCategories([]);
+    setCoverage(null);
+    // Reset progress until the first request completes
+    setSteps({ done: 0, total: categorizeSteps(splitLines(inputText).length, useTaxonomy) });
 
     // Try block for async operation
     try {
       // Split input text into array of strings
-      const titles = inputText.split(/\n/).map(l => l.trim()).filter(l => l);
+      const titles = splitLines(inputText);
       // Validate that there are enough titles
       if (titles.length < 2) {
         throw new Error("Please enter at least 2 titles to categorize.");
       }
       
-      // Call the service to get categorized data
-      const result = await categorizeTitles(titles, apiKey);
-      // Update state with result categories
+      // Call the service to get categorized data; long lists are sent in chunks
+      const controller = new AbortController();
+      abortRef.current = controller;
+      const result = await categorizeTitles(titles, aiSettings, {
+        signal: controller.signal,
+        onProgress: (done, total) => setSteps({ done, total }),
+        taxonomy: useTaxonomy ? cleanTaxonomy(taxonomy).categories : undefined,
+      });
+      // A run aborted on unmount must not reach the results or the history
+      if (controller.signal.aborted) return;
+      // Update state with result categories and their coverage check
       setCategories(result.categories);
+      setCoverage(result.coverage ?? null);
+      // Keep the run in the workspace history
+      recordRun({
+        tool: ViewMode.TOPICS,
+        summary: `${titles.length.toLocaleString()} titles · ${result.categories.length} categories${
+          useTaxonomy ? ` · ${taxonomy.name.trim() || 'taxonomy'}` : ''}`,
+        result: result.categories,
+      });
     } catch (err: any) {
-      // Catch and set any errors that occur
-      setError(err.message || "Failed to categorize titles.");
+      // A cancelled run is expected; anything else is shown to the user
+      if (!(err instanceof JobCancelledError)) setError(err.message || "Failed to categorize titles.");
     } finally {
       // Set loading to false regardless of success/failure
       setLoading(false);
+      abortRef.current = null;
     }
   };
 
@@ -92,133 +212,262 @@ const TopicSorter: React.FC<TopicSorterProps> = ({ apiKey, onOpenSettings }) =>
         </div>
       </div>
 
-      {/* Conditional Rendering: Check if API Key exists */}
-      {!apiKey ? (
-        // UI State: No API Key - Show warning/prompt
-        <div className="flex flex-col items-center justify-center p-12 bg-white rounded-xl border border-dashed border-slate-300 text-center space-y-4">
-          <div className="w-16 h-16 bg-slate-50 rounded-full flex items-center justify-center">
-            <Key className="w-8 h-8 text-slate-400" />
-          </div>
-          <div>
-            <h3 className="text-lg font-bold text-slate-800 font-display">API Key Required</h3>
-            <p className="text-slate-500 max-w-md mt-2 text-sm">
-              To use the AI features, you need to provide your own API key. Your key is stored locally on your device.
-            </p>
-          </div>
-          {/* Button to open settings */}
-          <button
-            onClick={onOpenSettings}
-            className="px-6 py-2 bg-teal-600 text-white font-medium rounded-lg hover:bg-teal-700 transition-colors shadow-lg shadow-teal-600/10"
-          >
-            Configure API Key
-          </button>
+      {/* Tool interface; the AI method asks for settings only when they are incomplete */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Input Column */}
+        <div className="lg:col-span-1 space-y-4">
+           <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+             {/* Method picker: AI provider or offline keyword clustering */}
+             <div className="grid grid-cols-2 gap-1 p-1 mb-4 bg-slate-100 rounded-lg">
+               {([
+                 { id: 'ai', label: 'AI Provider', icon: Cloud },
+                 { id: 'offline', label: 'Offline', icon: Cpu },
+               ] as const).map(option => (
+                 <button
+                   key={option.id}
+                   onClick={() => setMethod(option.id)}
+                   disabled={busy}
+                   className={`py-1.5 text-xs font-bold rounded-md flex items-center justify-center gap-1.5 transition-all ${
+                     method === option.id ? 'bg-white text-teal-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                   }`}
+                 >
+                   <option.icon className="w-3.5 h-3.5" /> {option.label}
+                 </button>
+               ))}
+             </div>
+             {/* Incomplete AI settings: point to the settings and the offline method instead of blocking the tool */}
+             {method === 'ai' && settingsError && (
+               <div className="mb-4 p-3 bg-amber-50 border border-amber-100 rounded-lg text-xs text-amber-800 space-y-2">
+                 <div className="flex items-start gap-2">
+                   <Key className="w-4 h-4 flex-shrink-0" />
+                   <span>{settingsError} Your key is stored locally on your device. No key or network? Use the Offline method.</span>
+                 </div>
+                 <button onClick={onOpenSettings} className="font-bold text-amber-900 hover:underline">
+                   Configure AI Provider
+                 </button>
+               </div>
+             )}
+             {/* Number of offline topics; blank or 0 chooses it from the data */}
+             {method === 'offline' && (
+               <div className="mb-4">
+                 <label className="block text-xs font-bold text-slate-500 mb-1">Number of Topics</label>
+                 <input
+                   type="number"
+                   min={0}
+                   max={200}
+                   value={clusterCount || ''}
+                   placeholder="Auto"
+                   onChange={(e) => setClusterCount(Math.max(0, Math.min(200, parseInt(e.target.value, 10) || 0)))}
+                   disabled={busy}
+                   className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                 />
+               </div>
+             )}
+             <label className="block text-sm font-bold text-slate-700 mb-2 font-display">Unsorted Titles</label>
+             {/* Textarea for titles */}
+             <textarea
+                className="w-full h-96 p-4 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent resize-none font-mono text-slate-700 bg-slate-50/50"
+                placeholder="Enter a list of mixed titles..."
+                value={inputText}
+                onChange={(e) => setInputText(e.target.value)}
+                disabled={busy} // Disable while loading
+              />
+              {/* File Input for text files, with a column picker for CSV/TSV */}
+              <div className="mt-2">
+                <TableImport source={source} onSourceChange={setSource} onText={setInputText} />
+              </div>
+              <div className="mt-4">
+                  {/* Trigger Button */}
+                  <button
+                    onClick={method === 'offline' ? handleCluster : handleSort}
+                    disabled={busy || !inputText.trim()} // Disable logic
+                    className={`w-full py-3 rounded-lg font-medium text-white shadow-lg shadow-teal-600/10 flex items-center justify-center gap-2 transition-all ${
+                      busy 
+                      ? 'bg-teal-400 cursor-wait' 
+                      : 'bg-teal-600 hover:bg-teal-700'
+                    }`}
+                  >
+                    {/* Show spinner or icon based on loading state */}
+                    {busy ? (
+                      <>
+                         <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                         Sorting...
+                      </>
+                    ) : (
+                      <>
+                        <Play className="w-4 h-4 fill-current" />
+                        {method === 'offline' ? 'Run Offline Cluster' : 'Run Auto-Sort'}
+                      </>
+                    )}
+                  </button>
+                <p className="text-xs text-slate-400 mt-2 text-center">
+                  {method === 'offline'
+                    ? '* Titles are grouped by shared keywords on this device and named after their top keywords'
+                    : `* Lists over ${AI_CHUNK_SIZE} titles are sorted in chunks and merged into one set of categories`}
+                </p>
+              </div>
+           </div>
+
+           {/* Fixed taxonomy for AI runs, so categories keep the same names from run to run */}
+           {method === 'ai' && (
+             <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-3">
+               <label className="flex items-center gap-2 cursor-pointer">
+                 <input
+                   type="checkbox"
+                   checked={useTaxonomy}
+                   onChange={(e) => setUseTaxonomy(e.target.checked)}
+                   disabled={busy}
+                   className="w-4 h-4 text-teal-600 rounded focus:ring-teal-500 border-slate-300"
+                 />
+                 <span className="text-sm font-bold text-slate-700 font-display">Use a Fixed Taxonomy</span>
+               </label>
+               {useTaxonomy ? (
+                 <TaxonomyEditor taxonomy={taxonomy} onChange={setTaxonomy} disabled={busy} />
+               ) : (
+                 <p className="text-xs text-slate-400">The AI names its own categories on every run.</p>
+               )}
+             </div>
+           )}
         </div>
-      ) : (
-        // UI State: API Key Exists - Show main tool interface
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          {/* Input Column */}
-          <div className="lg:col-span-1 space-y-4">
-             <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
-               <label className="block text-sm font-bold text-slate-700 mb-2 font-display">Unsorted Titles</label>
-               {/* Textarea for titles */}
-               <textarea
-                  className="w-full h-96 p-4 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent resize-none font-mono text-slate-700 bg-slate-50/50"
-                  placeholder="Enter a list of mixed titles..."
-                  value={inputText}
-                  onChange={(e) => setInputText(e.target.value)}
-                  disabled={loading} // Disable while loading
-                />
-                <div className="mt-4">
-                    {/* Trigger Button */}
-                    <button
-                      onClick={handleSort}
-                      disabled={loading || !inputText.trim()} // Disable logic
-                      className={`w-full py-3 rounded-lg font-medium text-white shadow-lg shadow-teal-600/10 flex items-center justify-center gap-2 transition-all ${
-                        loading 
-                        ? 'bg-teal-400 cursor-wait' 
-                        : 'bg-teal-600 hover:bg-teal-700'
-                      }`}
-                    >
-                      {/* Show spinner or icon based on loading state */}
-                      {loading ? (
-                        <>
-                           <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                           Sorting...
-                        </>
-                      ) : (
-                        <>
-                          <Play className="w-4 h-4 fill-current" />
-                          Run Auto-Sort
-                        </>
-                      )}
-                    </button>
-                  <p className="text-xs text-slate-400 mt-2 text-center">
-                    * Limited to approx 500 items per batch
-                  </p>
-                </div>
+
+        {/* Results Column */}
+        <div className="lg:col-span-2 space-y-4">
+          {/* Progress while chunks are categorized, with a cancel button */}
+          {loading && (
+            <JobProgress
+              progress={steps.total > 0 ? steps.done / steps.total : 0}
+              label={steps.total > 1
+                ? `Categorizing... ${steps.done} of ${steps.total} requests done`
+                : 'Categorizing...'}
+              onCancel={() => abortRef.current?.abort()}
+            />
+          )}
+          {running && (
+            <JobProgress progress={progress} label="Clustering by keywords..." onCancel={cancel} />
+          )}
+
+          {/* Error Message Display */}
+          {error && (
+            <div className="p-4 bg-rose-50 text-rose-700 rounded-xl border border-rose-100 flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5" />
+              {error}
+            </div>
+          )}
+
+          {/* Placeholder Empty State */}
+          {!busy && categories.length === 0 && !error && (
+             <div className="h-full min-h-[400px] flex flex-col items-center justify-center bg-white rounded-xl border border-dashed border-slate-300 text-slate-400">
+                <Folder className="w-16 h-16 mb-4 opacity-10" />
+                <p className="font-medium">Categorized groups will appear here</p>
              </div>
-          </div>
+          )}
 
-          {/* Results Column */}
-          <div className="lg:col-span-2 space-y-4">
-            {/* Error Message Display */}
-            {error && (
-              <div className="p-4 bg-rose-50 text-rose-700 rounded-xl border border-rose-100 flex items-center gap-2">
-                <AlertTriangle className="w-5 h-5" />
-                {error}
-              </div>
-            )}
+          {/* Export all categories */}
+          {(categories.length > 0 || history.length > 0) && (
+            <div className="flex justify-end gap-2">
+              <RunHistory entries={history} onRestore={(entry) => { setCategories(entry.result); setCoverage(null); }} />
+              <ExportMenu disabled={categories.length === 0} getSheets={() => categorySheets(categories, source)} baseName="horizon_categories" />
+            </div>
+          )}
 
-            {/* Placeholder Empty State */}
-            {!loading && categories.length === 0 && !error && (
-               <div className="h-full min-h-[400px] flex flex-col items-center justify-center bg-white rounded-xl border border-dashed border-slate-300 text-slate-400">
-                  <Folder className="w-16 h-16 mb-4 opacity-10" />
-                  <p className="font-medium">Categorized groups will appear here</p>
-               </div>
-            )}
-
-            {/* Category Cards Grid */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {/* Map through generated categories */}
-              {categories.map((cat, idx) => (
-                <div key={idx} className="bg-white rounded-xl shadow-sm border border-slate-200 flex flex-col hover:shadow-md transition-shadow group">
-                  {/* Card Header */}
-                  <div className="px-4 py-3 border-b border-slate-50 flex justify-between items-center bg-slate-50/30 group-hover:bg-teal-50/30 transition-colors">
-                    <div className="flex items-center gap-2 overflow-hidden">
-                      <Tag className="w-4 h-4 text-teal-500 flex-shrink-0" />
-                      {/* Category Name */}
-                      <h3 className="font-bold text-slate-800 truncate font-display" title={cat.name}>{cat.name}</h3>
-                    </div>
-                    {/* Item Count Badge */}
-                    <span className="text-xs font-mono bg-white border border-slate-200 text-slate-600 px-2 py-0.5 rounded-full font-bold">
-                      {cat.items.length}
-                    </span>
-                  </div>
-                  {/* Card Body - List of items */}
-                  <div className="p-3 flex-1">
-                    <ul className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
-                      {cat.items.map((item, i) => (
-                        <li key={i} className="text-sm text-slate-600 pl-2 border-l-2 border-slate-100 hover:border-teal-300 transition-colors truncate">
-                          {item}
-                        </li>
-                      ))}
-                    </ul>
+          {/* Coverage summary: how the reply was matched back to the input titles */}
+          {coverage && (
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-3">
+              <div className="flex items-center gap-2 text-sm font-bold text-slate-700 font-display">
+                <ShieldCheck className="w-4 h-4 text-teal-600" />
+                Coverage: {(coverage.totalTitles - coverage.unassigned.length).toLocaleString()} of {coverage.totalTitles.toLocaleString()} titles categorized
+                <span className="font-mono text-teal-600">
+                  ({coverage.totalTitles > 0 ? Math.round(((coverage.totalTitles - coverage.unassigned.length) / coverage.totalTitles) * 100) : 100}%)
+                </span>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-center">
+                {[
+                  { label: 'Exact', value: coverage.exact, tone: 'text-teal-700' },
+                  { label: 'Reworded', value: coverage.reworded.length, tone: 'text-slate-700' },
+                  { label: 'Uncategorized', value: coverage.unassigned.length, tone: coverage.unassigned.length ? 'text-amber-700' : 'text-slate-700' },
+                  { label: 'Hallucinated', value: coverage.hallucinated.length, tone: coverage.hallucinated.length ? 'text-rose-700' : 'text-slate-700' },
+                  { label: 'Duplicates', value: coverage.duplicates.length, tone: 'text-slate-700' },
+                ].map(stat => (
+                  <div key={stat.label} className="p-2 bg-slate-50 rounded-lg border border-slate-100">
+                    <div className={`text-lg font-bold font-mono ${stat.tone}`}>{stat.value.toLocaleString()}</div>
+                    <div className="text-[10px] uppercase font-bold tracking-wide text-slate-500">{stat.label}</div>
                   </div>
-                  {/* Card Footer - Copy Button */}
-                  <div className="p-2 border-t border-slate-50 bg-slate-50/30">
-                    <button 
-                      onClick={() => copyCategory(cat.items)}
-                      className="w-full text-xs text-slate-500 hover:text-teal-600 font-medium py-1.5 flex items-center justify-center gap-1 hover:bg-white rounded transition-all"
-                    >
-                      <Copy className="w-3 h-3" /> Copy List
-                    </button>
+                ))}
+              </div>
+              {/* Details of everything that was not an exact match */}
+              {coverage.reworded.length > 0 && (
+                <details className="text-xs text-slate-600">
+                  <summary className="cursor-pointer font-medium">Reworded items matched back to the input ({coverage.reworded.length})</summary>
+                  <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+                    {coverage.reworded.map((match, i) => (
+                      <li key={i} className="font-mono truncate" title={`${match.a} → ${match.b}`}>
+                        <span className="text-slate-400 line-through">{match.a}</span> → {match.b}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+              {coverage.hallucinated.length > 0 && (
+                <details className="text-xs text-slate-600">
+                  <summary className="cursor-pointer font-medium">Returned items not in the input, dropped ({coverage.hallucinated.length})</summary>
+                  <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+                    {coverage.hallucinated.map((item, i) => <li key={i} className="font-mono truncate" title={item}>{item}</li>)}
+                  </ul>
+                </details>
+              )}
+              {coverage.duplicates.length > 0 && (
+                <details className="text-xs text-slate-600">
+                  <summary className="cursor-pointer font-medium">Returned more than once, extra copies dropped ({coverage.duplicates.length})</summary>
+                  <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+                    {coverage.duplicates.map((item, i) => <li key={i} className="font-mono truncate" title={item}>{item}</li>)}
+                  </ul>
+                </details>
+              )}
+            </div>
+          )}
+
+          {/* Category Cards Grid */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {/* Map through generated categories */}
+            {categories.map((cat, idx) => (
+              <div key={idx} className="bg-white rounded-xl shadow-sm border border-slate-200 flex flex-col hover:shadow-md transition-shadow group">
+                {/* Card Header */}
+                <div className="px-4 py-3 border-b border-slate-50 flex justify-between items-center bg-slate-50/30 group-hover:bg-teal-50/30 transition-colors">
+                  <div className="flex items-center gap-2 overflow-hidden">
+                    <Tag className="w-4 h-4 text-teal-500 flex-shrink-0" />
+                    {/* Category Name */}
+                    <h3 className="font-bold text-slate-800 truncate font-display" title={cat.name}>{cat.name}</h3>
                   </div>
+                  {/* Item Count Badge */}
+                  <span className="text-xs font-mono bg-white border border-slate-200 text-slate-600 px-2 py-0.5 rounded-full font-bold">
+                    {cat.items.length}
+                  </span>
                 </div>
-              ))}
-            </div>
+                {/* Card Body - List of items */}
+                <div className="p-3 flex-1">
+                  {/* Windowed list with filter and keyboard navigation */}
+                  <VirtualList
+                    items={cat.items}
+                    renderItem={(item) => (
+                      <span className="pl-2 border-l-2 border-slate-100 truncate" title={item}>{item}</span>
+                    )}
+                  />
+                </div>
+                {/* Card Footer - Copy and Send Buttons */}
+                <div className="p-2 border-t border-slate-50 bg-slate-50/30 flex items-center gap-2">
+                  <button 
+                    onClick={() => copyCategory(cat.items)}
+                    className="flex-1 text-xs text-slate-500 hover:text-teal-600 font-medium py-1.5 flex items-center justify-center gap-1 hover:bg-white rounded transition-all"
+                  >
+                    <Copy className="w-3 h-3" /> Copy List
+                  </button>
+                  <SendToMenu getItems={() => cat.items} onSend={onSendTo} exclude={ViewMode.TOPICS} />
+                </div>
+              </div>
+            ))}
           </div>
         </div>
-      )}
+      </div>
     </div>
   );
 };
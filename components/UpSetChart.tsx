@@ -0,0 +1,72 @@
+// Import React for the chart layout
+import React from 'react';
+// Import the N-way comparison result contract
+import { MultiComparisonResult } from '../types';
+
+// Define the interface for props accepted by UpSetChart
+interface UpSetChartProps {
+  result: MultiComparisonResult;        // Comparison of four or more lists
+  colors: string[];                     // Colour per list
+  selected: number | null;              // Highlighted region mask
+  onSelect: (mask: number) => void;     // Called when a region column is clicked
+}
+
+// Largest number of region columns drawn; the region list below the chart still shows every region
+const MAX_COLUMNS = 30;
+// Height of the tallest bar in pixels
+const BAR_HEIGHT = 120;
+
+// UpSet-style chart: one bar per region, with a dot matrix showing which lists make up the region
+const UpSetChart: React.FC<UpSetChartProps> = ({ result, colors, selected, onSelect }) => {
+  // Regions arrive largest first
+  const columns = result.regions.slice(0, MAX_COLUMNS);
+  const largest = columns[0]?.items.length || 1;
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-flex flex-col min-w-full">
+        {/* Region size bars */}
+        <div className="flex items-end">
+          <div className="w-36 shrink-0" />
+          {columns.map(region => (
+            <button
+              key={region.mask}
+              onClick={() => onSelect(region.mask)}
+              style={{ height: BAR_HEIGHT + 16 }}
+              className={`w-7 shrink-0 flex flex-col items-center justify-end rounded-t ${selected === region.mask ? 'bg-slate-100' : 'hover:bg-slate-50'}`}
+              title={`${region.items.length.toLocaleString()} items`}
+            >
+              <span className="text-[9px] font-mono text-slate-500">{region.items.length}</span>
+              <span className="w-3 bg-slate-700 rounded-t-sm" style={{ height: Math.max(2, (region.items.length / largest) * BAR_HEIGHT) }} />
+            </button>
+          ))}
+        </div>
+        {/* One matrix row per list: name, set size and membership dots */}
+        {result.lists.map((list, i) => (
+          <div key={i} className={`flex items-center h-6 ${i % 2 ? '' : 'bg-slate-50'}`}>
+            <div className="w-36 shrink-0 flex items-center justify-end gap-2 pr-3 text-xs">
+              <span className="truncate text-slate-700 font-medium" title={list.name}>{list.name}</span>
+              <span className="font-mono text-slate-400">{list.total.toLocaleString()}</span>
+            </div>
+            {columns.map(region => (
+              <div key={region.mask} className={`w-7 shrink-0 h-full flex items-center justify-center ${selected === region.mask ? 'bg-slate-100' : ''}`}>
+                <span
+                  className={`w-2.5 h-2.5 rounded-full ${region.mask & (1 << i) ? '' : 'bg-slate-200'}`}
+                  style={region.mask & (1 << i) ? { backgroundColor: colors[i] } : undefined}
+                />
+              </div>
+            ))}
+          </div>
+        ))}
+        {result.regions.length > MAX_COLUMNS && (
+          <p className="text-xs text-slate-400 mt-2">
+            Showing the {MAX_COLUMNS} largest of {result.regions.length} regions.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Export UpSetChart component
+export default UpSetChart;
@@ -0,0 +1,65 @@
+// Import React for the SVG diagram
+import React from 'react';
+// Import the N-way comparison result contract
+import { MultiComparisonResult } from '../types';
+
+// Define the interface for props accepted by VennDiagram
+interface VennDiagramProps {
+  result: MultiComparisonResult;        // Comparison of exactly three lists
+  colors: string[];                     // Colour per list
+  selected: number | null;              // Highlighted region mask
+  onSelect: (mask: number) => void;     // Called when a region count is clicked
+}
+
+// Circle centres and radius inside the 300x270 viewBox
+const CIRCLES = [{ x: 110, y: 100 }, { x: 190, y: 100 }, { x: 150, y: 170 }];
+const RADIUS = 80;
+// Label position of each region, keyed by mask (bit i = list i)
+const REGION_POSITIONS: Record<number, { x: number; y: number }> = {
+  1: { x: 80, y: 85 },
+  2: { x: 220, y: 85 },
+  4: { x: 150, y: 205 },
+  3: { x: 150, y: 75 },
+  5: { x: 110, y: 150 },
+  6: { x: 190, y: 150 },
+  7: { x: 150, y: 123 },
+};
+// Name label positions just outside each circle
+const NAME_POSITIONS = [{ x: 60, y: 14 }, { x: 240, y: 14 }, { x: 150, y: 264 }];
+
+// Three-circle Venn diagram with a clickable count in each of the seven regions
+const VennDiagram: React.FC<VennDiagramProps> = ({ result, colors, selected, onSelect }) => {
+  // Region sizes by mask (empty regions are not in the result)
+  const counts = new Map(result.regions.map(region => [region.mask, region.items.length]));
+
+  return (
+    <svg viewBox="0 0 300 270" className="w-full max-w-sm mx-auto">
+      {/* Translucent circles, one per list */}
+      {CIRCLES.map((circle, i) => (
+        <circle key={i} cx={circle.x} cy={circle.y} r={RADIUS} fill={colors[i]} fillOpacity={0.12} stroke={colors[i]} strokeWidth={2} />
+      ))}
+      {/* List names */}
+      {NAME_POSITIONS.map((pos, i) => (
+        <text key={i} x={pos.x} y={pos.y} textAnchor="middle" className="text-[11px] font-bold" fill={colors[i]}>
+          {result.lists[i].name.length > 18 ? `${result.lists[i].name.slice(0, 17)}…` : result.lists[i].name}
+        </text>
+      ))}
+      {/* Region counts */}
+      {Object.entries(REGION_POSITIONS).map(([key, pos]) => {
+        const mask = Number(key);
+        const count = counts.get(mask) || 0;
+        return (
+          <g key={mask} onClick={() => count && onSelect(mask)} className={count ? 'cursor-pointer' : ''}>
+            {selected === mask && <circle cx={pos.x} cy={pos.y - 4} r={16} fill="#1e293b" fillOpacity={0.1} />}
+            <text x={pos.x} y={pos.y} textAnchor="middle" className="text-[13px] font-bold" fill={count ? '#334155' : '#cbd5e1'}>
+              {count.toLocaleString()}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+// Export VennDiagram component
+export default VennDiagram;
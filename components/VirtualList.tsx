@@ -0,0 +1,151 @@
+// Import React and hooks for state, refs and memoized filtering
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+// Import icon for the search box
+import { Search } from 'lucide-react';
+
+// Define the interface for props accepted by VirtualList
+interface VirtualListProps {
+  items: string[];                                           // Full list of rows (may be tens of thousands)
+  rowHeight?: number;                                        // Fixed height of each row in pixels
+  height?: number;                                           // Maximum height of the scrolling viewport in pixels
+  searchable?: boolean;                                      // Show the search-as-you-type filter box
+  emptyText?: string;                                        // Message shown when nothing matches
+  renderItem?: (item: string, index: number) => React.ReactNode; // Custom row content; index is the position in `items`
+}
+
+// Number of extra rows rendered above and below the visible window to avoid flicker while scrolling
+const OVERSCAN = 6;
+
+// Windowed list: only the rows inside the viewport are mounted, so the DOM stays small for huge lists
+const VirtualList: React.FC<VirtualListProps> = ({
+  items,
+  rowHeight = 28,
+  height = 192,
+  searchable = true,
+  emptyText = 'None found',
+  renderItem,
+}) => {
+  // State for the filter text
+  const [query, setQuery] = useState('');
+  // State for the current scroll offset of the viewport
+  const [scrollTop, setScrollTop] = useState(0);
+  // State for the keyboard-highlighted row (position within the filtered rows)
+  const [activeRow, setActiveRow] = useState(-1);
+  // Ref to the scrolling viewport element
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  // Indices (into `items`) of the rows matching the filter
+  const matches = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const result: number[] = [];
+    items.forEach((item, i) => {
+      if (!q || item.toLowerCase().includes(q)) result.push(i);
+    });
+    return result;
+  }, [items, query]);
+
+  // Reset scroll position and highlight whenever the visible rows change
+  useEffect(() => {
+    setActiveRow(-1);
+    setScrollTop(0);
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+  }, [matches]);
+
+  // Shrink the viewport for short lists, capped at the maximum height
+  const viewportHeight = Math.min(height, Math.max(1, matches.length) * rowHeight);
+  // Range of rows to render
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN);
+  const end = Math.min(matches.length, Math.ceil((scrollTop + viewportHeight) / rowHeight) + OVERSCAN);
+
+  // Scroll the viewport just enough to bring a row into view
+  const scrollToRow = (row: number) => {
+    const el = viewportRef.current;
+    if (!el) return;
+    const top = row * rowHeight;
+    if (top < el.scrollTop) el.scrollTop = top;
+    else if (top + rowHeight > el.scrollTop + viewportHeight) el.scrollTop = top + rowHeight - viewportHeight;
+  };
+
+  // Keyboard navigation: arrows, page up/down, home/end move the highlight
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (matches.length === 0) return;
+    const page = Math.max(1, Math.floor(viewportHeight / rowHeight));
+    let next = activeRow;
+    switch (e.key) {
+      case 'ArrowDown': next = activeRow + 1; break;
+      case 'ArrowUp': next = activeRow - 1; break;
+      case 'PageDown': next = activeRow + page; break;
+      case 'PageUp': next = activeRow - page; break;
+      case 'Home': next = 0; break;
+      case 'End': next = matches.length - 1; break;
+      default: return;
+    }
+    // Home/End inside the search box should keep moving the text cursor
+    if ((e.key === 'Home' || e.key === 'End') && e.target instanceof HTMLInputElement) return;
+    e.preventDefault();
+    next = Math.min(matches.length - 1, Math.max(0, next));
+    setActiveRow(next);
+    scrollToRow(next);
+  };
+
+  return (
+    <div onKeyDown={handleKeyDown}>
+      {/* Search-as-you-type filter */}
+      {searchable && (
+        <div className="relative mb-2">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={`Filter ${items.length.toLocaleString()} items...`}
+            className="w-full pl-7 pr-2 py-1.5 text-xs border border-slate-200 rounded-md bg-slate-50 text-slate-700 focus:ring-2 focus:ring-teal-500 outline-none"
+          />
+          {/* Match count while filtering */}
+          {query && (
+            <span className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] font-mono text-slate-400">
+              {matches.length.toLocaleString()}
+            </span>
+          )}
+        </div>
+      )}
+
+      {matches.length === 0 ? (
+        <span className="text-xs text-slate-400 italic p-2 block">{emptyText}</span>
+      ) : (
+        // Scrolling viewport; focusable so the arrow keys work without the search box
+        <div
+          ref={viewportRef}
+          tabIndex={0}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          className="overflow-y-auto custom-scrollbar outline-none focus:ring-2 focus:ring-teal-500/30 rounded"
+          style={{ height: viewportHeight }}
+        >
+          {/* Spacer with the full height so the scrollbar reflects the whole list */}
+          <div className="relative" style={{ height: matches.length * rowHeight }}>
+            {matches.slice(start, end).map((itemIndex, offset) => {
+              const row = start + offset;
+              return (
+                <div
+                  key={itemIndex}
+                  onClick={() => setActiveRow(row)}
+                  className={`absolute left-0 right-0 flex items-center px-1 text-sm text-slate-600 ${
+                    row === activeRow ? 'bg-teal-50 text-teal-900' : 'hover:bg-slate-50'
+                  }`}
+                  style={{ top: row * rowHeight, height: rowHeight }}
+                >
+                  {renderItem ? renderItem(items[itemIndex], itemIndex) : (
+                    <span className="truncate" title={items[itemIndex]}>{items[itemIndex]}</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Export VirtualList component
+export default VirtualList;
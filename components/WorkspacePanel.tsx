@@ -0,0 +1,117 @@
+// Import React and hooks for the inline rename state
+import React, { useState } from 'react';
+// Import the workspace context
+import { useWorkspace } from '../context/WorkspaceContext';
+// Import icons for the workspace actions
+import { FolderOpen, Plus, Pencil, Copy, Trash2, Check } from 'lucide-react';
+
+// Sidebar section listing saved workspaces with open, rename, duplicate and delete actions
+const WorkspacePanel: React.FC<{ onOpen?: () => void }> = ({ onOpen }) => {
+  // Workspace list and actions from the provider
+  const { workspaces, active, createWorkspace, openWorkspace, renameWorkspace, duplicateWorkspace, deleteWorkspace } = useWorkspace();
+  // Id of the workspace currently being renamed (null when not editing)
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // Text in the rename input
+  const [draftName, setDraftName] = useState("");
+
+  // Begin renaming a workspace
+  const startRename = (id: string, name: string) => {
+    setEditingId(id);
+    setDraftName(name);
+  };
+
+  // Commit the rename and leave edit mode
+  const submitRename = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (editingId) await renameWorkspace(editingId, draftName);
+    setEditingId(null);
+  };
+
+  // Confirm before deleting, since history cannot be recovered
+  const handleDelete = (id: string, name: string) => {
+    if (window.confirm(`Delete workspace "${name}" and its history?`)) deleteWorkspace(id);
+  };
+
+  // Open a workspace and let the parent close the mobile menu
+  const handleOpen = (id: string) => {
+    openWorkspace(id);
+    if (onOpen) onOpen();
+  };
+
+  return (
+    <div className="mt-6">
+      {/* Section Header with New Workspace button */}
+      <div className="flex items-center justify-between px-4 py-2 mb-1">
+        <span className="text-[10px] font-bold text-slate-600 uppercase tracking-widest font-display">
+          Workspaces
+        </span>
+        <button
+          onClick={createWorkspace}
+          title="New workspace"
+          className="text-slate-500 hover:text-teal-400 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Workspace List */}
+      <div className="space-y-0.5">
+        {workspaces.map(workspace => {
+          const isActive = workspace.id === active?.id;
+          return (
+            <div
+              key={workspace.id}
+              className={`group flex items-center gap-2 px-4 py-2 rounded-lg text-xs transition-colors ${
+                isActive ? "bg-slate-800 text-teal-300" : "text-slate-400 hover:bg-slate-800/50 hover:text-slate-200"
+              }`}
+            >
+              <FolderOpen className={`w-3.5 h-3.5 flex-shrink-0 ${isActive ? "text-teal-400" : "text-slate-600"}`} />
+              {editingId === workspace.id ? (
+                // Inline rename form
+                <form onSubmit={submitRename} className="flex-1 flex items-center gap-1 min-w-0">
+                  <input
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={() => submitRename()}
+                    onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                    autoFocus
+                    className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-1.5 py-0.5 text-slate-100 outline-none focus:border-teal-500"
+                  />
+                  <button type="submit" className="text-teal-400">
+                    <Check className="w-3.5 h-3.5" />
+                  </button>
+                </form>
+              ) : (
+                <>
+                  {/* Workspace Name (click to open) */}
+                  <button
+                    onClick={() => handleOpen(workspace.id)}
+                    title={`Last saved ${new Date(workspace.updatedAt).toLocaleString()}`}
+                    className="flex-1 text-left truncate font-medium"
+                  >
+                    {workspace.name}
+                  </button>
+                  {/* Hover Actions */}
+                  <div className="hidden group-hover:flex items-center gap-1.5 text-slate-500">
+                    <button onClick={() => startRename(workspace.id, workspace.name)} title="Rename" className="hover:text-slate-200">
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                    <button onClick={() => duplicateWorkspace(workspace.id)} title="Duplicate" className="hover:text-slate-200">
+                      <Copy className="w-3 h-3" />
+                    </button>
+                    <button onClick={() => handleDelete(workspace.id, workspace.name)} title="Delete" className="hover:text-rose-400">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+// Export WorkspacePanel component
+export default WorkspacePanel;
@@ -0,0 +1,245 @@
+// Import React and hooks for context, state, refs and lifecycle
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+// Import workspace and history type definitions
+import { HistoryEntry, ViewMode, Workspace, WorkspaceSummary } from '../types';
+// Import the IndexedDB persistence layer
+import {
+  ACTIVE_WORKSPACE_KEY,
+  HISTORY_LIMIT_PER_TOOL,
+  createId,
+  deleteWorkspace as removeWorkspace,
+  getWorkspace,
+  listWorkspaces,
+  newWorkspace,
+  saveWorkspace,
+} from '../services/workspaceService';
+
+// Delay before pending changes are written to IndexedDB
+const AUTOSAVE_DELAY_MS = 500;
+
+// A history entry before the provider assigns its id and timestamp
+type WithoutMeta<E> = E extends unknown ? Omit<E, 'id' | 'createdAt'> : never;
+type NewHistoryEntry = WithoutMeta<HistoryEntry>;
+
+// Interface for everything the workspace context exposes
+interface WorkspaceContextValue {
+  workspaces: WorkspaceSummary[];                     // All saved workspaces for the sidebar
+  active: Workspace | null;                           // The open workspace (null while loading)
+  createWorkspace: () => Promise<void>;               // Create and open a blank workspace
+  openWorkspace: (id: string) => Promise<void>;       // Switch to another workspace
+  renameWorkspace: (id: string, name: string) => Promise<void>;
+  duplicateWorkspace: (id: string) => Promise<void>;  // Copy a workspace (inputs and history) and open the copy
+  deleteWorkspace: (id: string) => Promise<void>;     // Delete; opens another workspace if the active one is removed
+  getToolState: (tool: ViewMode) => Record<string, unknown>; // Latest saved inputs/settings for a tool
+  saveToolState: (tool: ViewMode, state: Record<string, unknown>) => void; // Autosave (debounced)
+  recordRun: (entry: NewHistoryEntry) => void;        // Add a finished run to the history
+  patchToolState: (tool: ViewMode, patch: Record<string, unknown>) => void; // Merge into a tool's saved state
+}
+
+// The React context object (undefined outside the provider)
+const WorkspaceContext = createContext<WorkspaceContextValue | undefined>(undefined);
+
+// Provider that loads workspaces from IndexedDB and autosaves tool state
+export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // State for the sidebar listing
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  // State for the open workspace (drives re-renders for name and history)
+  const [active, setActive] = useState<Workspace | null>(null);
+  // Ref holding the newest version of the open workspace; tool autosaves update it without re-rendering
+  const activeRef = useRef<Workspace | null>(null);
+  // Pending autosave timer
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Refresh the sidebar listing from the database
+  const refreshList = useCallback(async () => {
+    setWorkspaces(await listWorkspaces());
+  }, []);
+
+  // Write the open workspace to IndexedDB now
+  const flush = useCallback(async () => {
+    if (saveTimer.current) {
+      clearTimeout(saveTimer.current);
+      saveTimer.current = null;
+    }
+    const workspace = activeRef.current;
+    if (!workspace) return;
+    try {
+      await saveWorkspace(workspace);
+      setActive(workspace);
+      await refreshList();
+    } catch (error) {
+      console.error("Failed to save workspace:", error);
+    }
+  }, [refreshList]);
+
+  // Schedule a write after the user pauses
+  const scheduleSave = useCallback(() => {
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(flush, AUTOSAVE_DELAY_MS);
+  }, [flush]);
+
+  // Make a workspace the open one (in memory and in localStorage)
+  const activate = useCallback((workspace: Workspace) => {
+    activeRef.current = workspace;
+    setActive(workspace);
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, workspace.id);
+  }, []);
+
+  // Initial load: open the last used workspace, or create the first one
+  useEffect(() => {
+    (async () => {
+      try {
+        const lastId = localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+        const list = await listWorkspaces();
+        let workspace = lastId ? await getWorkspace(lastId) : undefined;
+        if (!workspace && list.length > 0) workspace = await getWorkspace(list[0].id);
+        if (!workspace) {
+          workspace = newWorkspace("My Workspace");
+          await saveWorkspace(workspace);
+        }
+        activate(workspace);
+        await refreshList();
+      } catch (error) {
+        // IndexedDB unavailable (e.g. private browsing): keep working in memory only
+        console.error("Workspace storage unavailable:", error);
+        activate(newWorkspace("Temporary Workspace"));
+      }
+    })();
+  }, [activate, refreshList]);
+
+  // Save pending changes when the tab is hidden or closed
+  useEffect(() => {
+    const handleHide = () => {
+      if (document.visibilityState === 'hidden' && saveTimer.current) flush();
+    };
+    document.addEventListener('visibilitychange', handleHide);
+    return () => document.removeEventListener('visibilitychange', handleHide);
+  }, [flush]);
+
+  // Switch workspaces, saving the current one first
+  const openWorkspace = useCallback(async (id: string) => {
+    if (activeRef.current?.id === id) return;
+    await flush();
+    const workspace = await getWorkspace(id);
+    if (workspace) activate(workspace);
+  }, [flush, activate]);
+
+  // Create and open a blank workspace
+  const createWorkspace = useCallback(async () => {
+    await flush();
+    const workspace = newWorkspace(`Workspace ${workspaces.length + 1}`);
+    await saveWorkspace(workspace);
+    activate(workspace);
+    await refreshList();
+  }, [flush, activate, refreshList, workspaces.length]);
+
+  // Rename any workspace
+  const renameWorkspace = useCallback(async (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (activeRef.current?.id === id) {
+      activeRef.current = { ...activeRef.current, name: trimmed, updatedAt: Date.now() };
+      await flush();
+      return;
+    }
+    const workspace = await getWorkspace(id);
+    if (!workspace) return;
+    await saveWorkspace({ ...workspace, name: trimmed, updatedAt: Date.now() });
+    await refreshList();
+  }, [flush, refreshList]);
+
+  // Copy a workspace with a new id and open the copy
+  const duplicateWorkspace = useCallback(async (id: string) => {
+    await flush();
+    const original = await getWorkspace(id);
+    if (!original) return;
+    const now = Date.now();
+    const copy: Workspace = { ...original, id: createId(), name: `${original.name} (copy)`, createdAt: now, updatedAt: now };
+    await saveWorkspace(copy);
+    activate(copy);
+    await refreshList();
+  }, [flush, activate, refreshList]);
+
+  // Delete a workspace; if it was open, open the next one (or a fresh one)
+  const deleteWorkspace = useCallback(async (id: string) => {
+    await removeWorkspace(id);
+    if (activeRef.current?.id === id) {
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+      saveTimer.current = null;
+      const remaining = await listWorkspaces();
+      let next = remaining.length > 0 ? await getWorkspace(remaining[0].id) : undefined;
+      if (!next) {
+        next = newWorkspace("My Workspace");
+        await saveWorkspace(next);
+      }
+      activate(next);
+    }
+    await refreshList();
+  }, [activate, refreshList]);
+
+  // Read a tool's latest saved state (from the ref, so it includes unsaved changes)
+  const getToolState = useCallback((tool: ViewMode) => activeRef.current?.tools[tool] || {}, []);
+
+  // Replace a tool's saved state and autosave
+  const saveToolState = useCallback((tool: ViewMode, state: Record<string, unknown>) => {
+    const workspace = activeRef.current;
+    if (!workspace) return;
+    activeRef.current = { ...workspace, updatedAt: Date.now(), tools: { ...workspace.tools, [tool]: state } };
+    scheduleSave();
+  }, [scheduleSave]);
+
+  // Merge fields into a tool's saved state and autosave
+  const patchToolState = useCallback((tool: ViewMode, patch: Record<string, unknown>) => {
+    saveToolState(tool, { ...getToolState(tool), ...patch });
+  }, [saveToolState, getToolState]);
+
+  // Add a run to the history (newest first), trimming old runs of the same tool
+  const recordRun = useCallback((entry: NewHistoryEntry) => {
+    const workspace = activeRef.current;
+    if (!workspace) return;
+    const full = { ...entry, id: createId(), createdAt: Date.now() } as HistoryEntry;
+    let sameTool = 0;
+    const history = [full, ...workspace.history].filter(h => h.tool !== full.tool || ++sameTool <= HISTORY_LIMIT_PER_TOOL);
+    activeRef.current = { ...workspace, updatedAt: Date.now(), history };
+    // History changes are shown in the UI, so re-render now and save right away
+    setActive(activeRef.current);
+    flush();
+  }, [flush]);
+
+  return (
+    <WorkspaceContext.Provider value={{
+      workspaces,
+      active,
+      createWorkspace,
+      openWorkspace,
+      renameWorkspace,
+      duplicateWorkspace,
+      deleteWorkspace,
+      getToolState,
+      saveToolState,
+      patchToolState,
+      recordRun,
+    }}>
+      {children}
+    </WorkspaceContext.Provider>
+  );
+};
+
+// Hook to access the workspace context
+export const useWorkspace = (): WorkspaceContextValue => {
+  const context = useContext(WorkspaceContext);
+  if (!context) throw new Error("useWorkspace must be used inside a WorkspaceProvider");
+  return context;
+};
+
+// Hook for tools: the saved state at mount time, an autosave function, and the tool's past runs
+export const useWorkspaceTool = <T extends Record<string, unknown>>(tool: ViewMode) => {
+  const { getToolState, saveToolState, recordRun, active } = useWorkspace();
+  // Snapshot the saved state once, when the tool mounts
+  const [saved] = useState(() => getToolState(tool) as Partial<T>);
+  // Stable autosave callback for this tool
+  const save = useCallback((state: T) => saveToolState(tool, state), [saveToolState, tool]);
+  // Past runs for this tool, newest first
+  const history = (active?.history || []).filter(entry => entry.tool === tool);
+  return { saved, save, recordRun, history };
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { batch, formatSetText, getAlphaLabel, getSetLabel } from './batch';
+
+const itemsOf = (result: ReturnType<typeof batch>) => result.sets.map(set => set.items);
+
+describe('batch', () => {
+  it('returns no sets for empty or whitespace-only input', () => {
+    expect(batch('', 'size', 10)).toEqual({ sets: [], totalItems: 0 });
+    expect(batch('  \r\n\t\r\n', 'count', 3)).toEqual({ sets: [], totalItems: 0 });
+  });
+
+  it('fills sets of a fixed size, ignoring CRLF endings and blank lines', () => {
+    expect(itemsOf(batch('a\r\nb\r\n  \r\nc\r\nd\r\ne', 'size', 2))).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+  });
+
+  it('treats a value below 1 as 1', () => {
+    expect(itemsOf(batch('a\nb', 'size', 0))).toEqual([['a'], ['b']]);
+  });
+
+  it('balances set sizes to within one item', () => {
+    expect(itemsOf(batch('1\n2\n3\n4\n5\n6\n7', 'balanced', 3)).map(set => set.length)).toEqual([3, 2, 2]);
+  });
+
+  it('deals items round-robin and never creates empty sets', () => {
+    expect(itemsOf(batch('1\n2\n3', 'roundRobin', 5))).toEqual([['1'], ['2'], ['3']]);
+  });
+
+  it('shuffles reproducibly for the same seed', () => {
+    const text = Array.from({ length: 50 }, (_, i) => `t${i}`).join('\n');
+    const first = itemsOf(batch(text, 'shuffle', 10, { seed: 7 }));
+    expect(itemsOf(batch(text, 'shuffle', 10, { seed: 7 }))).toEqual(first);
+    expect(first.flat().sort()).toEqual(text.split('\n').sort());
+  });
+
+  it('splits at blank lines or marker lines', () => {
+    expect(itemsOf(batch('a\r\nb\r\n\r\n\r\nc', 'marker', 0))).toEqual([['a', 'b'], ['c']]);
+    expect(itemsOf(batch('a\n---\nb', 'marker', 0, { marker: '---' }))).toEqual([['a'], ['b']]);
+  });
+
+  it('keeps items with the same key together', () => {
+    const result = batch('x-1\ny-1\nx-2\ny-2', 'group', 2, { keyPattern: '^(\\w)-' });
+    expect(itemsOf(result)).toEqual([['x-1', 'x-2'], ['y-1', 'y-2']]);
+    expect(() => batch('a', 'group', 2, { keyPattern: '(' })).toThrow('Invalid key pattern');
+  });
+
+  it('reports usage for budget sets', () => {
+    const result = batch('aaaa\nbb\ncc\ndddddd', 'budget', 6);
+    expect(itemsOf(result)).toEqual([['aaaa', 'bb'], ['cc'], ['dddddd']]);
+    expect(result.sets.map(set => set.usage)).toEqual([6, 2, 6]);
+    expect(result.budget).toEqual({ unit: 'chars', limit: 6 });
+  });
+
+  it('puts an item larger than the budget in a set of its own', () => {
+    const result = batch('aa\nbbbbbbbbbb\ncc\nddd', 'budget', 5, { binPacking: true });
+    expect(itemsOf(result)).toEqual([['aa', 'ddd'], ['bbbbbbbbbb'], ['cc']]);
+    expect(result.sets.map(set => set.usage)).toEqual([5, 10, 2]);
+  });
+
+  it('packs many budget items into the first set with room', () => {
+    const lines = Array.from({ length: 20_000 }, (_, i) => 'x'.repeat(1 + (i * 7919) % 50));
+    const result = batch(lines, 'budget', 100, { binPacking: true });
+    const total = lines.reduce((sum, line) => sum + line.length, 0);
+    expect(result.sets.every(set => set.usage! <= 100)).toBe(true);
+    expect(result.sets.length).toBeLessThanOrEqual(Math.ceil(total / 100) + 1);
+    expect(result.totalItems).toBe(20_000);
+  });
+
+  it('keeps the input line position of every item', () => {
+    const marker = batch('a\n\n---\nb\n c ', 'marker', 0, { marker: '---' });
+    expect(marker.sets.map(set => set.sourceLines)).toEqual([[0], [2, 3]]);
+    const shuffled = batch('a\na\nb\nc\nd', 'shuffle', 2, { seed: 3 });
+    shuffled.sets.forEach(set => set.sourceLines!.forEach((line, i) => expect(['a', 'a', 'b', 'c', 'd'][line]).toBe(set.items[i])));
+    expect(shuffled.sets.flatMap(set => set.sourceLines).sort()).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('handles large inputs', () => {
+    const lines = Array.from({ length: 200_000 }, (_, i) => `line ${i}`);
+    const result = batch(lines, 'size', 1000);
+    expect(result.sets).toHaveLength(200);
+    expect(result.totalItems).toBe(200_000);
+    expect(result.sets[199].items[999]).toBe('line 199999');
+  });
+});
+
+describe('getAlphaLabel', () => {
+  it('counts like spreadsheet columns past "Z"', () => {
+    expect([0, 1, 25, 26, 27, 51, 52, 701, 702, 18_277].map(getAlphaLabel))
+      .toEqual(['A', 'B', 'Z', 'AA', 'AB', 'AZ', 'BA', 'ZZ', 'AAA', 'ZZZ']);
+  });
+
+  it('labels sets by the naming scheme', () => {
+    expect(getSetLabel({ id: 26, items: [] }, 'alpha')).toBe('Set AA');
+    expect(getSetLabel({ id: 26, items: [] }, 'numeric')).toBe('Set 27');
+  });
+});
+
+describe('formatSetText', () => {
+  const set = { id: 1, items: ['x', 'y'] };
+
+  it('numbers items across sets', () => {
+    expect(formatSetText(set, { offset: 10, totalItems: 12 }, { useIndexing: true, prefix: '' })).toBe('11. x\n12. y');
+  });
+
+  it('writes header, items and footer from a template', () => {
+    const template = { header: '# {setAlpha} ({count}/{total})', item: '{index:03} {item|upper}', footer: '' };
+    expect(formatSetText(set, { offset: 0, totalItems: 2 }, { useIndexing: false, prefix: '', template }))
+      .toBe('# B (2/2)\n001 X\n002 Y');
+  });
+});
@@ -0,0 +1,398 @@
+// Import the shared result contracts and settings types
+import { BatchResult, BatchSet, BudgetUnit, NamingScheme, SplitMode } from "../types";
+// Import the line splitting and progress helpers
+import { PROGRESS_STEP, ProgressCallback, toLines } from "./lines";
+// Import the template renderer used for custom set output
+import { TemplateValues, renderTemplate } from "./template";
+// Import the seeded generator used by the shuffled split mode
+import { seededRandom } from "./random";
+
+// Custom output template for a set: an optional header line, one line per item and an optional footer line
+export interface SetTemplate {
+  header: string; // e.g. "## Set {set} ({count} items)"
+  item: string;   // e.g. "{index:03}. {item}"
+  footer: string; // e.g. "-- end of {setAlpha} --"
+}
+
+// Options controlling how set lines are written out
+export interface SetFormatOptions {
+  useIndexing: boolean; // Prefix every line with its running number ("11. ")
+  prefix: string;       // Optional text placed before every item
+  template?: SetTemplate | null; // Custom template; replaces useIndexing and prefix when set
+}
+
+// Where a set sits in the full result, for numbering and template placeholders
+export interface SetContext {
+  offset: number;     // Number of items in all earlier sets
+  totalItems: number; // Number of items across all sets
+}
+
+// Placeholders available in set templates, with what they print
+export const SET_TEMPLATE_PLACEHOLDERS: { name: string; description: string; itemOnly?: boolean }[] = [
+  { name: 'item', description: 'The item text', itemOnly: true },
+  { name: 'index', description: 'Running number across all sets (1, 2 ... 101)', itemOnly: true },
+  { name: 'localIndex', description: 'Number within the set (1, 2 ... 20)', itemOnly: true },
+  { name: 'set', description: 'Set number (1, 2, 3)' },
+  { name: 'setAlpha', description: 'Set letter (A, B ... AA)' },
+  { name: 'count', description: 'Items in this set' },
+  { name: 'total', description: 'Items across all sets' },
+];
+
+// What the numeric value means for a split mode: items per set, number of sets, or unused
+export type SplitValueKind = 'size' | 'count' | 'budget' | 'none';
+
+// Split mode metadata shared by the Batcher, the pipeline builder and the CLI
+export const SPLIT_MODES: { id: SplitMode; label: string; value: SplitValueKind; description: string }[] = [
+  { id: 'size', label: 'Set Capacity', value: 'size', description: 'Fill each set up to a fixed number of items, in order.' },
+  { id: 'count', label: 'Fixed Sets', value: 'count', description: 'Slice the list in order into a fixed number of sets.' },
+  { id: 'balanced', label: 'Balanced', value: 'count', description: 'Fixed number of sets whose sizes differ by at most one item.' },
+  { id: 'roundRobin', label: 'Round-Robin', value: 'count', description: 'Deal items across the sets in turn, like cards.' },
+  { id: 'shuffle', label: 'Shuffled', value: 'size', description: 'Shuffle with a seed (same seed, same sets), then fill each set.' },
+  { id: 'marker', label: 'Marker Split', value: 'none', description: 'Start a new set at every blank line, or at every marker line.' },
+  { id: 'group', label: 'Group by Key', value: 'size', description: 'Fill each set, keeping items with the same regex-captured key together.' },
+  { id: 'budget', label: 'Size Budget', value: 'budget', description: 'Fill each set up to a maximum of characters, words or approximate tokens.' },
+];
+
+// Budget units with their labels
+export const BUDGET_UNITS: { id: BudgetUnit; label: string }[] = [
+  { id: 'chars', label: 'Characters' },
+  { id: 'words', label: 'Words' },
+  { id: 'tokens', label: 'Tokens (approx.)' },
+];
+
+// Measure one item in a budget unit; tokens use the common 4-characters-per-token estimate
+export const measureItem = (item: string, unit: BudgetUnit): number => {
+  if (unit === 'words') return item.split(/\s+/).filter(word => word !== '').length;
+  if (unit === 'tokens') return Math.ceil(item.length / 4);
+  return item.length;
+};
+
+// Extra settings used by some split modes
+export interface BatchOptions {
+  seed?: number;       // shuffle: seed for the random order (default 1)
+  marker?: string;     // marker: separator line; blank lines when empty
+  keyPattern?: string; // group: regular expression whose first capture group (or whole match) is the key
+  budgetUnit?: BudgetUnit; // budget: unit the value is measured in (default chars)
+  binPacking?: boolean;    // budget: pack items into as few sets as possible instead of keeping their order
+}
+
+// Build the key reader for group mode; throws on an invalid regular expression
+const buildKeyReader = (pattern: string): ((line: string) => string | null) => {
+  // Without a pattern every item is its own group
+  if (!pattern) return () => null;
+  let re: RegExp;
+  try {
+    re = new RegExp(pattern, 'i');
+  } catch {
+    throw new Error(`Invalid key pattern: ${pattern}`);
+  }
+  return line => {
+    const match = re.exec(line);
+    // Items that do not match stay on their own
+    if (!match) return null;
+    return match[1] ?? match[0];
+  };
+};
+
+// Fill sets in order, starting a new set whenever the next chunk of line positions would overflow the capacity
+// A chunk larger than the capacity gets a set of its own; the weight defaults to the item count
+const packChunks = (
+  chunks: number[][],
+  capacity: number,
+  onProgress: ProgressCallback,
+  weight: (chunk: number[]) => number = chunk => chunk.length
+): number[][] => {
+  const sets: number[][] = [];
+  let current: number[] = [];
+  let used = 0;
+  chunks.forEach((chunk, i) => {
+    if (i % PROGRESS_STEP === 0) onProgress(i / chunks.length);
+    const size = weight(chunk);
+    if (current.length > 0 && used + size > capacity) {
+      sets.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(...chunk);
+    used += size;
+  });
+  if (current.length > 0) sets.push(current);
+  return sets;
+};
+
+// First-fit decreasing bin packing: largest items first, each into the first set with room
+// Items keep their original order inside a set, and sets are ordered by their earliest item
+// The first set with room is found through a max tree of the room left per set, in O(log sets) per item
+const binPack = (
+  lines: string[],
+  capacity: number,
+  measure: (line: string) => number,
+  onProgress: ProgressCallback
+): number[][] => {
+  const sizes = lines.map(measure);
+  const order = lines.map((_, i) => i).sort((a, b) => sizes[b] - sizes[a] || a - b);
+  const bins: { used: number; members: number[] }[] = [];
+
+  // Room left in each set (leaves) and the largest room under every node; unopened sets have none
+  let leaves = 1;
+  while (leaves < lines.length) leaves *= 2;
+  const room = new Float64Array(2 * leaves).fill(-Infinity);
+  const setRoom = (bin: number, value: number) => {
+    let node = leaves + bin;
+    room[node] = value;
+    for (node >>= 1; node >= 1; node >>= 1) room[node] = Math.max(room[2 * node], room[2 * node + 1]);
+  };
+  // Leftmost set with at least this much room, or -1
+  const firstWithRoom = (size: number): number => {
+    if (room[1] < size) return -1;
+    let node = 1;
+    while (node < leaves) node = room[2 * node] >= size ? 2 * node : 2 * node + 1;
+    return node - leaves;
+  };
+
+  order.forEach((index, n) => {
+    if (n % PROGRESS_STEP === 0) onProgress(n / order.length);
+    const found = firstWithRoom(sizes[index]);
+    if (found >= 0) {
+      bins[found].used += sizes[index];
+      bins[found].members.push(index);
+      setRoom(found, capacity - bins[found].used);
+    } else {
+      // Oversized items also land here, alone in a new set that has no room left
+      bins.push({ used: sizes[index], members: [index] });
+      setRoom(bins.length - 1, capacity - sizes[index]);
+    }
+  });
+  return bins
+    .map(bin => bin.members.sort((a, b) => a - b))
+    .sort((a, b) => a[0] - b[0]);
+};
+
+// Split lines into sets according to the mode
+// Sets hold positions in `lines` (the trimmed, non-empty input lines), so every item can be traced to its input line
+const splitItems = (
+  input: string | string[],
+  lines: string[],
+  mode: SplitMode,
+  value: number,
+  options: BatchOptions,
+  onProgress: ProgressCallback
+): number[][] => {
+  // Marker mode needs the blank lines, so it reads the raw lines itself
+  if (mode === 'marker') {
+    const raw = typeof input === 'string' ? input.split(/\r\n|\r|\n/) : input;
+    const marker = (options.marker || '').trim();
+    const sets: number[][] = [[]];
+    // Position of the next non-empty line in `lines`
+    let position = 0;
+    raw.forEach(line => {
+      const trimmed = line.trim();
+      // Separator lines are dropped; runs of separators never create empty sets
+      if (trimmed === marker) {
+        if (sets[sets.length - 1].length > 0) sets.push([]);
+      } else if (trimmed !== '') {
+        sets[sets.length - 1].push(position);
+      }
+      if (trimmed !== '') position++;
+    });
+    return sets.filter(set => set.length > 0);
+  }
+
+  // Positions of the input lines, in order
+  const positions = lines.map((_, i) => i);
+  // Every other mode reads a whole number of at least 1
+  const amount = Math.max(1, Math.floor(value) || 1);
+
+  switch (mode) {
+    case 'balanced': {
+      // The first (total % sets) sets take one extra item
+      const count = Math.min(amount, lines.length);
+      const base = Math.floor(lines.length / count);
+      const extra = lines.length % count;
+      const sets: number[][] = [];
+      let start = 0;
+      for (let i = 0; i < count; i++) {
+        const size = base + (i < extra ? 1 : 0);
+        sets.push(positions.slice(start, start + size));
+        start += size;
+      }
+      return sets;
+    }
+    case 'roundRobin': {
+      // Item i goes to set i % sets
+      const sets: number[][] = Array.from({ length: Math.min(amount, lines.length) }, () => []);
+      positions.forEach(i => {
+        if (i % PROGRESS_STEP === 0) onProgress(i / lines.length);
+        sets[i % sets.length].push(i);
+      });
+      return sets;
+    }
+    case 'shuffle': {
+      // Fisher-Yates shuffle driven by the seeded generator
+      const random = seededRandom(options.seed ?? 1);
+      const shuffled = [...positions];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return packChunks(shuffled.map(i => [i]), amount, onProgress);
+    }
+    case 'group': {
+      // Gather items by key in order of first appearance; unmatched items form groups of one
+      const readKey = buildKeyReader(options.keyPattern || '');
+      const groups = new Map<string, number[]>();
+      const chunks: number[][] = [];
+      lines.forEach((line, i) => {
+        const key = readKey(line);
+        if (key === null) {
+          chunks.push([i]);
+          return;
+        }
+        const group = groups.get(key);
+        if (group) {
+          group.push(i);
+        } else {
+          const created = [i];
+          groups.set(key, created);
+          chunks.push(created);
+        }
+      });
+      return packChunks(chunks, amount, onProgress);
+    }
+    case 'budget': {
+      // Fill sets up to the budget, in order or bin-packed
+      const unit = options.budgetUnit || 'chars';
+      const measure = (line: string) => measureItem(line, unit);
+      return options.binPacking
+        ? binPack(lines, amount, measure, onProgress)
+        : packChunks(positions.map(i => [i]), amount, onProgress, chunk => measure(lines[chunk[0]]));
+    }
+    default: {
+      // Logic for determining set size based on mode
+      const setSize = mode === 'size'
+        // Direct assignment: size is the input value (min 1)
+        ? amount
+        // Split by Count: Calculate size by dividing total lines by target set count
+        : Math.ceil(lines.length / amount);
+      const sets: number[][] = [];
+      // Iterate through lines incrementing by setSize
+      for (let i = 0; i < lines.length; i += setSize) {
+        if (sets.length % PROGRESS_STEP === 0) onProgress(i / lines.length);
+        // Slice the positions to get specific batch items
+        sets.push(positions.slice(i, i + setSize));
+      }
+      return sets;
+    }
+  }
+};
+
+// Split a list into sets using one of the split modes
+export const batch = (
+  input: string | string[],
+  mode: SplitMode,
+  value: number,
+  options: BatchOptions = {},
+  onProgress: ProgressCallback = () => {}
+): BatchResult => {
+  // Split input text by newlines, trim lines, remove empty lines
+  const lines = toLines(input);
+  const groups = splitItems(input, lines, mode, value, options, onProgress);
+  // Number the sets 0-based in output order, keeping each item's input line position
+  const sets: BatchSet[] = groups
+    .filter(members => members.length > 0)
+    .map((members, id) => ({ id, items: members.map(i => lines[i]), sourceLines: members }));
+  const totalItems = sets.reduce((sum, set) => sum + set.items.length, 0);
+
+  onProgress(1);
+  if (mode !== 'budget') {
+    // Return the sets array and the total item count
+    return { sets, totalItems };
+  }
+
+  // Budget mode reports each set's usage and flags sets that only exist because one item is too big
+  const unit = options.budgetUnit || 'chars';
+  const limit = Math.max(1, Math.floor(value) || 1);
+  sets.forEach(set => {
+    set.usage = set.items.reduce((sum, item) => sum + measureItem(item, unit), 0);
+    set.oversized = set.usage > limit;
+  });
+  return { sets, totalItems, budget: { unit, limit } };
+};
+
+// Convert a number to Excel-style column name (0 -> A, 1 -> B ... 25 -> Z, 26 -> AA)
+export const getAlphaLabel = (index: number): string => {
+  let label = "";
+  let i = index + 1; // Convert to 1-based for calculation
+  while (i > 0) {
+    const remainder = (i - 1) % 26;
+    label = String.fromCharCode(65 + remainder) + label;
+    i = Math.floor((i - 1) / 26);
+  }
+  return label;
+};
+
+// Build a set's display label (e.g., Set 1 or Set A)
+export const getSetLabel = (set: BatchSet, scheme: NamingScheme): string => scheme === 'numeric'
+  ? `Set ${set.id + 1}`
+  : `Set ${getAlphaLabel(set.id)}`;
+
+// Calculate the starting index offset for a specific set (number of items in all earlier sets)
+export const getFormattedCount = (setIndex: number, sets: BatchSet[]): number => {
+  let prevCount = 0;
+  // Sum the length of all previous sets
+  for (let i = 0; i < setIndex && i < sets.length; i++) prevCount += sets[i].items.length;
+  return prevCount;
+};
+
+// Values shared by the header, item and footer lines of a set
+const setValues = (set: BatchSet, context: SetContext): TemplateValues => ({
+  set: set.id + 1,
+  setAlpha: getAlphaLabel(set.id),
+  count: set.items.length,
+  total: context.totalItems,
+});
+
+// Format one item line of a set (localIndex is 0-based), exactly as it is copied
+export const formatSetItem = (
+  set: BatchSet,
+  localIndex: number,
+  context: SetContext,
+  options: SetFormatOptions
+): string => {
+  const item = set.items[localIndex];
+  if (options.template) {
+    return renderTemplate(options.template.item, {
+      ...setValues(set, context),
+      item,
+      index: context.offset + localIndex + 1,
+      localIndex: localIndex + 1,
+    });
+  }
+  // Create index string if enabled (e.g., "11. ")
+  const indexStr = options.useIndexing ? `${context.offset + localIndex + 1}. ` : '';
+  // Create prefix string if exists (e.g., "Day 1 ")
+  const prefixStr = options.prefix ? `${options.prefix} ` : '';
+  // Combine parts
+  return `${indexStr}${prefixStr}${item}`;
+};
+
+// Render a set's header and footer lines; empty when there is no template or the line is blank
+export const formatSetFrame = (
+  set: BatchSet,
+  context: SetContext,
+  options: SetFormatOptions
+): { header: string; footer: string } => {
+  if (!options.template) return { header: '', footer: '' };
+  const values = setValues(set, context);
+  return {
+    header: renderTemplate(options.template.header, values),
+    footer: renderTemplate(options.template.footer, values),
+  };
+};
+
+// Format a whole set as text: header, item lines and footer joined with newlines
+export const formatSetText = (set: BatchSet, context: SetContext, options: SetFormatOptions): string => {
+  const { header, footer } = formatSetFrame(set, context, options);
+  const lines = set.items.map((_, idx) => formatSetItem(set, idx, context, options));
+  return [...(header ? [header] : []), ...lines, ...(footer ? [footer] : [])].join('\n'); // Join with newlines
+};
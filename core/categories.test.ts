@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { TAXONOMY_OTHER, UNCATEGORIZED, validateCategories } from './categories';
+
+describe('validateCategories', () => {
+  it('handles an empty reply', () => {
+    const { categories, coverage } = validateCategories(['Alien'], []);
+    expect(categories).toEqual([{ name: UNCATEGORIZED, items: ['Alien'] }]);
+    expect(coverage).toMatchObject({ totalTitles: 1, exact: 0, unassigned: ['Alien'] });
+  });
+
+  it('matches reworded items back to the original wording', () => {
+    const { categories, coverage } = validateCategories(
+      ['The Matrix', 'Colour Theory', 'Alien'],
+      [{ name: 'Films', items: ['Teh Matrix', 'Alien'] }, { name: 'Art', items: ['Color Theory'] }]
+    );
+    expect(categories).toEqual([
+      { name: 'Films', items: ['Alien', 'The Matrix'] },
+      { name: 'Art', items: ['Colour Theory'] },
+    ]);
+    expect(coverage.exact).toBe(1);
+    expect(coverage.reworded.map(({ a, b }) => [a, b])).toEqual([['Color Theory', 'Colour Theory'], ['Teh Matrix', 'The Matrix']]);
+    expect(coverage).toMatchObject({ duplicates: [], hallucinated: [], unassigned: [] });
+  });
+
+  it('drops duplicated items, keeping repeated input titles', () => {
+    const { categories, coverage } = validateCategories(
+      ['Alien', 'Alien', 'Jaws'],
+      [{ name: 'Films', items: ['Alien', 'Jaws', 'Alien'] }, { name: 'Horror', items: ['Alien', 'jaws!'] }]
+    );
+    expect(categories).toEqual([{ name: 'Films', items: ['Alien', 'Jaws', 'Alien'] }]);
+    expect(coverage.duplicates).toEqual(['Alien', 'jaws!']);
+    expect(coverage.hallucinated).toEqual([]);
+  });
+
+  it('reports invented items and files missing titles under Uncategorized', () => {
+    const { categories, coverage } = validateCategories(
+      ['Alien', 'Jaws'],
+      [{ name: 'Films', items: ['Alien', 'Star Wars', ' '] }]
+    );
+    expect(categories).toEqual([{ name: 'Films', items: ['Alien'] }, { name: UNCATEGORIZED, items: ['Jaws'] }]);
+    expect(coverage).toMatchObject({ exact: 1, reworded: [], hallucinated: ['Star Wars'], unassigned: ['Jaws'] });
+  });
+
+  it('files missing titles under the given leftover name, joining an existing category', () => {
+    const { categories, coverage } = validateCategories(
+      ['Alien', 'Jaws', 'Heat'],
+      [{ name: 'Horror', items: ['Alien', 'Star Wars'] }, { name: ' other ', items: ['Heat'] }],
+      TAXONOMY_OTHER
+    );
+    expect(categories).toEqual([{ name: 'Horror', items: ['Alien'] }, { name: 'other', items: ['Heat', 'Jaws'] }]);
+    expect(categories.some(category => category.name === UNCATEGORIZED)).toBe(false);
+    expect(coverage).toMatchObject({ hallucinated: ['Star Wars'], unassigned: ['Jaws'] });
+  });
+});
@@ -0,0 +1,153 @@
+// Import the category contracts
+import { CategoryCoverage, ProbableMatch, TopicCategory } from "../types";
+// Import the fuzzy matchers used for reworded titles
+import { findProbableMatches, similarity } from "../services/fuzzyService";
+// Import the default match rules so case and spacing changes count as rewording, not new titles
+import { DEFAULT_NORMALIZATION, normalizeLine } from "../services/normalizeService";
+
+// Name of the group holding input titles that no category accounted for
+export const UNCATEGORIZED = 'Uncategorized';
+
+// Name of the bucket for titles that fit none of a fixed taxonomy's categories
+export const TAXONOMY_OTHER = 'Other';
+
+// Minimum edit-distance similarity for a returned item to count as a reworded input title
+const REWORD_THRESHOLD = 0.8;
+
+// Largest number of leftover pairs compared one by one (one AI chunk's worth); beyond it the indexed matcher is used
+const EXHAUSTIVE_PAIRS = 400 * 400;
+
+// Loose match rules for spotting a reworded repeat of a title that is already placed
+const REPEAT_NORMALIZATION = { ...DEFAULT_NORMALIZATION, unifyDashes: true, stripDiacritics: true, stripPunctuation: true };
+
+// Pair reworded reply items with unplaced input titles one to one, highest similarity first
+// Every item is compared with every title, so single-word and transposed-letter rewordings are never filtered out
+const matchReworded = (items: string[], titles: string[]): ProbableMatch[] => {
+  const options = { metric: 'levenshtein' as const, threshold: REWORD_THRESHOLD, normalization: DEFAULT_NORMALIZATION };
+  // Very large leftovers (a reply that rewords most of a long list) go through the indexed matcher instead
+  if (items.length * titles.length > EXHAUSTIVE_PAIRS) return findProbableMatches(items, titles, options).matches;
+
+  const itemKeys = items.map(item => normalizeLine(item, DEFAULT_NORMALIZATION) || item);
+  const titleKeys = titles.map(title => normalizeLine(title, DEFAULT_NORMALIZATION) || title);
+  const candidates: { a: number; b: number; score: number }[] = [];
+  itemKeys.forEach((itemKey, a) => titleKeys.forEach((titleKey, b) => {
+    // Pairs whose lengths differ by more than the edit budget can never reach the threshold
+    const longest = Math.max(itemKey.length, titleKey.length);
+    if (Math.abs(itemKey.length - titleKey.length) > (1 - REWORD_THRESHOLD) * longest + 1e-9) return;
+    const score = similarity(itemKey, titleKey, 'levenshtein');
+    if (score >= REWORD_THRESHOLD) candidates.push({ a, b, score });
+  }));
+
+  // Greedy one-to-one assignment, best scores first
+  const usedA = new Set<number>();
+  const usedB = new Set<number>();
+  const matches: ProbableMatch[] = [];
+  candidates.sort((x, y) => y.score - x.score || x.a - y.a || x.b - y.b).forEach(({ a, b, score }) => {
+    if (usedA.has(a) || usedB.has(b)) return;
+    usedA.add(a);
+    usedB.add(b);
+    matches.push({ a: items[a], b: titles[b], score });
+  });
+  return matches;
+};
+
+// Match categorized items back to the input titles
+// Exact matches first, then fuzzy matches for reworded items; every input title ends up in exactly one
+// category (missing ones in `leftoverName`, "Uncategorized" unless a taxonomy run passes "Other") and
+// categories only ever contain the original wording
+export const validateCategories = (
+  titles: string[],
+  categories: TopicCategory[],
+  leftoverName: string = UNCATEGORIZED
+): { categories: TopicCategory[]; coverage: CategoryCoverage } => {
+  // Occurrences of each input title still waiting for a category (titles may repeat)
+  const remaining = new Map<string, number>();
+  titles.forEach(title => remaining.set(title, (remaining.get(title) ?? 0) + 1));
+
+  // Pass 1: exact matches, in reply order
+  const placed: string[][] = categories.map(() => []);
+  const pending: { category: number; text: string }[] = [];
+  const duplicates: string[] = [];
+  let exact = 0;
+  categories.forEach((category, c) => {
+    (category.items || []).forEach(raw => {
+      const text = String(raw ?? '').trim();
+      if (!text) return;
+      const left = remaining.get(text);
+      if (left === undefined) {
+        pending.push({ category: c, text });
+      } else if (left > 0) {
+        remaining.set(text, left - 1);
+        placed[c].push(text);
+        exact++;
+      } else {
+        // Every copy of this title is already placed
+        duplicates.push(text);
+      }
+    });
+  });
+
+  // Pass 2: fuzzy one-to-one matching of every leftover against every title still unplaced
+  const unplaced: string[] = [];
+  remaining.forEach((count, title) => {
+    for (let i = 0; i < count; i++) unplaced.push(title);
+  });
+  const reworded = matchReworded(pending.map(p => p.text), unplaced);
+  // Matches come back by text, so consume pending items and unplaced titles one occurrence at a time
+  const matchedTitle = new Map<string, string[]>();
+  reworded.forEach(match => matchedTitle.set(match.a, [...(matchedTitle.get(match.a) ?? []), match.b]));
+  const hallucinated: string[] = [];
+  // Match keys of every input title, to tell a reworded repeat of a placed title from an invented one
+  const inputKeys = new Set(titles.map(title => normalizeLine(title, REPEAT_NORMALIZATION)));
+  pending.forEach(({ category, text }) => {
+    const title = matchedTitle.get(text)?.shift();
+    if (title === undefined) {
+      if (inputKeys.has(normalizeLine(text, REPEAT_NORMALIZATION))) duplicates.push(text);
+      else hallucinated.push(text);
+      return;
+    }
+    placed[category].push(title);
+    remaining.set(title, (remaining.get(title) ?? 1) - 1);
+  });
+
+  // Whatever is left was never returned
+  const unassigned: string[] = [];
+  remaining.forEach((count, title) => {
+    for (let i = 0; i < count; i++) unassigned.push(title);
+  });
+
+  // Rebuild the categories with the original wording, dropping any left empty
+  const validated: TopicCategory[] = categories
+    .map((category, c) => ({ name: String(category.name ?? '').trim() || leftoverName, items: placed[c] }))
+    .filter(category => category.items.length > 0);
+  if (unassigned.length > 0) {
+    // Join a category the model already gave the leftover name (ignoring case and spacing), otherwise add one at the end
+    const existing = validated.find(category => categoryNameKey(category.name) === categoryNameKey(leftoverName));
+    if (existing) existing.items.push(...unassigned);
+    else validated.push({ name: leftoverName, items: unassigned });
+  }
+
+  return {
+    categories: validated,
+    coverage: { totalTitles: titles.length, exact, reworded, duplicates, hallucinated, unassigned },
+  };
+};
+
+// Comparison key for category names: case and spacing differences never make two categories
+export const categoryNameKey = (name: string): string => String(name ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Hold categories to a fixed list of names: each category joins the taxonomy category with the same name
+// (ignoring case and spacing) and anything else goes to "Other"; the result follows the taxonomy order
+export const restrictToTaxonomy = (categories: TopicCategory[], names: string[]): TopicCategory[] => {
+  const restricted = new Map<string, TopicCategory>();
+  [...names, TAXONOMY_OTHER].forEach(name => {
+    const key = categoryNameKey(name);
+    if (!restricted.has(key)) restricted.set(key, { name: name.trim(), items: [] });
+  });
+  const other = restricted.get(categoryNameKey(TAXONOMY_OTHER))!;
+  categories.forEach(category => {
+    const items = Array.isArray(category.items) ? category.items : [];
+    (restricted.get(categoryNameKey(category.name)) ?? other).items.push(...items);
+  });
+  return Array.from(restricted.values()).filter(category => category.items.length > 0);
+};
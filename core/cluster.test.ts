@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { clusterTitles, UNCLUSTERED } from './cluster';
+import { seededRandom } from './random';
+
+// 60 titles over three topics, each built from two keywords of its topic
+const topics = [
+  ['Paris', 'hotels', 'flights', 'museums'],
+  ['JavaScript', 'Python', 'tutorials', 'debugging'],
+  ['chocolate', 'cake', 'recipes', 'baking'],
+];
+const random = seededRandom(42);
+const pick = (words: string[]) => words[Math.floor(random() * words.length)];
+const titles = Array.from({ length: 60 }, (_, i) => `${pick(topics[i % 3])} and ${pick(topics[i % 3])} guide ${i}`);
+
+describe('clusterTitles', () => {
+  it('returns nothing for an empty list', () => {
+    expect(clusterTitles([])).toEqual([]);
+  });
+
+  it('separates the topics and names them with the words as written', () => {
+    const clusters = clusterTitles(titles, { k: 3 });
+    expect(clusters.map(c => c.name)).toEqual([
+      'Hotels · Paris · Flights',
+      'Python · Debugging · JavaScript',
+      'Recipes · Chocolate · Baking',
+    ]);
+    // Every topic holds exactly the titles built from its own keywords
+    clusters.forEach((cluster, c) => {
+      expect(cluster.items).toEqual(titles.filter((_, i) => i % 3 === c));
+    });
+  });
+
+  it('gives identical topics for identical input', () => {
+    expect(clusterTitles(titles)).toEqual(clusterTitles(titles));
+  });
+
+  it('folds plurals for matching but keeps the most common spelling in labels', () => {
+    const clusters = clusterTitles(['Cheap hotels', 'Best hotels', 'Hotel deals', 'Atlas of Paris', 'Paris atlas', 'Alien'], { k: 2 });
+    expect(clusters).toEqual([
+      { name: 'Hotels', items: ['Cheap hotels', 'Best hotels', 'Hotel deals'] },
+      { name: 'Atlas · Paris', items: ['Atlas of Paris', 'Paris atlas'] },
+      { name: UNCLUSTERED, items: ['Alien'] },
+    ]);
+  });
+});
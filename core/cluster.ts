@@ -0,0 +1,292 @@
+// Import the category contract shared with the AI categorization
+import { TopicCategory } from "../types";
+// Import the line splitting and progress helpers
+import { ProgressCallback, toLines } from "./lines";
+// Import the seeded generator so the same titles always give the same clusters
+import { seededRandom } from "./random";
+
+// Options for offline topic clustering
+export interface ClusterOptions {
+  k?: number;        // Number of topics; chosen automatically when missing or 0
+  labelTerms?: number; // Keywords used in each topic name (default 3)
+}
+
+// Name of the group holding titles that share no keyword with any other title
+export const UNCLUSTERED = 'Other';
+
+// Largest number of topics tried by the automatic choice of k
+const MAX_AUTO_K = 30;
+// Titles clustered while searching for k; the chosen k is then run on the whole list
+const SEARCH_SAMPLE = 2000;
+// Titles used to score each candidate k (silhouette is quadratic in this number)
+const SILHOUETTE_SAMPLE = 400;
+// k-means iterations per run; it usually converges well before this
+const MAX_ITERATIONS = 25;
+// Differently seeded k-means runs per k; the most cohesive one is kept, since a single run can settle badly
+const RESTARTS = 3;
+
+// Common English words that never make a useful topic keyword
+const STOP_WORDS = new Set((
+  'a about after all also an and any are as at be because been before being best between both but by can could ' +
+  'did do does doing down during each few for from further get got had has have having he her here hers him his ' +
+  'how i if in into is it its just like make more most my new no nor not now of off on once one only or other our ' +
+  'out over own part same she should so some such than that the their them then there these they this those ' +
+  'through to too top two under until up use using very vs was way we were what when where which while who why ' +
+  'will with without you your'
+).split(' '));
+
+// Split a title into keyword words as written: 3+ characters, no stop words or bare numbers
+const keywords = (title: string): string[] =>
+  (title.match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(word => word.length >= 3 && !STOP_WORDS.has(word.toLowerCase()) && !/^\d+$/.test(word));
+
+// Matching key of a keyword: lowercase with simple plurals folded ("Recipes" and "recipe" match)
+// Only used for matching; labels show the word as written, so "Paris" is never shown as "Pari"
+const termKey = (word: string): string => {
+  const lower = word.toLowerCase();
+  return lower.length > 4 && lower.endsWith('s') && !/(ss|us|is)$/.test(lower) ? lower.slice(0, -1) : lower;
+};
+
+// Sparse vector: parallel arrays of term indices and weights, L2-normalized
+interface SparseVector {
+  terms: number[];
+  weights: number[];
+}
+
+// Build TF-IDF vectors; only terms found in at least two titles are kept, since a term seen once links nothing,
+// and terms found in more than half of a longer list are dropped, since they separate nothing
+// Each kept term also gets a label: its most common spelling in the titles
+const tfidf = (titles: string[]): { vectors: SparseVector[]; vocabulary: string[]; labels: string[] } => {
+  const spellings = new Map<string, Map<string, number>>();
+  const tokenized = titles.map(title => keywords(title).map(word => {
+    const key = termKey(word);
+    if (!spellings.has(key)) spellings.set(key, new Map());
+    spellings.get(key)!.set(word, (spellings.get(key)!.get(word) ?? 0) + 1);
+    return key;
+  }));
+  const documentFrequency = new Map<string, number>();
+  tokenized.forEach(list => new Set(list).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)));
+  const n = titles.length;
+  const maxFrequency = Math.max(2, n / 2);
+  const vocabulary = Array.from(documentFrequency.keys())
+    .filter(term => documentFrequency.get(term)! >= 2 && documentFrequency.get(term)! <= maxFrequency)
+    .sort();
+  const index = new Map(vocabulary.map((term, i) => [term, i]));
+  // Most common spelling first, ties broken alphabetically so the label is stable
+  const labels = vocabulary.map(term => Array.from(spellings.get(term)!)
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0))[0][0]);
+
+  const vectors = tokenized.map(list => {
+    const counts = new Map<number, number>();
+    list.forEach(term => {
+      const i = index.get(term);
+      if (i !== undefined) counts.set(i, (counts.get(i) ?? 0) + 1);
+    });
+    // Smoothed inverse document frequency, as in common TF-IDF implementations
+    const entries = Array.from(counts, ([i, count]) =>
+      [i, count * (Math.log((1 + n) / (1 + documentFrequency.get(vocabulary[i])!)) + 1)] as [number, number]);
+    const norm = Math.sqrt(entries.reduce((sum, [, w]) => sum + w * w, 0)) || 1;
+    return { terms: entries.map(([i]) => i), weights: entries.map(([, w]) => w / norm) };
+  });
+  return { vectors, vocabulary, labels };
+};
+
+// Dot product of a sparse vector with a dense one
+const dotDense = (vector: SparseVector, dense: Float64Array): number => {
+  let sum = 0;
+  for (let t = 0; t < vector.terms.length; t++) sum += vector.weights[t] * dense[vector.terms[t]];
+  return sum;
+};
+
+// Dot product of two sparse vectors (cosine similarity, since both are normalized)
+const dotSparse = (a: SparseVector, b: SparseVector): number => {
+  let sum = 0;
+  for (let i = 0; i < a.terms.length; i++) {
+    const j = b.terms.indexOf(a.terms[i]);
+    if (j >= 0) sum += a.weights[i] * b.weights[j];
+  }
+  return sum;
+};
+
+// Spherical k-means (cosine similarity) with k-means++ seeding
+// Returns the cluster of each vector and the cohesion (summed similarity of every vector to its centre)
+const kMeansRun = (vectors: SparseVector[], k: number, dimensions: number, seed: number): { assignment: number[]; cohesion: number } => {
+  const random = seededRandom(seed);
+  const centroids: Float64Array[] = [];
+  const toDense = (vector: SparseVector) => {
+    const dense = new Float64Array(dimensions);
+    vector.terms.forEach((term, t) => { dense[term] = vector.weights[t]; });
+    return dense;
+  };
+
+  // k-means++: each new centre is picked with probability proportional to its distance from the nearest centre
+  centroids.push(toDense(vectors[Math.floor(random() * vectors.length)]));
+  const nearest = vectors.map(v => 1 - dotDense(v, centroids[0]));
+  while (centroids.length < k) {
+    const total = nearest.reduce((sum, d) => sum + d, 0);
+    if (total <= 0) break;
+    let target = random() * total;
+    let pick = 0;
+    while (pick < nearest.length - 1 && (target -= nearest[pick]) > 0) pick++;
+    const centre = toDense(vectors[pick]);
+    centroids.push(centre);
+    vectors.forEach((v, i) => { nearest[i] = Math.min(nearest[i], 1 - dotDense(v, centre)); });
+  }
+
+  const assignment = new Array<number>(vectors.length).fill(-1);
+  let cohesion = 0;
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    // Assign every vector to its most similar centre
+    let changed = false;
+    cohesion = 0;
+    vectors.forEach((v, i) => {
+      let best = 0;
+      let bestScore = -Infinity;
+      centroids.forEach((centre, c) => {
+        const score = dotDense(v, centre);
+        if (score > bestScore) { bestScore = score; best = c; }
+      });
+      cohesion += bestScore;
+      if (assignment[i] !== best) { assignment[i] = best; changed = true; }
+    });
+    if (!changed) break;
+    // Move every centre to the normalized mean of its members
+    centroids.forEach(centre => centre.fill(0));
+    vectors.forEach((v, i) => v.terms.forEach((term, t) => { centroids[assignment[i]][term] += v.weights[t]; }));
+    centroids.forEach(centre => {
+      const norm = Math.sqrt(centre.reduce((sum, w) => sum + w * w, 0)) || 1;
+      for (let d = 0; d < centre.length; d++) centre[d] /= norm;
+    });
+  }
+  return { assignment, cohesion };
+};
+
+// Best of several seeded k-means runs; fixed seeds keep the result reproducible
+const kMeans = (vectors: SparseVector[], k: number, dimensions: number): number[] => {
+  let best = kMeansRun(vectors, k, dimensions, 1);
+  for (let seed = 2; seed <= RESTARTS; seed++) {
+    const run = kMeansRun(vectors, k, dimensions, seed);
+    if (run.cohesion > best.cohesion) best = run;
+  }
+  return best.assignment;
+};
+
+// Mean silhouette (cosine distance) of a clustering, measured on a fixed sample of the vectors
+const silhouette = (vectors: SparseVector[], assignment: number[], sample: number[]): number => {
+  let total = 0;
+  sample.forEach(i => {
+    // Mean distance to every other sampled member of each cluster
+    const sums = new Map<number, { distance: number; count: number }>();
+    sample.forEach(j => {
+      if (i === j) return;
+      const entry = sums.get(assignment[j]) ?? { distance: 0, count: 0 };
+      entry.distance += 1 - dotSparse(vectors[i], vectors[j]);
+      entry.count++;
+      sums.set(assignment[j], entry);
+    });
+    const own = sums.get(assignment[i]);
+    if (!own || own.count === 0) return; // A singleton scores 0
+    const a = own.distance / own.count;
+    let b = Infinity;
+    sums.forEach((entry, cluster) => {
+      if (cluster !== assignment[i]) b = Math.min(b, entry.distance / entry.count);
+    });
+    if (b === Infinity) return;
+    total += (b - a) / Math.max(a, b);
+  });
+  return total / sample.length;
+};
+
+// Name a cluster after its highest-weighted terms as written, e.g. "Recipes · Chocolate · Cake"
+const labelCluster = (members: SparseVector[], vocabulary: string[], labels: string[], count: number): string => {
+  const weights = new Map<number, number>();
+  members.forEach(v => v.terms.forEach((term, t) => weights.set(term, (weights.get(term) ?? 0) + v.weights[t])));
+  return Array.from(weights)
+    .sort((a, b) => b[1] - a[1] || (vocabulary[a[0]] < vocabulary[b[0]] ? -1 : 1))
+    .slice(0, count)
+    .map(([term]) => labels[term].charAt(0).toUpperCase() + labels[term].slice(1))
+    .join(' · ');
+};
+
+// Group titles into topics without any external service: TF-IDF vectors, spherical k-means and keyword labels
+// With no k given, k is chosen by the best silhouette score; titles sharing no keyword with others go to "Other"
+export const clusterTitles = (
+  input: string | string[],
+  options: ClusterOptions = {},
+  onProgress: ProgressCallback = () => {}
+): TopicCategory[] => {
+  const titles = toLines(input);
+  if (titles.length === 0) return [];
+
+  const { vectors, vocabulary, labels } = tfidf(titles);
+  // Titles with no shared keyword cannot be placed by similarity
+  const placeable = vectors.map((v, i) => i).filter(i => vectors[i].terms.length > 0);
+  const other = vectors.map((v, i) => i).filter(i => vectors[i].terms.length === 0).map(i => titles[i]);
+  const points = placeable.map(i => vectors[i]);
+
+  let assignment: number[] = points.map(() => 0);
+  if (points.length >= 2) {
+    const fixedK = Math.floor(options.k || 0);
+    let k = Math.min(fixedK, points.length);
+    if (fixedK <= 0) {
+      // Try every k from 2 up to a bound that grows with the list on an evenly spaced sample, keeping the best silhouette
+      const maxK = Math.min(MAX_AUTO_K, points.length - 1, Math.max(2, Math.round(Math.sqrt(points.length))));
+      const searchStep = Math.max(1, Math.floor(points.length / SEARCH_SAMPLE));
+      const searchPoints = points.filter((p, i) => i % searchStep === 0).slice(0, SEARCH_SAMPLE);
+      const scoreStep = Math.max(1, Math.floor(searchPoints.length / SILHOUETTE_SAMPLE));
+      const scored = searchPoints.map((p, i) => i).filter(i => i % scoreStep === 0).slice(0, SILHOUETTE_SAMPLE);
+      let bestScore = -Infinity;
+      for (let candidate = 2; candidate <= maxK; candidate++) {
+        onProgress(0.8 * (candidate - 2) / (maxK - 1));
+        const score = silhouette(searchPoints, kMeans(searchPoints, candidate, vocabulary.length), scored);
+        if (score > bestScore) {
+          bestScore = score;
+          k = candidate;
+        }
+      }
+    }
+    onProgress(0.8);
+    assignment = kMeans(points, k, vocabulary.length);
+  }
+
+  // A title sharing no keyword with the rest of its cluster was only pulled in by its own weight on the centre;
+  // move it to the cluster it is most similar to on average
+  // Similarities come from the summed member vectors of each cluster, minus the title's own contribution
+  const clusterCount = assignment.reduce((max, cluster) => Math.max(max, cluster), 0) + 1;
+  const sums = Array.from({ length: clusterCount }, () => new Float64Array(vocabulary.length));
+  const sizes = new Array<number>(clusterCount).fill(0);
+  assignment.forEach((cluster, p) => {
+    sizes[cluster]++;
+    points[p].terms.forEach((term, t) => { sums[cluster][term] += points[p].weights[t]; });
+  });
+  assignment = assignment.map((cluster, p) => {
+    const self = dotSparse(points[p], points[p]);
+    if (dotDense(points[p], sums[cluster]) - self > 1e-9) return cluster;
+    let best = cluster;
+    let bestScore = 0;
+    sums.forEach((sum, other) => {
+      if (other === cluster || sizes[other] === 0) return;
+      const score = dotDense(points[p], sum) / sizes[other];
+      if (score > bestScore) { bestScore = score; best = other; }
+    });
+    return best;
+  });
+
+  // Gather members per cluster, label them and order the topics largest first
+  const clusters = new Map<number, number[]>();
+  assignment.forEach((cluster, p) => {
+    if (!clusters.has(cluster)) clusters.set(cluster, []);
+    clusters.get(cluster)!.push(p);
+  });
+  const labelTerms = options.labelTerms ?? 3;
+  const topics: TopicCategory[] = Array.from(clusters.values())
+    .map(members => ({
+      name: labelCluster(members.map(p => points[p]), vocabulary, labels, labelTerms),
+      items: members.map(p => titles[placeable[p]]),
+    }))
+    .sort((a, b) => b.items.length - a.items.length || a.name.localeCompare(b.name));
+  if (other.length > 0) topics.push({ name: UNCLUSTERED, items: other });
+
+  onProgress(1);
+  return topics;
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { addProbableMatches, alignNearMatches, compare, compareCounts, compareMany, overlapMetrics, regionLabel } from './compare';
+import { DEFAULT_NORMALIZATION } from '../services/normalizeService';
+
+describe('compare', () => {
+  it('handles empty lists', () => {
+    const result = compare('', '   \n\r\n');
+    expect(result.intersection).toEqual([]);
+    expect(result.stats).toMatchObject({ inBoth: 0, inAOnly: 0, inBOnly: 0, totalA: 0, totalB: 0 });
+  });
+
+  it('splits the two lists into sorted regions, ignoring CRLF and blank lines', () => {
+    const result = compare('b\r\na\r\n\r\nc', 'c\n  \nd\nb');
+    expect(result.intersection).toEqual(['b', 'c']);
+    expect(result.aOnly).toEqual(['a']);
+    expect(result.bOnly).toEqual(['d']);
+  });
+
+  it('matches by normalized key and reports List A wording', () => {
+    const result = compare(['The Matrix'], ['the  MATRIX'], { normalization: DEFAULT_NORMALIZATION });
+    expect(result.intersection).toEqual(['The Matrix']);
+    expect(result.bOnly).toEqual([]);
+  });
+
+  it('handles large inputs', () => {
+    const a = Array.from({ length: 50_000 }, (_, i) => `item ${i}`);
+    const b = Array.from({ length: 50_000 }, (_, i) => `item ${i + 25_000}`);
+    const result = compare(a, b);
+    expect(result.stats).toMatchObject({ inBoth: 25_000, inAOnly: 25_000, inBOnly: 25_000 });
+  });
+});
+
+describe('addProbableMatches', () => {
+  it('reports transposed letters and one-word typos', () => {
+    const result = addProbableMatches(
+      compare('Teh Matrix\nRecieve the package\nAlien', 'The Matrix\nReceive the package\nJaws'),
+      { metric: 'levenshtein', threshold: 0.7 }
+    );
+    expect(result.probableMatches?.map(({ a, b }) => [a, b])).toEqual([
+      ['Recieve the package', 'Receive the package'],
+      ['Teh Matrix', 'The Matrix'],
+    ]);
+    expect(result.probableMatches?.[1].score).toBeCloseTo(0.8);
+  });
+});
+
+describe('alignNearMatches', () => {
+  it('aligns single-word near matches', () => {
+    const pairs = alignNearMatches(['Colour', 'Grey', 'Banana'], ['Color', 'Gray', 'Cherry']);
+    expect(pairs.map(({ a, b }) => [a, b])).toEqual([['Colour', 'Color'], ['Grey', 'Gray']]);
+  });
+
+  it('pairs lines that differ only in dashes or invisible characters first', () => {
+    const pairs = alignNearMatches(['Spider\u2013Man', 'Spider-Men'], ['Spider-Man']);
+    expect(pairs).toEqual([{ a: 'Spider\u2013Man', b: 'Spider-Man', score: 1 }]);
+  });
+});
+
+describe('compareCounts', () => {
+  it('counts occurrences on each side', () => {
+    const result = compareCounts('a\na\nb', 'a\nc\nc\nc');
+    expect(result.counts).toEqual([
+      { item: 'a', countA: 2, countB: 1 },
+      { item: 'b', countA: 1, countB: 0 },
+      { item: 'c', countA: 0, countB: 3 },
+    ]);
+    expect(result.stats).toMatchObject({ occurrencesA: 3, occurrencesB: 4, matched: 1, surplusA: 2, surplusB: 3 });
+  });
+});
+
+describe('compareMany', () => {
+  it('groups items into regions by membership', () => {
+    const result = compareMany([{ name: 'A', items: 'x\ny' }, { name: 'B', items: 'y\nz' }]);
+    expect(result.regions).toContainEqual({ mask: 3, items: ['y'] });
+    expect(regionLabel(1, ['A', 'B'])).toBe('Only in A');
+    expect(regionLabel(3, ['A', 'B'])).toBe('In all lists');
+  });
+
+  it('compares by the match rules and keeps the first wording', () => {
+    const lists = [{ name: 'A', items: 'Alien\nJaws' }, { name: 'B', items: 'alien' }, { name: 'C', items: 'ALIEN\nheat' }];
+    const result = compareMany(lists, { normalization: DEFAULT_NORMALIZATION });
+    expect(result.regions).toEqual([{ mask: 1, items: ['Jaws'] }, { mask: 4, items: ['heat'] }, { mask: 7, items: ['Alien'] }]);
+    expect(result.lists.map(list => list.total)).toEqual([2, 1, 2]);
+    expect(compareMany(lists).totalItems).toBe(5);
+  });
+});
+
+describe('overlapMetrics', () => {
+  it('never divides by zero', () => {
+    expect(overlapMetrics(0, 0, 0)).toEqual({ jaccard: 0, dice: 0, overlap: 0, containmentAInB: 0, containmentBInA: 0 });
+  });
+});
@@ -0,0 +1,240 @@
+// Import the shared result contracts
+import { ComparisonResult, ItemCount, MultiComparisonResult, NormalizationOptions, OverlapMetrics, ProbableMatch, SetRegion, SimilarityMetric } from "../types";
+// Import the fuzzy pairing used for probable matches and the default match rules
+import { findProbableMatches } from "../services/fuzzyService";
+import { DEFAULT_NORMALIZATION, normalizeLine } from "../services/normalizeService";
+// Import the line splitting and progress helpers
+import { PROGRESS_STEP, ProgressCallback, toLines } from "./lines";
+
+// Settings accepted by compare and compareCounts
+export interface CompareOptions {
+  normalization?: NormalizationOptions; // Match rules applied before comparing (exact matching when omitted)
+}
+
+// Comparison key for a line under the given rules
+const keyFor = (normalization: NormalizationOptions | undefined) =>
+  normalization ? (line: string) => normalizeLine(line, normalization) || line : (line: string) => line;
+
+// Map each comparison key to the first line that produced it
+const firstByKey = (lines: string[], key: (line: string) => string): Map<string, string> => {
+  const map = new Map<string, string>();
+  lines.forEach(line => {
+    const k = key(line);
+    if (!map.has(k)) map.set(k, line);
+  });
+  return map;
+};
+
+// Compare two lists as sets: intersection and the items unique to each side
+// With match rules, lines are compared by their normalized key and reported as first written
+// (List A's wording for the intersection)
+export const compare = (
+  listA: string | string[],
+  listB: string | string[],
+  options: CompareOptions = {},
+  onProgress: ProgressCallback = () => {}
+): ComparisonResult => {
+  // Process both lists: split by newline, trim, filter empty lines, keep one line per key
+  const key = keyFor(options.normalization);
+  const linesA = firstByKey(toLines(listA), key);
+  const linesB = firstByKey(toLines(listB), key);
+  const setA = new Set<string>(linesA.keys());
+  const setB = new Set<string>(linesB.keys());
+  // Total iterations across both passes, used for progress
+  const work = setA.size + setB.size || 1;
+  let done = 0;
+
+  // Initialize arrays to hold categorization results
+  const intersection: string[] = []; // Items in both lists
+  const aOnly: string[] = [];        // Items only in A
+  const bOnly: string[] = [];        // Items only in B
+
+  // Iterate through Set A to find intersection and unique-to-A items
+  setA.forEach(item => {
+    if (++done % PROGRESS_STEP === 0) onProgress(done / work);
+    // Check if item exists in Set B
+    if (setB.has(item)) {
+      intersection.push(linesA.get(item)!); // It's in both
+    } else {
+      aOnly.push(linesA.get(item)!); // It's only in A
+    }
+  });
+
+  // Iterate through Set B to find items unique to B
+  setB.forEach(item => {
+    if (++done % PROGRESS_STEP === 0) onProgress(done / work);
+    // Check if item is NOT in Set A
+    if (!setA.has(item)) {
+      bOnly.push(linesB.get(item)!); // It's only in B
+    }
+  });
+
+  onProgress(1);
+  // Return the results, sorting arrays alphabetically
+  return {
+    intersection: intersection.sort(),
+    aOnly: aOnly.sort(),
+    bOnly: bOnly.sort(),
+    stats: {
+      inBoth: intersection.length, // Count of common items
+      inAOnly: aOnly.length,       // Count of A-only items
+      inBOnly: bOnly.length,       // Count of B-only items
+      totalA: setA.size,           // Total unique items in A
+      totalB: setB.size            // Total unique items in B
+    }
+  };
+};
+
+// Pair the A-only and B-only items of a comparison that are close under a fuzzy metric
+export const addProbableMatches = (
+  result: ComparisonResult,
+  fuzzy: { metric: SimilarityMetric; threshold: number },
+  onProgress: ProgressCallback = () => {}
+): ComparisonResult => {
+  const { matches, approximate } = findProbableMatches(result.aOnly, result.bOnly, { ...fuzzy, normalization: DEFAULT_NORMALIZATION }, onProgress);
+  // The flag is only present when the matching had to skip candidates
+  return { ...result, probableMatches: matches, ...(approximate ? { probableMatchesApproximate: true } : {}) };
+};
+
+// Similarity needed for two lines to be aligned in the character diff view
+const NEAR_MATCH_THRESHOLD = 0.6;
+// Alignment ignores case, spacing, dashes and invisible characters, so lines differing only in those pair up first
+const ALIGN_NORMALIZATION: NormalizationOptions = {
+  ...DEFAULT_NORMALIZATION,
+  stripInvisible: true,
+  unifyDashes: true,
+};
+
+// Align unmatched A items with their closest unmatched B item for a character-level diff
+export const alignNearMatches = (
+  aOnly: string[],
+  bOnly: string[],
+  onProgress: ProgressCallback = () => {}
+): ProbableMatch[] =>
+  findProbableMatches(aOnly, bOnly, { metric: 'levenshtein', threshold: NEAR_MATCH_THRESHOLD, normalization: ALIGN_NORMALIZATION }, onProgress).matches;
+
+// Key identifying a probable match, used to store accept/reject decisions
+export const matchKey = (match: ProbableMatch): string => `${match.a}\n${match.b}`;
+
+// Overlap measures from the shared count and the size of each list
+export const overlapMetrics = (shared: number, sizeA: number, sizeB: number): OverlapMetrics => ({
+  jaccard: shared / (sizeA + sizeB - shared || 1),
+  dice: (2 * shared) / (sizeA + sizeB || 1),
+  overlap: shared / (Math.min(sizeA, sizeB) || 1),
+  containmentAInB: shared / (sizeA || 1),
+  containmentBInA: shared / (sizeB || 1),
+});
+
+// Count the occurrences of each comparison key
+const countLines = (input: string | string[], key: (line: string) => string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  toLines(input).forEach(line => {
+    const k = key(line);
+    counts.set(k, (counts.get(k) || 0) + 1);
+  });
+  return counts;
+};
+
+// Compare two lists as multisets: the set regions of `compare` plus per-item counts on each side
+export const compareCounts = (
+  listA: string | string[],
+  listB: string | string[],
+  options: CompareOptions = {},
+  onProgress: ProgressCallback = () => {}
+): ComparisonResult => {
+  const key = keyFor(options.normalization);
+  const countsA = countLines(listA, key);
+  const countsB = countLines(listB, key);
+  const result = compare(listA, listB, options, p => onProgress(p * 0.8));
+
+  // One entry per distinct item, in the same order as the region lists
+  const counts: ItemCount[] = [...result.aOnly, ...result.intersection, ...result.bOnly]
+    .sort()
+    .map(item => ({ item, countA: countsA.get(key(item)) || 0, countB: countsB.get(key(item)) || 0 }));
+  let occurrencesA = 0, occurrencesB = 0, matched = 0;
+  counts.forEach(({ countA, countB }) => {
+    occurrencesA += countA;
+    occurrencesB += countB;
+    matched += Math.min(countA, countB);
+  });
+
+  onProgress(1);
+  return {
+    ...result,
+    stats: {
+      ...result.stats,
+      occurrencesA,
+      occurrencesB,
+      matched,
+      surplusA: occurrencesA - matched,
+      surplusB: occurrencesB - matched,
+    },
+    counts,
+  };
+};
+
+// Describe a count difference, e.g. "A has 2 more"
+export const countDifferenceLabel = ({ countA, countB }: ItemCount, nameA = 'A', nameB = 'B'): string => {
+  if (countA === countB) return 'Same count';
+  return countA > countB ? `${nameA} has ${countA - countB} more` : `${nameB} has ${countB - countA} more`;
+};
+
+// Largest number of lists compareMany accepts: one per letter of the default names "List A" to "List Z"
+// (membership masks are combined with 32-bit bitwise operators, which would allow up to 31)
+export const MAX_COMPARE_LISTS = 26;
+
+// Compare any number of lists: every region of the set diagram plus per-item membership
+// With match rules, lines are compared by their normalized key and reported as first written (earliest list first)
+export const compareMany = (
+  lists: { name: string; items: string | string[] }[],
+  options: CompareOptions = {},
+  onProgress: ProgressCallback = () => {}
+): MultiComparisonResult => {
+  if (lists.length > MAX_COMPARE_LISTS) throw new Error(`At most ${MAX_COMPARE_LISTS} lists can be compared at once`);
+  const key = keyFor(options.normalization);
+  // Bit mask of the lists each distinct key appears in, and the wording reported for it
+  const masks = new Map<string, number>();
+  const wording = new Map<string, string>();
+  const totals = lists.map((list, i) => {
+    const lines = firstByKey(toLines(list.items), key);
+    lines.forEach((line, k) => {
+      masks.set(k, (masks.get(k) || 0) | (1 << i));
+      if (!wording.has(k)) wording.set(k, line);
+    });
+    onProgress(((i + 1) / lists.length) * 0.8);
+    return lines.size;
+  });
+
+  // Group items by their mask to form the regions
+  const regionItems = new Map<number, string[]>();
+  masks.forEach((mask, k) => {
+    const item = wording.get(k)!;
+    const items = regionItems.get(mask);
+    if (items) items.push(item);
+    else regionItems.set(mask, [item]);
+  });
+  const regions: SetRegion[] = Array.from(regionItems, ([mask, items]) => ({ mask, items: items.sort() }))
+    .sort((a, b) => b.items.length - a.items.length || a.mask - b.mask);
+
+  const membership = Array.from(masks, ([k, mask]) => ({ item: wording.get(k)!, mask }))
+    .sort((a, b) => (a.item < b.item ? -1 : a.item > b.item ? 1 : 0));
+
+  onProgress(1);
+  return {
+    lists: lists.map((list, i) => ({ name: list.name, total: totals[i] })),
+    regions,
+    membership,
+    totalItems: masks.size,
+  };
+};
+
+// Indexes of the lists included in a region mask
+export const maskLists = (mask: number, listCount: number): number[] =>
+  Array.from({ length: listCount }, (_, i) => i).filter(i => mask & (1 << i));
+
+// Human-readable region name, e.g. "Only in A & C" or "In all lists"
+export const regionLabel = (mask: number, names: string[]): string => {
+  const included = maskLists(mask, names.length);
+  if (included.length === names.length) return 'In all lists';
+  return `Only in ${included.map(i => names[i]).join(' & ')}`;
+};
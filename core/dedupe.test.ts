@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { dedupe } from './dedupe';
+import { EXACT_MATCH } from '../services/normalizeService';
+
+describe('dedupe', () => {
+  it('handles empty input', () => {
+    const result = dedupe('');
+    expect(result.stats).toMatchObject({ total: 0, unique: 0, duplicates: 0 });
+    expect(result.uniqueList).toEqual([]);
+    expect(result.duplicateList).toEqual([]);
+    expect(result.nearDuplicates).toBeUndefined();
+  });
+
+  it('ignores CRLF endings and whitespace-only lines', () => {
+    const result = dedupe('Alpha\r\n   \r\nBeta\r\n\t\r\nAlpha\r\n');
+    expect(result.stats).toMatchObject({ total: 3, unique: 2, duplicates: 1 });
+    expect(result.duplicateList).toEqual(['Alpha']);
+  });
+
+  it('groups case and spacing variants under the default rules, keeping the first spelling', () => {
+    const result = dedupe(['The  Matrix', 'the matrix', 'Heat']);
+    expect(result.uniqueList).toEqual(['Heat', 'The  Matrix']);
+    expect(result.frequencyMap[0]).toEqual({ title: 'The  Matrix', count: 2, variants: ['The  Matrix', 'the matrix'] });
+  });
+
+  it('keeps every spelling apart with exact matching', () => {
+    expect(dedupe(['A', 'a'], { normalization: EXACT_MATCH }).stats.unique).toBe(2);
+  });
+
+  it('handles large inputs', () => {
+    const lines = Array.from({ length: 100_000 }, (_, i) => `Title ${i % 25_000}`);
+    const progress: number[] = [];
+    const result = dedupe(lines.join('\n'), {}, p => progress.push(p));
+    expect(result.stats).toMatchObject({ total: 100_000, unique: 25_000, duplicates: 75_000 });
+    expect(result.frequencyMap.every(item => item.count === 4)).toBe(true);
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+});
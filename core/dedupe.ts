@@ -0,0 +1,82 @@
+// Import the shared result contracts and settings types
+import { AnalysisResult, FrequencyItem, NormalizationOptions, SimilarityMetric } from "../types";
+// Import the normalization pipeline used to build duplicate keys
+import { DEFAULT_NORMALIZATION, normalizeLine } from "../services/normalizeService";
+// Import the fuzzy clustering used by near-duplicate mode
+import { findNearDuplicateClusters } from "../services/fuzzyService";
+// Import the line splitting and progress helpers
+import { PROGRESS_STEP, ProgressCallback, toLines } from "./lines";
+
+// Options accepted by dedupe
+export interface DedupeOptions {
+  normalization?: NormalizationOptions;                    // Rules used to build duplicate keys (Analyzer defaults when omitted)
+  fuzzy?: { metric: SimilarityMetric; threshold: number }; // Near-duplicate settings, omitted when disabled
+}
+
+// Group lines by normalized key, count them and optionally cluster near duplicates
+export const dedupe = (
+  input: string | string[],
+  options: DedupeOptions = {},
+  onProgress: ProgressCallback = () => {}
+): AnalysisResult => {
+  const { normalization = DEFAULT_NORMALIZATION, fuzzy } = options;
+  // Split input by newlines, trim each line, and remove empty lines
+  const lines = toLines(input);
+  // Calculate total number of valid lines
+  const total = lines.length;
+  // Without fuzzy clustering the grouping pass is the whole job
+  const groupShare = fuzzy ? 0.5 : 1;
+
+  // Group lines by their normalized key, remembering every original spelling
+  const groups = new Map<string, { title: string; count: number; variants: Set<string> }>();
+  // Iterate over all lines
+  lines.forEach((line, i) => {
+    // Report progress periodically
+    if (i % PROGRESS_STEP === 0) onProgress((i / total) * groupShare);
+    // Fall back to the raw line if normalization strips it down to nothing
+    const key = normalizeLine(line, normalization) || line;
+    // Look up the existing group for this key
+    const group = groups.get(key);
+    if (group) {
+      // Increment the count and record the spelling seen
+      group.count++;
+      group.variants.add(line);
+    } else {
+      // The first spelling seen becomes the display title for the group
+      groups.set(key, { title: line, count: 1, variants: new Set([line]) });
+    }
+  });
+  // Get the count of unique items
+  const unique = groups.size;
+
+  // Convert the groups to an array of objects for easier sorting/display
+  const frequencyList: FrequencyItem[] = Array.from(groups.values())
+    .map(({ title, count, variants }) => ({ title, count, variants: Array.from(variants) }))
+    // Sort the list by count in descending order (most frequent first)
+    .sort((a, b) => b.count - a.count);
+
+  // Extract items that appear more than once (duplicates)
+  const duplicateList = frequencyList.filter(item => item.count > 1).map(item => item.title);
+
+  // Cluster the distinct entries by similarity when near-duplicate mode is on
+  const near = fuzzy
+    ? findNearDuplicateClusters(frequencyList, { ...fuzzy, normalization }, f => onProgress(groupShare + f * (1 - groupShare)))
+    : undefined;
+
+  onProgress(1);
+  // Return the calculated statistics and lists
+  return {
+    stats: {
+      total,
+      unique,
+      duplicates: total - unique, // Calculate duplicates count
+      processedAt: new Date().toLocaleTimeString(), // Store current time
+    },
+    uniqueList: frequencyList.map(item => item.title).sort(), // Store sorted unique list
+    duplicateList, // Store list of duplicate titles
+    frequencyMap: frequencyList, // Store full frequency data
+    nearDuplicates: near?.clusters,
+    // Only present when the clustering had to skip candidates
+    ...(near?.approximate ? { nearDuplicatesApproximate: true } : {}),
+  };
+};
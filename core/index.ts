@@ -0,0 +1,16 @@
+// Headless core: pure list operations shared by the React tools, the worker and the pipeline
+// Nothing in this folder touches React or the DOM, so it can run anywhere TypeScript runs
+export { splitLines, toLines, PROGRESS_STEP } from "./lines";
+export type { ProgressCallback } from "./lines";
+export { dedupe } from "./dedupe";
+export type { DedupeOptions } from "./dedupe";
+export type { CompareOptions } from "./compare";
+export { compare, compareCounts, countDifferenceLabel, addProbableMatches, alignNearMatches, matchKey, overlapMetrics, compareMany, maskLists, regionLabel, MAX_COMPARE_LISTS } from "./compare";
+export { diffRecords } from "./recordDiff";
+export { validateCategories, restrictToTaxonomy, categoryNameKey, UNCATEGORIZED, TAXONOMY_OTHER } from "./categories";
+export { clusterTitles, UNCLUSTERED } from "./cluster";
+export type { ClusterOptions } from "./cluster";
+export { batch, SPLIT_MODES, BUDGET_UNITS, measureItem, getAlphaLabel, getSetLabel, getFormattedCount, formatSetItem, formatSetFrame, formatSetText, SET_TEMPLATE_PLACEHOLDERS } from "./batch";
+export type { SetFormatOptions, SetTemplate, SetContext, BatchOptions, SplitValueKind } from "./batch";
+export { renderTemplate, unknownPlaceholders, TEMPLATE_TRANSFORMS } from "./template";
+export type { TemplateValues, TemplateTransform } from "./template";
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { splitLines, toLines } from './lines';
+
+describe('splitLines', () => {
+  it('returns nothing for empty or whitespace-only input', () => {
+    expect(splitLines('')).toEqual([]);
+    expect(splitLines('   \n\t\n  \r\n')).toEqual([]);
+  });
+
+  it('accepts LF, CRLF and lone CR line endings', () => {
+    expect(splitLines('a\nb\r\nc\rd')).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('trims lines and drops blank ones', () => {
+    expect(splitLines('  a  \r\n\r\n   \r\n b\t')).toEqual(['a', 'b']);
+  });
+});
+
+describe('toLines', () => {
+  it('trims and filters lines that are already split', () => {
+    expect(toLines([' a ', '', '  ', 'b'])).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,13 @@
+// Callback receiving the completed fraction of a long-running operation (0 - 1)
+export type ProgressCallback = (fraction: number) => void;
+
+// Number of loop iterations between progress reports
+export const PROGRESS_STEP = 2000;
+
+// Split raw text into trimmed, non-empty lines (handles LF, CRLF and lone CR endings)
+export const splitLines = (text: string): string[] =>
+  text.split(/\r\n|\r|\n/).map(l => l.trim()).filter(l => l !== '');
+
+// Accept either raw text or lines that are already split
+export const toLines = (input: string | string[]): string[] =>
+  typeof input === 'string' ? splitLines(input) : input.map(l => l.trim()).filter(l => l !== '');
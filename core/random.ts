@@ -0,0 +1,12 @@
+// Deterministic pseudo-random generator (mulberry32) so a seed always gives the same sequence
+// Used wherever results must be repeatable: the shuffled split mode and k-means seeding
+export const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { diffRecords } from './recordDiff';
+import { TabularData } from '../types';
+
+const table = (headers: string[], rows: string[][]): TabularData => ({ fileName: 'test.csv', delimiter: ',', hasHeader: true, headers, rows });
+
+describe('diffRecords', () => {
+  it('reports added, removed, modified and unchanged rows by key', () => {
+    const before = table(['ID', 'Title', 'Year'], [['1', 'Alien', '1979'], ['2', 'Jaws', '1975'], ['3', 'Heat', '1995']]);
+    const after = table(['ID', 'Title', 'Year'], [['3', 'Heat', '1995'], ['1', 'Alien', '1986'], ['4', 'Up', '2009']]);
+    expect(diffRecords(before, 0, after, 0)).toEqual({
+      keyColumn: 'ID',
+      columns: ['Title', 'Year'],
+      columnsOnlyA: [],
+      columnsOnlyB: [],
+      added: [{ key: '4', cells: ['Up', '2009'] }],
+      removed: [{ key: '2', cells: ['Jaws', '1975'] }],
+      modified: [{ key: '1', before: ['Alien', '1979'], after: ['Alien', '1986'], changed: [1] }],
+      unchanged: 1,
+      duplicateKeys: [],
+    });
+  });
+
+  it('matches columns by heading and lists the ones only one table has', () => {
+    const before = table(['Title', 'Code', 'Notes'], [['Alien', 'A1', 'x']]);
+    const after = table(['Rating', 'Title', 'Key'], [['R', 'Alien', 'A1']]);
+    const result = diffRecords(before, 1, after, 2);
+    expect(result).toMatchObject({ keyColumn: 'Code', columns: ['Title'], columnsOnlyA: ['Notes'], columnsOnlyB: ['Rating'], unchanged: 1 });
+  });
+
+  it('ignores surrounding whitespace and line breaks, skips blank keys and keeps the first of repeated keys', () => {
+    const before = table(['ID', 'Title'], [[' 1 ', 'The\r\n Matrix'], ['', 'No key'], ['2', 'Jaws'], ['2', 'Jaws 2']]);
+    const after = table(['ID', 'Title'], [['1', 'The Matrix '], ['2', 'Jaws']]);
+    expect(diffRecords(before, 0, after, 0)).toMatchObject({ added: [], removed: [], modified: [], unchanged: 2, duplicateKeys: ['2'] });
+  });
+});
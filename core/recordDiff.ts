@@ -0,0 +1,96 @@
+// Import the table and record-diff contracts
+import { KeyedRecord, ModifiedRecord, RecordDiffResult, TabularData } from "../types";
+// Import the progress helpers
+import { PROGRESS_STEP, ProgressCallback } from "./lines";
+
+// Normalize a cell for comparison: surrounding whitespace and line breaks inside a cell are not changes
+const cellValue = (value: string | undefined): string => (value ?? '').replace(/\s*[\r\n]+\s*/g, ' ').trim();
+
+// Index a table's rows by key; rows without a key are skipped and repeated keys keep their first row
+const indexRows = (table: TabularData, keyColumn: number, duplicates: Set<string>): Map<string, string[]> => {
+  const rows = new Map<string, string[]>();
+  table.rows.forEach(row => {
+    const key = cellValue(row[keyColumn]);
+    if (!key) return;
+    if (rows.has(key)) duplicates.add(key);
+    else rows.set(key, row);
+  });
+  return rows;
+};
+
+// Sort records by key
+const byKey = <T extends { key: string }>(a: T, b: T) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0);
+
+// Diff two tables row by row using a key column in each
+// Columns are matched by heading; those missing from either table are listed but not compared
+export const diffRecords = (
+  tableA: TabularData,
+  keyA: number,
+  tableB: TabularData,
+  keyB: number,
+  onProgress: ProgressCallback = () => {}
+): RecordDiffResult => {
+  // Column pairs (index in A, index in B) compared by heading
+  const headingsB = new Map<string, number>();
+  tableB.headers.forEach((heading, i) => {
+    if (i !== keyB && !headingsB.has(heading)) headingsB.set(heading, i);
+  });
+  const pairs: { name: string; a: number; b: number }[] = [];
+  const columnsOnlyA: string[] = [];
+  tableA.headers.forEach((heading, i) => {
+    if (i === keyA) return;
+    const b = headingsB.get(heading);
+    if (b === undefined) {
+      columnsOnlyA.push(heading);
+    } else {
+      pairs.push({ name: heading, a: i, b });
+      headingsB.delete(heading);
+    }
+  });
+  const columnsOnlyB = Array.from(headingsB.keys());
+
+  const duplicates = new Set<string>();
+  const rowsA = indexRows(tableA, keyA, duplicates);
+  const rowsB = indexRows(tableB, keyB, duplicates);
+  const work = rowsA.size + rowsB.size || 1;
+  let done = 0;
+
+  const added: KeyedRecord[] = [];
+  const removed: KeyedRecord[] = [];
+  const modified: ModifiedRecord[] = [];
+  let unchanged = 0;
+
+  // Keys in A: removed, modified or unchanged
+  rowsA.forEach((rowA, key) => {
+    if (++done % PROGRESS_STEP === 0) onProgress(done / work);
+    const before = pairs.map(pair => cellValue(rowA[pair.a]));
+    const rowB = rowsB.get(key);
+    if (!rowB) {
+      removed.push({ key, cells: before });
+      return;
+    }
+    const after = pairs.map(pair => cellValue(rowB[pair.b]));
+    const changed = pairs.map((_, i) => i).filter(i => before[i] !== after[i]);
+    if (changed.length) modified.push({ key, before, after, changed });
+    else unchanged++;
+  });
+
+  // Keys only in B: added
+  rowsB.forEach((rowB, key) => {
+    if (++done % PROGRESS_STEP === 0) onProgress(done / work);
+    if (!rowsA.has(key)) added.push({ key, cells: pairs.map(pair => cellValue(rowB[pair.b])) });
+  });
+
+  onProgress(1);
+  return {
+    keyColumn: tableA.headers[keyA] ?? 'Key',
+    columns: pairs.map(pair => pair.name),
+    columnsOnlyA,
+    columnsOnlyB,
+    added: added.sort(byKey),
+    removed: removed.sort(byKey),
+    modified: modified.sort(byKey),
+    unchanged,
+    duplicateKeys: Array.from(duplicates).sort(),
+  };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { renderTemplate, unknownPlaceholders } from './template';
+
+describe('renderTemplate', () => {
+  it('returns an empty template unchanged', () => {
+    expect(renderTemplate('', { item: 'x' })).toBe('');
+  });
+
+  it('replaces placeholders and keeps surrounding whitespace', () => {
+    expect(renderTemplate('  {item}\t|', { item: 'x' })).toBe('  x\t|');
+  });
+
+  it('pads with zeros or spaces', () => {
+    expect(renderTemplate('{n:03}|{n:4}', { n: 7 })).toBe('007|   7');
+  });
+
+  it('applies transforms in order', () => {
+    expect(renderTemplate('{t|upper} {t|slug} {t|lower|slug}', { t: 'Café Crème!' })).toBe('CAFÉ CRÈME! cafe-creme cafe-creme');
+  });
+
+  it('writes escaped braces literally', () => {
+    expect(renderTemplate('{{item}} {item}', { item: 'x' })).toBe('{item} x');
+  });
+
+  it('leaves unknown placeholders and transforms as written', () => {
+    expect(renderTemplate('{missing} {item|shout}', { item: 'x' })).toBe('{missing} {item|shout}');
+    expect(unknownPlaceholders('{item} {missing} {item|shout} {{x}}', ['item'])).toEqual(['{missing}', '{item|shout}']);
+  });
+
+  it('never reads placeholders off the object prototype', () => {
+    expect(renderTemplate('{constructor} {toString} {__proto__} {item}', { item: 'x' })).toBe('{constructor} {toString} {__proto__} x');
+    expect(unknownPlaceholders('{constructor} {hasOwnProperty}', ['item'])).toEqual(['{constructor}', '{hasOwnProperty}']);
+  });
+});
@@ -0,0 +1,65 @@
+// Tiny template language for Batcher output lines
+// Placeholders look like {name}, {name:03} (zero-padded to 3 digits) or {name|upper|slug};
+// {{ and }} write literal braces
+
+// Values a template can read, by placeholder name
+export type TemplateValues = Record<string, string | number>;
+
+// Transform applied to a placeholder value with "|name"
+export type TemplateTransform = 'upper' | 'lower' | 'slug';
+
+// Transforms in the order they are listed in the help text
+export const TEMPLATE_TRANSFORMS: { id: TemplateTransform; description: string }[] = [
+  { id: 'upper', description: 'UPPER CASE' },
+  { id: 'lower', description: 'lower case' },
+  { id: 'slug', description: 'url-friendly-slug' },
+];
+
+// A placeholder with optional width and transforms, or an escaped brace
+const TOKEN_PATTERN = /\{\{|\}\}|\{(\w+)(?::(\d+))?((?:\|\w+)*)\}/g;
+
+// Lower-case, strip accents and join words with hyphens
+const slugify = (value: string): string =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+// Apply one transform by name
+const applyTransform = (value: string, transform: TemplateTransform): string => {
+  if (transform === 'upper') return value.toUpperCase();
+  if (transform === 'lower') return value.toLowerCase();
+  return slugify(value);
+};
+
+// Pad a value to a width: "03" pads with zeros, "3" with spaces
+const pad = (value: string, spec: string): string =>
+  value.padStart(parseInt(spec, 10), spec.startsWith('0') ? '0' : ' ');
+
+// Render a template; unknown placeholders and transforms are left as written so mistakes stay visible
+export const renderTemplate = (template: string, values: TemplateValues): string =>
+  template.replace(TOKEN_PATTERN, (token, name: string | undefined, width: string | undefined, transforms: string) => {
+    // Escaped braces
+    if (token === '{{') return '{';
+    if (token === '}}') return '}';
+    // Own keys only, so {constructor} or {toString} are not read off the object prototype
+    if (!name || !Object.prototype.hasOwnProperty.call(values, name)) return token;
+    const names = transforms ? transforms.slice(1).split('|') : [];
+    if (names.some(t => !TEMPLATE_TRANSFORMS.some(known => known.id === t))) return token;
+    let value = String(values[name]);
+    if (width) value = pad(value, width);
+    return names.reduce((result, t) => applyTransform(result, t as TemplateTransform), value);
+  });
+
+// Placeholders in a template that would not be replaced (unknown names or transforms)
+export const unknownPlaceholders = (template: string, names: string[]): string[] => {
+  const values = Object.fromEntries(names.map(name => [name, ''])) as TemplateValues;
+  const unknown: string[] = [];
+  template.replace(TOKEN_PATTERN, token => {
+    if (token !== '{{' && token !== '}}' && renderTemplate(token, values) === token) unknown.push(token);
+    return token;
+  });
+  return unknown;
+};
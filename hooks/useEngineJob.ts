@@ -0,0 +1,51 @@
+// Import React hooks for state, refs and cleanup
+import { useCallback, useEffect, useRef, useState } from 'react';
+// Import the worker client
+import { EngineJob, runEngineJob } from '../services/engineService';
+// Import the task map describing every job's payload and result
+import { EngineTask, EngineTaskMap } from '../services/engineTasks';
+
+// Hook that runs engine tasks in a worker and exposes progress and cancellation to a component
+// Starting a new job cancels the previous one, and unmounting cancels whatever is running
+export const useEngineJob = () => {
+  // Whether a job is currently running
+  const [running, setRunning] = useState(false);
+  // Completed fraction of the running job (0 - 1)
+  const [progress, setProgress] = useState(0);
+  // Handle of the running job, if any
+  const jobRef = useRef<EngineJob<unknown> | null>(null);
+
+  // Cancel the running job (no-op when idle)
+  const cancel = useCallback(() => {
+    jobRef.current?.cancel();
+    jobRef.current = null;
+    setRunning(false);
+  }, []);
+
+  // Start a task; rejects with JobCancelledError if cancelled or superseded
+  const run = useCallback(async <T extends EngineTask>(
+    task: T,
+    payload: EngineTaskMap[T]['payload']
+  ): Promise<EngineTaskMap[T]['result']> => {
+    // Only one job per component at a time
+    jobRef.current?.cancel();
+    const job = runEngineJob(task, payload, setProgress);
+    jobRef.current = job;
+    setProgress(0);
+    setRunning(true);
+    try {
+      return await job.promise;
+    } finally {
+      // Only clear the running flag if no newer job replaced this one
+      if (jobRef.current === job) {
+        jobRef.current = null;
+        setRunning(false);
+      }
+    }
+  }, []);
+
+  // Cancel any running job when the component unmounts
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  return { run, cancel, running, progress };
+};
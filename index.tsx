@@ -4,6 +4,8 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 // Import the main App component which serves as the root of our UI
 import App from './App';
+// Import the provider that loads and autosaves workspaces
+import { WorkspaceProvider } from './context/WorkspaceContext';
 
 // Retrieve the HTML element with the ID 'root' from index.html
 const rootElement = document.getElementById('root');
@@ -21,7 +23,10 @@ const root = ReactDOM.createRoot(rootElement);
 root.render(
   // React.StrictMode activates additional checks and warnings for descendants
   <React.StrictMode>
-    {/* Render the main App component */}
-    <App />
+    {/* Provide persistent workspaces to every tool */}
+    <WorkspaceProvider>
+      {/* Render the main App component */}
+      <App />
+    </WorkspaceProvider>
   </React.StrictMode>
 );
\ No newline at end of file
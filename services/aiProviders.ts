@@ -0,0 +1,326 @@
+// Import the GoogleGenAI class from the official SDK
+import { GoogleGenAI } from "@google/genai";
+// Import the AI settings and category contracts
+import { AIProviderId, AISettings, TaxonomyCategory, TopicCategory } from "../types";
+// Import the name of the catch-all taxonomy bucket
+import { TAXONOMY_OTHER } from "../core";
+
+// localStorage keys: the current settings, and the Gemini key saved by earlier versions
+const SETTINGS_KEY = "horizon_ai_settings";
+const LEGACY_KEY = "horizon_gemini_key";
+
+// What a chunk may be sorted into: names chosen by earlier chunks, or a fixed taxonomy
+export interface CategorizeGuide {
+  knownNames: string[];           // Category names from earlier chunks, to be reused
+  taxonomy?: TaxonomyCategory[];  // Fixed categories; when set, titles go only to these or "Other"
+}
+
+// What categorization needs from a backend: sort one chunk, and merge category names across chunks
+export interface AIProvider {
+  categorize: (titles: string[], guide: CategorizeGuide, signal?: AbortSignal) => Promise<TopicCategory[]>;
+  reconcile: (names: string[], signal?: AbortSignal) => Promise<{ name: string; canonical: string }[]>;
+}
+
+// Labels, defaults and requirements for each provider, used by the Settings modal
+export const AI_PROVIDERS: {
+  id: AIProviderId;
+  label: string;
+  description: string;
+  defaultModel: string;
+  defaultEndpoint: string;
+  needsKey: boolean;      // The key field must be filled in
+  needsEndpoint: boolean; // The endpoint field is shown and must be filled in
+}[] = [
+  {
+    id: 'gemini',
+    label: 'Google Gemini',
+    description: 'Gemini API with your own key.',
+    defaultModel: 'gemini-2.5-flash',
+    defaultEndpoint: '',
+    needsKey: true,
+    needsEndpoint: false,
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI-Compatible',
+    description: 'Any /chat/completions API: OpenAI, or a local server such as Ollama, LM Studio or llama.cpp.',
+    defaultModel: 'gpt-4o-mini',
+    defaultEndpoint: 'https://api.openai.com/v1',
+    needsKey: false,
+    needsEndpoint: true,
+  },
+  {
+    id: 'mock',
+    label: 'Offline Mock',
+    description: 'Deterministic keyword grouping with no network, for demos and tests.',
+    defaultModel: '',
+    defaultEndpoint: '',
+    needsKey: false,
+    needsEndpoint: false,
+  },
+];
+
+// Default settings for a provider
+export const defaultAISettings = (provider: AIProviderId = 'gemini'): AISettings => {
+  const info = AI_PROVIDERS.find(p => p.id === provider) ?? AI_PROVIDERS[0];
+  return { provider: info.id, model: info.defaultModel, endpoint: info.defaultEndpoint, apiKey: '' };
+};
+
+// Why the settings cannot run yet, or null when they can
+export const aiSettingsError = (settings: AISettings): string | null => {
+  const info = AI_PROVIDERS.find(p => p.id === settings.provider);
+  if (!info) return `Unknown AI provider: ${settings.provider}`;
+  if (info.needsKey && !settings.apiKey.trim()) return "API Key is missing. Please configure it in the settings.";
+  if (info.needsEndpoint && !settings.endpoint.trim()) return "API endpoint is missing. Please configure it in the settings.";
+  return null;
+};
+
+// Load the saved settings; a key saved by earlier versions becomes Gemini settings
+export const loadAISettings = (): AISettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (stored && AI_PROVIDERS.some(p => p.id === stored.provider)) {
+      return { ...defaultAISettings(stored.provider), ...stored };
+    }
+  } catch {
+    // Unreadable settings fall through to the defaults
+  }
+  return { ...defaultAISettings(), apiKey: localStorage.getItem(LEGACY_KEY) || '' };
+};
+
+// Save the settings (and drop the legacy key)
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  localStorage.removeItem(LEGACY_KEY);
+};
+
+// Remove the saved settings
+export const clearAISettings = () => {
+  localStorage.removeItem(SETTINGS_KEY);
+  localStorage.removeItem(LEGACY_KEY);
+};
+
+// JSON Schema for one chunk: a list of named categories with their titles
+// With a taxonomy, category names are limited to its names plus "Other"
+const categorySchema = (names?: string[]) => ({
+  type: "object", // The root response must be an object
+  properties: {
+    categories: {
+      type: "array", // It should contain an array named 'categories'
+      items: {
+        type: "object", // Each item in the array is an object
+        properties: {
+          name: names // Category name
+            ? { type: "string", enum: [...names, TAXONOMY_OTHER], description: "One of the allowed category names" }
+            : { type: "string", description: "The name of the category/topic" },
+          items: {
+            type: "array", // Category items list
+            items: { type: "string" }, // Items are strings
+            description: "The list of titles belonging to this category"
+          }
+        },
+        required: ["name", "items"] // Both fields are mandatory
+      }
+    }
+  },
+  required: ["categories"] // The 'categories' field is mandatory
+});
+
+// JSON Schema for the reconciliation pass: every category name mapped to its merged name
+const MAPPING_SCHEMA = {
+  type: "object",
+  properties: {
+    mappings: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "A category name from the input list" },
+          canonical: { type: "string", description: "The merged category name it belongs to" }
+        },
+        required: ["name", "canonical"]
+      }
+    }
+  },
+  required: ["mappings"]
+};
+
+// Prompt for one chunk; names from earlier chunks are offered so the taxonomy stays consistent
+const categorizePrompt = (titles: string[], knownNames: string[]): string => `
+    You are an expert content organizer.
+    Analyze the following list of titles and group them into distinct, logical topics or categories.
+    Every title must appear in exactly one category, written exactly as given.
+    ${knownNames.length > 0 ? `
+    Earlier parts of the same list used these categories. Reuse a name whenever a title fits it,
+    and only create a new category when none fits:
+    ${JSON.stringify(knownNames)}
+    ` : ''}
+    Titles to categorize:
+    ${JSON.stringify(titles)}
+  `;
+
+// Prompt for one chunk against a fixed taxonomy; descriptions and examples tell the model what belongs where
+const taxonomyPrompt = (titles: string[], taxonomy: TaxonomyCategory[]): string => `
+    You are an expert content organizer.
+    Assign each of the following titles, written exactly as given, to exactly one of the categories below.
+    Use the category names exactly as listed and do not create any other category.
+    Titles that fit none of them go to "${TAXONOMY_OTHER}".
+
+    Categories:
+    ${taxonomy.map(category => [
+      `- ${category.name}`,
+      category.description ? `  Description: ${category.description}` : '',
+      category.examples.length > 0 ? `  Example titles: ${JSON.stringify(category.examples)}` : '',
+    ].filter(Boolean).join('\n    ')).join('\n    ')}
+
+    Titles to categorize:
+    ${JSON.stringify(titles)}
+  `;
+
+// Prompt asking which category names from different chunks describe the same topic
+const reconcilePrompt = (names: string[]): string => `
+    These category names were produced for different parts of one list of titles.
+    Merge names that describe the same topic (synonyms, singular/plural, broader/narrower wording).
+    Map every input name to its merged name; use one of the input names as the merged name where possible.
+    Names that have no equivalent map to themselves.
+
+    Category names:
+    ${JSON.stringify(names)}
+  `;
+
+// Sends a prompt and returns the parsed JSON reply
+type JsonCompletion = (prompt: string, schema: object, signal?: AbortSignal) => Promise<unknown>;
+
+// Parse a model reply, tolerating a ```json fence around it
+const parseReply = (text: string | undefined): unknown => {
+  // Throw an error if no text was returned
+  if (!text) throw new Error("No response from AI");
+  return JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+};
+
+// Gemini through the official SDK, constrained by the JSON Schema
+const geminiCompletion = (settings: AISettings): JsonCompletion => {
+  // Initialize the Gemini AI client with the provided API Key
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+  return async (prompt, schema, signal) => {
+    const response = await ai.models.generateContent({
+      model: settings.model || defaultAISettings('gemini').model, // Specify the model version
+      contents: prompt,                                            // Pass the prompt
+      config: {
+        responseMimeType: "application/json", // Request JSON output format
+        responseJsonSchema: schema,
+        abortSignal: signal,
+      }
+    });
+    // Extract the text content from the API response
+    return parseReply(response.text);
+  };
+};
+
+// Any OpenAI-compatible /chat/completions endpoint; the key is optional for local servers
+const openAICompletion = (settings: AISettings): JsonCompletion => async (prompt, schema, signal) => {
+  const response = await fetch(`${settings.endpoint.trim().replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.apiKey.trim() ? { Authorization: `Bearer ${settings.apiKey.trim()}` } : {}),
+    },
+    body: JSON.stringify({
+      model: settings.model,
+      messages: [
+        { role: 'system', content: 'Reply with a single JSON object that matches the requested schema, and nothing else.' },
+        { role: 'user', content: prompt },
+      ],
+      response_format: { type: 'json_schema', json_schema: { name: 'result', schema } },
+    }),
+    signal,
+  });
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).slice(0, 200);
+    throw new Error(`AI endpoint returned ${response.status}${detail ? `: ${detail}` : ''}`);
+  }
+  const data = await response.json();
+  return parseReply(data?.choices?.[0]?.message?.content);
+};
+
+// Provider that prompts a model through a JSON completion function
+const promptProvider = (complete: JsonCompletion): AIProvider => ({
+  categorize: async (titles, { knownNames, taxonomy }, signal) => {
+    const result = await complete(
+      taxonomy ? taxonomyPrompt(titles, taxonomy) : categorizePrompt(titles, knownNames),
+      categorySchema(taxonomy?.map(category => category.name)),
+      signal
+    ) as { categories?: TopicCategory[] };
+    return result?.categories || [];
+  },
+  reconcile: async (names, signal) => {
+    const result = await complete(reconcilePrompt(names), MAPPING_SCHEMA, signal) as { mappings?: { name: string; canonical: string }[] };
+    return result?.mappings || [];
+  },
+});
+
+// Words ignored by the mock when picking a keyword
+const STOP_WORDS = new Set([
+  'about', 'after', 'before', 'best', 'from', 'have', 'into', 'more', 'most', 'that', 'their', 'them',
+  'then', 'there', 'these', 'this', 'what', 'when', 'where', 'which', 'while', 'with', 'without', 'your',
+]);
+
+// Keywords of a title: lowercase words of four or more letters that are not stop words
+const keywords = (title: string): string[] =>
+  (title.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(word => word.length >= 4 && !STOP_WORDS.has(word));
+
+// Taxonomy category sharing the most keywords with a title (name, description and examples all count);
+// ties go to the earlier category, and a title sharing none goes to "Other"
+const closestTaxonomyCategory = (title: string, taxonomy: TaxonomyCategory[]): string => {
+  const words = new Set(keywords(title));
+  let best = TAXONOMY_OTHER;
+  let bestScore = 0;
+  taxonomy.forEach(category => {
+    const vocabulary = new Set(keywords([category.name, category.description, ...category.examples].join(' ')));
+    const score = Array.from(words).filter(word => vocabulary.has(word)).length;
+    if (score > bestScore) {
+      bestScore = score;
+      best = category.name;
+    }
+  });
+  return best;
+};
+
+// Deterministic offline provider: each title joins a known category named in it, otherwise the category of
+// its most frequent keyword in the chunk; titles without a shared keyword go to "Other"
+// With a taxonomy, each title joins the taxonomy category it shares the most keywords with
+const mockProvider: AIProvider = {
+  categorize: async (titles, { knownNames, taxonomy }) => {
+    if (taxonomy) {
+      const groups = new Map<string, string[]>();
+      titles.forEach(title => {
+        const name = closestTaxonomyCategory(title, taxonomy);
+        groups.set(name, [...(groups.get(name) ?? []), title]);
+      });
+      return Array.from(groups, ([name, items]) => ({ name, items }));
+    }
+    const frequency = new Map<string, number>();
+    titles.forEach(title => new Set(keywords(title)).forEach(word => frequency.set(word, (frequency.get(word) ?? 0) + 1)));
+    const groups = new Map<string, string[]>();
+    titles.forEach(title => {
+      const lower = title.toLowerCase();
+      const known = knownNames.find(name => name !== TAXONOMY_OTHER && lower.includes(name.toLowerCase()));
+      // Most frequent keyword, ties broken alphabetically; a keyword seen once does not make a category
+      const best = keywords(title)
+        .filter(word => (frequency.get(word) ?? 0) > 1)
+        .sort((a, b) => (frequency.get(b)! - frequency.get(a)!) || (a < b ? -1 : 1))[0];
+      const name = known ?? (best ? best.charAt(0).toUpperCase() + best.slice(1) : TAXONOMY_OTHER);
+      groups.set(name, [...(groups.get(name) ?? []), title]);
+    });
+    return Array.from(groups, ([name, items]) => ({ name, items }));
+  },
+  // Names are already consistent across chunks, so every name maps to itself
+  reconcile: async names => names.map(name => ({ name, canonical: name })),
+};
+
+// Create the provider for the given settings
+export const createProvider = (settings: AISettings): AIProvider => {
+  if (settings.provider === 'mock') return mockProvider;
+  if (settings.provider === 'openai') return promptProvider(openAICompletion(settings));
+  return promptProvider(geminiCompletion(settings));
+};
@@ -0,0 +1,118 @@
+// Import the AI settings and category contracts
+import { AIAnalysisResult, AISettings, TaxonomyCategory, TopicCategory } from "../types";
+// Import the provider factory and the settings check
+import { aiSettingsError, createProvider } from "./aiProviders";
+// Import the cancellation error shared with the background engine
+import { JobCancelledError } from "./engineService";
+// Import the check that matches the reply back to the input titles, and the taxonomy restriction
+import { TAXONOMY_OTHER, UNCATEGORIZED, categoryNameKey, restrictToTaxonomy, validateCategories } from "../core";
+
+// Number of titles sent to the model per request; larger lists are split into chunks of this size
+export const AI_CHUNK_SIZE = 400;
+
+// Options for a categorization run
+export interface CategorizeOptions {
+  onProgress?: (done: number, total: number) => void; // Called as each request completes (chunks, then reconciliation)
+  signal?: AbortSignal;                               // Aborts the run between and during requests
+  taxonomy?: TaxonomyCategory[];                      // Fixed categories; titles go only to these or "Other"
+}
+
+// Number of requests a run makes: one per chunk, plus the reconciliation pass when there are several chunks
+// (a fixed taxonomy needs no reconciliation, since its names cannot drift)
+export const categorizeSteps = (titleCount: number, withTaxonomy = false): number => {
+  const chunks = Math.ceil(titleCount / AI_CHUNK_SIZE);
+  return chunks > 1 && !withTaxonomy ? chunks + 1 : chunks;
+};
+
+// Merge categories whose names map to the same key, keeping the first name seen and the order of appearance
+const mergeCategories = (categories: TopicCategory[], rename: (name: string) => string = name => name): TopicCategory[] => {
+  const merged = new Map<string, TopicCategory>();
+  categories.forEach(category => {
+    // Replies are not trusted to be well-formed: a missing name or item list is treated as empty
+    const name = rename(String(category.name ?? '')).trim();
+    const items = Array.isArray(category.items) ? category.items : [];
+    const key = categoryNameKey(name);
+    const existing = merged.get(key);
+    if (existing) {
+      existing.items.push(...items);
+    } else {
+      merged.set(key, { name, items: [...items] });
+    }
+  });
+  return Array.from(merged.values());
+};
+
+// Define an asynchronous function to categorize titles with the configured AI provider
+// Takes an array of titles (strings) and the AI settings from the Settings modal
+// Lists longer than AI_CHUNK_SIZE are categorized chunk by chunk and then reconciled into one set of categories
+// With a taxonomy, titles are only assigned to its categories (or "Other") and nothing needs reconciling
+export const categorizeTitles = async (
+  titles: string[],
+  settings: AISettings,
+  options: CategorizeOptions = {}
+): Promise<AIAnalysisResult> => {
+  const { onProgress = () => {}, signal, taxonomy } = options;
+
+  // Check that the provider has what it needs (e.g. an API key)
+  const problem = aiSettingsError(settings);
+  // If not, throw an error to be caught by the UI
+  if (problem) throw new Error(problem);
+
+  // Create the client for the chosen provider
+  const provider = createProvider(settings);
+
+  // Check if the input titles array is empty
+  if (titles.length === 0) {
+    // Return an empty category structure if there is no input
+    return { categories: [] };
+  }
+
+  // Split the input into chunks small enough for one request each (nothing is dropped)
+  const chunks: string[][] = [];
+  for (let i = 0; i < titles.length; i += AI_CHUNK_SIZE) chunks.push(titles.slice(i, i + AI_CHUNK_SIZE));
+  const total = categorizeSteps(titles.length, !!taxonomy);
+
+  // Start a try-catch block to handle potential API errors
+  try {
+    // Chunks run one after another so each sees the category names chosen so far
+    let categories: TopicCategory[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+      if (signal?.aborted) throw new JobCancelledError();
+      const chunkCategories = await provider.categorize(chunks[i], { knownNames: categories.map(c => c.name), taxonomy }, signal);
+      categories = mergeCategories([...categories, ...chunkCategories]);
+      onProgress(i + 1, total);
+    }
+    if (taxonomy) {
+      // Replies are held to the taxonomy: unknown names go to "Other", whatever the model sent
+      categories = restrictToTaxonomy(categories, taxonomy.map(c => c.name));
+    } else if (chunks.length > 1) {
+      // Reconciliation pass: fold together names that drifted between chunks
+      if (signal?.aborted) throw new JobCancelledError();
+      try {
+        const mappings = await provider.reconcile(categories.map(c => c.name), signal);
+        const mapping = new Map(mappings
+          .filter(m => m.name && m.canonical)
+          .map(m => [categoryNameKey(m.name), m.canonical]));
+        categories = mergeCategories(categories, name => mapping.get(categoryNameKey(name)) ?? name);
+      } catch (error) {
+        // The chunk results are still complete, so a failed reconciliation keeps them unmerged
+        if (signal?.aborted) throw new JobCancelledError();
+        console.error("Category reconciliation failed:", error);
+      }
+      onProgress(total, total);
+    }
+
+    // A provider that ignores the signal may still answer after a cancel; that reply is discarded
+    if (signal?.aborted) throw new JobCancelledError();
+    // Match every returned item back to an input title; leftovers go to "Uncategorized", or to "Other" under a taxonomy
+    return validateCategories(titles, categories, taxonomy ? TAXONOMY_OTHER : UNCATEGORIZED);
+
+  } catch (error) {
+    // A cancelled run is expected and reported as such
+    if (signal?.aborted) throw new JobCancelledError();
+    // Log the error to the console for debugging purposes
+    console.error("Error calling the AI provider:", error);
+    // Re-throw the error so the UI component can handle it and show a message
+    throw error;
+  }
+};
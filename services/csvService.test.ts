@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { detectHeader, parseDelimited, parseTable, sniffDelimiter } from './csvService';
+
+describe('parseDelimited', () => {
+  it('handles quotes, doubled quotes, embedded newlines and CRLF', () => {
+    expect(parseDelimited('a,"b, ""c"""\r\n"multi\nline",d\r\n\r\n', ',')).toEqual([
+      ['a', 'b, "c"'],
+      ['multi\nline', 'd'],
+    ]);
+  });
+});
+
+describe('sniffDelimiter', () => {
+  it('returns null for a plain list', () => {
+    expect(sniffDelimiter('Hello, world\nGoodbye\nSee you')).toBeNull();
+    expect(sniffDelimiter('')).toBeNull();
+  });
+
+  it('picks the delimiter used consistently', () => {
+    expect(sniffDelimiter('a;b,c\nd;e\nf;g')).toBe(';');
+  });
+});
+
+describe('detectHeader', () => {
+  it('detects a text header over a numeric body', () => {
+    expect(detectHeader([['Title', 'Year'], ['Alien', '1979'], ['Jaws', '1975']])).toBe(true);
+  });
+
+  it('detects an all-text header over text rows', () => {
+    expect(detectHeader([
+      ['Title', 'Author'],
+      ['The Hobbit', 'J. R. R. Tolkien'],
+      ['Pride and Prejudice', 'Jane Austen'],
+      ['War and Peace', 'Leo Tolstoy'],
+    ])).toBe(true);
+  });
+
+  it('leaves rows shaped like the body as data', () => {
+    expect(detectHeader([['Alice', 'London'], ['Bob', 'Paris'], ['Christopher', 'Rome']])).toBe(false);
+    expect(detectHeader([['Alien', 'Alien'], ['Jaws', 'Jaws']])).toBe(false);
+    expect(detectHeader([['Alien'], ['Alien'], ['Jaws']])).toBe(false);
+  });
+});
+
+describe('parseTable', () => {
+  it('keeps a plain list as one column instead of splitting on commas', () => {
+    const table = parseTable('Hello, world\nGoodbye\n"Quoted, still one"', 'list.csv');
+    expect(table.delimiter).toBe('');
+    expect(table.headers).toEqual(['Column 1']);
+    expect(table.rows).toEqual([['Hello, world'], ['Goodbye'], ['Quoted, still one']]);
+  });
+
+  it('uses the header row of a text-only CSV', () => {
+    const table = parseTable('Title,Author\nThe Hobbit,J. R. R. Tolkien\nPride and Prejudice,Jane Austen\n', 'books.csv');
+    expect(table).toMatchObject({ delimiter: ',', hasHeader: true, headers: ['Title', 'Author'] });
+    expect(table.rows).toHaveLength(2);
+  });
+
+  it('treats .tsv files as tab separated', () => {
+    expect(parseTable('a\tb\nc\td', 'x.tsv').rows).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+});
@@ -0,0 +1,201 @@
+// Import the table type definitions
+import { TabularData } from "../types";
+
+// Delimiters considered when sniffing a file, in order of preference on ties
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'];
+
+// Number of lines inspected when sniffing the delimiter
+const SNIFF_LINES = 20;
+
+// Human readable names for the supported delimiters
+export const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma',
+  '\t': 'Tab',
+  ';': 'Semicolon',
+  '|': 'Pipe',
+};
+
+// Parse delimited text into rows of fields
+// Handles quoted fields, doubled quotes ("") inside quotes, embedded newlines and CRLF line endings
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Strip a UTF-8 byte order mark if present
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"') {
+        // A doubled quote is an escaped quote; a single one closes the field
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        // Everything inside quotes is literal, including delimiters and newlines
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      // Quotes only open a quoted field at the start of the field
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      // Treat CRLF as a single line break
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Flush the last field/row unless the text ended with a line break
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Drop completely blank lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// Count delimiter occurrences per line outside of quotes
+const countOutsideQuotes = (line: string, delimiter: string): number => {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+};
+
+// Guess the delimiter by finding the candidate that appears the same (non-zero) number of times on most lines
+// Returns null when no candidate is used consistently, i.e. the text is a plain list
+export const sniffDelimiter = (text: string): string | null => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim() !== '').slice(0, SNIFF_LINES);
+  if (lines.length === 0) return null;
+
+  let best: { delimiter: string; score: number } | null = null;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    // Tally how many lines share each field count
+    const tallies = new Map<number, number>();
+    lines.forEach(line => {
+      const count = countOutsideQuotes(line, delimiter);
+      tallies.set(count, (tallies.get(count) || 0) + 1);
+    });
+    // The most common non-zero count and how many lines have it
+    let modeCount = 0;
+    let modeLines = 0;
+    tallies.forEach((linesWithCount, count) => {
+      if (count > 0 && linesWithCount > modeLines) {
+        modeCount = count;
+        modeLines = linesWithCount;
+      }
+    });
+    if (modeCount === 0) continue;
+    // Consistency dominates; more columns break ties
+    const score = modeLines / lines.length + modeCount / 1000;
+    if (modeLines / lines.length >= 0.6 && (!best || score > best.score)) best = { delimiter, score };
+  }
+  return best ? best.delimiter : null;
+};
+
+// Check whether a cell looks like a number (allowing thousands separators and a trailing %)
+const isNumeric = (value: string): boolean => /^[-+]?[\d,]*\.?\d+%?$/.test(value.trim());
+
+// Share of a text column's body values that must agree on a shape for it to count against the header
+const LABEL_SHAPE_SHARE = 0.8;
+
+// Rough shape of a text cell: one word or several, with or without digits
+const textShape = (value: string): string => `${/\s/.test(value.trim()) ? 'words' : 'word'}${/\d/.test(value) ? '+digits' : ''}`;
+
+// Guess whether the first row is a header by comparing it against the shape of the body rows
+// Each column votes: header if its first cell is text over a numeric body, a different length than a fixed-width
+// body, or a label shaped unlike the body text (e.g. the single word "Title" over multi-word titles)
+export const detectHeader = (rows: string[][]): boolean => {
+  if (rows.length < 2) return false;
+  const [first, ...body] = rows;
+  // Header cells must be present and distinct
+  if (first.some(cell => cell.trim() === '')) return false;
+  if (new Set(first.map(c => c.trim().toLowerCase())).size !== first.length) return false;
+
+  const sample = body.slice(0, 50);
+  let votes = 0;
+  first.forEach((headerCell, col) => {
+    const values = sample.map(r => (r[col] ?? '').trim()).filter(v => v !== '');
+    if (values.length === 0) return;
+    // A header name that also shows up as data suggests there is no header
+    if (values.includes(headerCell.trim())) {
+      votes--;
+      return;
+    }
+    if (values.every(isNumeric)) {
+      votes += isNumeric(headerCell) ? -1 : 1;
+      return;
+    }
+    const lengths = new Set(values.map(v => v.length));
+    if (lengths.size === 1) {
+      votes += lengths.has(headerCell.trim().length) ? -1 : 1;
+      return;
+    }
+    // Free text: a label that never recurs and differs in shape from most of the body
+    const shapes = new Map<string, number>();
+    values.forEach(v => shapes.set(textShape(v), (shapes.get(textShape(v)) || 0) + 1));
+    const [bodyShape, share] = Array.from(shapes).reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+    if (share >= LABEL_SHAPE_SHARE * values.length && bodyShape !== textShape(headerCell)) votes++;
+  });
+  return votes > 0;
+};
+
+// Generic column names used when the file has no header row
+const generatedHeaders = (count: number): string[] => Array.from({ length: count }, (_, i) => `Column ${i + 1}`);
+
+// Pad every row to the same width so column indices are always valid
+const padRows = (rows: string[][], width: number): string[][] =>
+  rows.map(r => (r.length >= width ? r : [...r, ...new Array(width - r.length).fill('')]));
+
+// Parse a file's text into a table, sniffing the delimiter and header row
+// Files that are not delimited are treated as a single column, so a comma inside a plain line is kept
+export const parseTable = (text: string, fileName: string, delimiterOverride?: string): TabularData => {
+  // TSV files are tab separated by definition; otherwise sniff (an empty delimiter never splits a line)
+  const delimiter = delimiterOverride
+    || (/\.tsv$/i.test(fileName) ? '\t' : sniffDelimiter(text) || '');
+  const parsed = parseDelimited(text, delimiter);
+  const width = parsed.reduce((max, r) => Math.max(max, r.length), 0);
+  const rows = padRows(parsed, width);
+  const hasHeader = detectHeader(rows);
+
+  return {
+    fileName,
+    delimiter,
+    hasHeader,
+    headers: hasHeader ? rows[0].map(h => h.trim()) : generatedHeaders(width),
+    rows: hasHeader ? rows.slice(1) : rows,
+  };
+};
+
+// Switch a table between using its first row as a header and treating it as data
+export const setHeaderRow = (table: TabularData, hasHeader: boolean): TabularData => {
+  if (table.hasHeader === hasHeader) return table;
+  if (hasHeader) {
+    // Promote the first data row to the header
+    if (table.rows.length === 0) return table;
+    return { ...table, hasHeader, headers: table.rows[0].map(h => h.trim()), rows: table.rows.slice(1) };
+  }
+  // Demote the header back to a data row
+  return { ...table, hasHeader, headers: generatedHeaders(table.headers.length), rows: [table.headers, ...table.rows] };
+};
+
+// Extract one column as input lines for the line-based tools
+// Embedded newlines are flattened so each cell stays a single line
+export const columnValues = (table: TabularData, column: number): string[] =>
+  table.rows.map(r => (r[column] ?? '').replace(/\s*[\r\n]+\s*/g, ' ').trim()).filter(v => v !== '');
@@ -0,0 +1,102 @@
+// Character-level diff used to show exactly how two near-identical lines differ
+
+// Interface for one run of characters in a diff
+export interface DiffSegment {
+  type: 'same' | 'removed' | 'added'; // Shared by both lines, only in the first, or only in the second
+  text: string;                       // The characters of the run
+}
+
+// Largest middle section (in character pairs) diffed exactly; longer lines fall back to one replace
+const MAX_DIFF_CELLS = 250_000;
+
+// Names for characters that are invisible or easily confused with a look-alike
+// The plain space and hyphen are included so both sides of a changed pair get a name
+const SPECIAL_CHARACTERS: Record<string, string> = {
+  ' ': 'SPACE',
+  '-': 'HYPHEN-MINUS',
+  '\u00A0': 'NBSP',
+  '\u2007': 'FIGURE SP',
+  '\u2009': 'THIN SP',
+  '\u202F': 'NNBSP',
+  '\u200B': 'ZWSP',
+  '\u200C': 'ZWNJ',
+  '\u200D': 'ZWJ',
+  '\u2060': 'WJ',
+  '\uFEFF': 'BOM',
+  '\u00AD': 'SHY',
+  '\u2010': 'HYPHEN',
+  '\u2011': 'NB HYPHEN',
+  '\u2012': 'FIGURE DASH',
+  '\u2013': 'EN DASH',
+  '\u2014': 'EM DASH',
+  '\u2212': 'MINUS',
+  '\t': 'TAB',
+};
+
+// Name of a special character, or null for ordinary ones
+export const specialCharName = (char: string): string | null => SPECIAL_CHARACTERS[char] ?? null;
+
+// Append characters to the segment list, merging with the previous run of the same type
+const push = (segments: DiffSegment[], type: DiffSegment['type'], text: string) => {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) last.text += text;
+  else segments.push({ type, text });
+};
+
+// Diff two strings character by character (longest common subsequence)
+export const diffChars = (a: string, b: string): DiffSegment[] => {
+  // Work on code points so surrogate pairs (emoji) stay whole
+  const charsA = Array.from(a);
+  const charsB = Array.from(b);
+  // Shared prefix and suffix are copied as-is; only the middle is diffed
+  let start = 0;
+  while (start < charsA.length && start < charsB.length && charsA[start] === charsB[start]) start++;
+  let endA = charsA.length;
+  let endB = charsB.length;
+  while (endA > start && endB > start && charsA[endA - 1] === charsB[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  push(segments, 'same', charsA.slice(0, start).join(''));
+  const midA = charsA.slice(start, endA);
+  const midB = charsB.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    // Too long to diff exactly: show the middle as replaced
+    push(segments, 'removed', midA.join(''));
+    push(segments, 'added', midB.join(''));
+  } else {
+    // lcs[i][j] = length of the LCS of midA[i..] and midB[j..], stored row-major
+    const width = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    // Walk the table from the start, preferring removals before additions
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        push(segments, 'same', midA[i]);
+        i++;
+        j++;
+      } else if (j >= midB.length || (i < midA.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        push(segments, 'removed', midA[i]);
+        i++;
+      } else {
+        push(segments, 'added', midB[j]);
+        j++;
+      }
+    }
+  }
+
+  push(segments, 'same', charsA.slice(endA).join(''));
+  return segments;
+};
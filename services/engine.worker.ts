@@ -0,0 +1,32 @@
+// Web Worker entry point: runs heavy list processing off the main thread
+// Import the task dispatcher shared with the main thread types
+import { EngineRequest, runTask } from "./engineTasks";
+
+// Messages posted back to the main thread
+export type EngineWorkerMessage =
+  | { type: 'progress'; value: number }     // Completed fraction (0 - 1)
+  | { type: 'result'; result: unknown }     // Final task result
+  | { type: 'error'; message: string };     // Failure description
+
+// Post a message to the main thread, checked against the message union
+const post = (message: EngineWorkerMessage) => self.postMessage(message);
+
+// Handle a job request from the main thread
+self.onmessage = (event: MessageEvent<EngineRequest>) => {
+  const { task, payload } = event.data;
+  // Last reported progress, so we only post when it moved by at least 1%
+  let lastReported = -1;
+  try {
+    const result = runTask(task, payload, (value) => {
+      if (value - lastReported >= 0.01) {
+        lastReported = value;
+        post({ type: 'progress', value });
+      }
+    });
+    // Send the final result back
+    post({ type: 'result', result });
+  } catch (error) {
+    // Send the failure back so the caller's promise rejects
+    post({ type: 'error', message: (error instanceof Error && error.message) || 'Engine task failed' });
+  }
+};
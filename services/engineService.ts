@@ -0,0 +1,68 @@
+// Import the task map describing every job's payload and result
+import { EngineRequest, EngineTask, EngineTaskMap } from "./engineTasks";
+// Import the message shape posted by the worker
+import type { EngineWorkerMessage } from "./engine.worker";
+
+// Error thrown when a running job is cancelled by the user or superseded by a newer one
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Job cancelled");
+    this.name = "JobCancelledError";
+  }
+}
+
+// Handle returned for a running job
+export interface EngineJob<T> {
+  promise: Promise<T>; // Resolves with the task result
+  cancel: () => void;  // Stops the worker and rejects the promise with JobCancelledError
+}
+
+// Start a task in a dedicated Web Worker
+// Each job gets its own worker so cancelling one (which terminates the worker) never affects another
+export const runEngineJob = <T extends EngineTask>(
+  task: T,
+  payload: EngineTaskMap[T]['payload'],
+  onProgress?: (fraction: number) => void
+): EngineJob<EngineTaskMap[T]['result']> => {
+  // Spawn the module worker; Vite bundles it from this URL
+  const worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+  // Captured reject callback so cancel() can settle the promise
+  let rejectJob: (reason: unknown) => void = () => {};
+  // Whether the job already finished, failed or was cancelled
+  let settled = false;
+
+  const promise = new Promise<EngineTaskMap[T]['result']>((resolve, reject) => {
+    rejectJob = reject;
+    // Route worker messages to progress updates or the final outcome
+    worker.onmessage = (event: MessageEvent<EngineWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.value);
+        return;
+      }
+      settled = true;
+      worker.terminate();
+      if (message.type === 'result') resolve(message.result as EngineTaskMap[T]['result']);
+      else reject(new Error(message.message));
+    };
+    // Surface worker script errors (e.g. failed to load)
+    worker.onerror = (event) => {
+      settled = true;
+      worker.terminate();
+      reject(new Error(event.message || 'Engine worker crashed'));
+    };
+  });
+
+  // Kick off the job
+  worker.postMessage({ task, payload } as EngineRequest);
+
+  return {
+    promise,
+    cancel: () => {
+      if (settled) return;
+      settled = true;
+      worker.terminate();
+      rejectJob(new JobCancelledError());
+    },
+  };
+};
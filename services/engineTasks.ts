@@ -0,0 +1,226 @@
+// Import the shared result contracts and settings types
+import {
+  AnalysisResult,
+  BatchResult,
+  ComparisonResult,
+  MultiComparisonResult,
+  NormalizationOptions,
+  PipelineGroup,
+  PipelineStep,
+  ProbableMatch,
+  RecordDiffResult,
+  TabularData,
+  SimilarityMetric,
+  SplitMode,
+  TopicCategory,
+} from "../types";
+// Import the headless list operations every task delegates to
+import { BatchOptions, ProgressCallback, addProbableMatches, alignNearMatches, batch, clusterTitles, compare, compareCounts, compareMany, dedupe, diffRecords } from "../core";
+
+// Payload accepted by the 'analyze' task
+export interface AnalyzePayload {
+  text: string;                         // Raw input text, one entry per line
+  normalization: NormalizationOptions;  // Rules used to build duplicate keys
+  fuzzy?: { metric: SimilarityMetric; threshold: number }; // Near-duplicate settings, omitted when disabled
+}
+
+// Payload accepted by the 'compare' task
+export interface ComparePayload {
+  textA: string; // Raw text of List A
+  textB: string; // Raw text of List B
+  counts?: boolean; // Count-aware mode: keep duplicate counts per item
+  normalization?: NormalizationOptions; // Match rules, exact matching when omitted
+  fuzzy?: { metric: SimilarityMetric; threshold: number }; // Probable-match settings, omitted when disabled
+}
+
+// Payload accepted by the 'compareMany' task
+export interface CompareManyPayload {
+  lists: { name: string; text: string }[]; // Named lists in display order
+  normalization?: NormalizationOptions;     // Match rules, exact matching when omitted
+}
+
+// Payload accepted by the 'nearMatches' task
+export interface NearMatchesPayload {
+  aOnly: string[]; // Unmatched items of List A
+  bOnly: string[]; // Unmatched items of List B
+}
+
+// Payload accepted by the 'recordDiff' task
+export interface RecordDiffPayload {
+  tableA: TabularData; // Older table
+  keyA: number;        // Key column index in table A
+  tableB: TabularData; // Newer table
+  keyB: number;        // Key column index in table B
+}
+
+// Payload accepted by the 'batch' task
+export interface BatchPayload {
+  text: string;    // Raw input text, one entry per line
+  mode: SplitMode; // How the list is split into sets
+  value: number;   // Items per set, or number of sets, depending on mode
+  options?: BatchOptions; // Seed, marker line or key pattern for the modes that use them
+}
+
+// Payload accepted by the 'cluster' task
+export interface ClusterPayload {
+  text: string; // Raw input text, one title per line
+  k?: number;   // Number of topics; chosen automatically when missing or 0
+}
+
+// Payload accepted by the 'pipeline' task
+export interface PipelinePayload {
+  groups: PipelineGroup[]; // Input to the first step
+  steps: PipelineStep[];   // Local steps to run in order (never 'categorize', which needs the network)
+}
+
+// Map of every engine task to its payload and result types
+export interface EngineTaskMap {
+  analyze: { payload: AnalyzePayload; result: AnalysisResult };
+  compare: { payload: ComparePayload; result: ComparisonResult };
+  compareMany: { payload: CompareManyPayload; result: MultiComparisonResult };
+  recordDiff: { payload: RecordDiffPayload; result: RecordDiffResult };
+  nearMatches: { payload: NearMatchesPayload; result: ProbableMatch[] };
+  batch: { payload: BatchPayload; result: BatchResult };
+  cluster: { payload: ClusterPayload; result: TopicCategory[] };
+  pipeline: { payload: PipelinePayload; result: PipelineGroup[][] }; // Output after each step
+}
+
+// Name of any task the engine can run
+export type EngineTask = keyof EngineTaskMap;
+
+// Job request posted to the worker: a task name together with that task's payload
+export type EngineRequest = { [T in EngineTask]: { task: T; payload: EngineTaskMap[T]['payload'] } }[EngineTask];
+
+// Callback receiving the completed fraction of a task (0 - 1)
+export type { ProgressCallback };
+
+// Group lines by normalized key, count them and optionally cluster near duplicates
+export const analyzeText = (payload: AnalyzePayload, onProgress?: ProgressCallback): AnalysisResult =>
+  dedupe(payload.text, { normalization: payload.normalization, fuzzy: payload.fuzzy }, onProgress);
+
+// Compare two lists as sets (or as multisets in count-aware mode): intersection and the items unique to each side
+// With fuzzy settings, the leftover A-only and B-only items are then paired as probable matches
+export const compareText = (payload: ComparePayload, onProgress: ProgressCallback = () => {}): ComparisonResult => {
+  const exactShare = payload.fuzzy ? 0.3 : 1;
+  const result = (payload.counts ? compareCounts : compare)(
+    payload.textA, payload.textB, { normalization: payload.normalization }, p => onProgress(p * exactShare));
+  if (!payload.fuzzy) return result;
+  return addProbableMatches(result, payload.fuzzy, p => onProgress(exactShare + p * (1 - exactShare)));
+};
+
+// Compare any number of named lists region by region
+export const compareManyText = (payload: CompareManyPayload, onProgress?: ProgressCallback): MultiComparisonResult =>
+  compareMany(payload.lists.map(list => ({ name: list.name, items: list.text })), { normalization: payload.normalization }, onProgress);
+
+// Diff two tables row by row on their key columns
+export const recordDiffText = (payload: RecordDiffPayload, onProgress?: ProgressCallback): RecordDiffResult =>
+  diffRecords(payload.tableA, payload.keyA, payload.tableB, payload.keyB, onProgress);
+
+// Pair unmatched items with their closest counterpart for the character diff view
+export const nearMatchesText = (payload: NearMatchesPayload, onProgress?: ProgressCallback): ProbableMatch[] =>
+  alignNearMatches(payload.aOnly, payload.bOnly, onProgress);
+
+// Split a list into sets using the chosen split mode
+export const batchText = (payload: BatchPayload, onProgress?: ProgressCallback): BatchResult =>
+  batch(payload.text, payload.mode, payload.value, payload.options, onProgress);
+
+// Group titles into keyword-labelled topics without any AI provider
+export const clusterText = (payload: ClusterPayload, onProgress?: ProgressCallback): TopicCategory[] =>
+  clusterTitles(payload.text, { k: payload.k }, onProgress);
+
+// Build the line test for a filter step; throws on an invalid regular expression
+const buildMatcher = (step: PipelineStep): ((line: string) => boolean) => {
+  const pattern = step.pattern || '';
+  if (step.regex) {
+    let re: RegExp;
+    try {
+      re = new RegExp(pattern, 'i');
+    } catch {
+      throw new Error(`Invalid filter pattern: ${pattern}`);
+    }
+    return line => re.test(line);
+  }
+  const needle = pattern.toLowerCase();
+  return line => line.toLowerCase().includes(needle);
+};
+
+// Apply one local step to every group, reusing the Analyzer, Comparator and Batcher tasks
+const applyPipelineStep = (groups: PipelineGroup[], step: PipelineStep): PipelineGroup[] => {
+  switch (step.type) {
+    case 'unique':
+      return groups.map(group => ({
+        ...group,
+        items: dedupe(group.items).uniqueList,
+      }));
+    case 'difference':
+    case 'intersection':
+      return groups.map(group => {
+        const result = compare(group.items, step.reference || '');
+        return { ...group, items: step.type === 'difference' ? result.aOnly : result.intersection };
+      });
+    case 'filter': {
+      const matches = buildMatcher(step);
+      const keep = step.keep !== false;
+      return groups.map(group => ({ ...group, items: group.items.filter(line => matches(line) === keep) }));
+    }
+    case 'sort': {
+      const compare = step.order === 'za'
+        ? (a: string, b: string) => b.localeCompare(a)
+        : step.order === 'length'
+          ? (a: string, b: string) => a.length - b.length || a.localeCompare(b)
+          : (a: string, b: string) => a.localeCompare(b);
+      return groups.map(group => ({ ...group, items: [...group.items].sort(compare) }));
+    }
+    case 'batch':
+      // Each group is split on its own; set names carry the group name once there are several groups
+      return groups.flatMap(group =>
+        batch(group.items, step.mode || 'size', step.value || 25).sets.map(set => ({
+          name: groups.length > 1 ? `${group.name} · Set ${set.id + 1}` : `Set ${set.id + 1}`,
+          items: set.items,
+        }))
+      );
+    default:
+      throw new Error(`Step "${step.type}" cannot run in the engine`);
+  }
+};
+
+// Run consecutive local pipeline steps, keeping every intermediate output for preview
+export const pipelineText = (payload: PipelinePayload, onProgress: ProgressCallback = () => {}): PipelineGroup[][] => {
+  const outputs: PipelineGroup[][] = [];
+  let current = payload.groups;
+  payload.steps.forEach((step, i) => {
+    onProgress(i / payload.steps.length);
+    current = applyPipelineStep(current, step);
+    outputs.push(current);
+  });
+  onProgress(1);
+  return outputs;
+};
+
+// Dispatch a task by name; used by the worker entry point
+export const runTask = <T extends EngineTask>(
+  task: T,
+  payload: EngineTaskMap[T]['payload'],
+  onProgress: ProgressCallback
+): EngineTaskMap[T]['result'] => {
+  switch (task) {
+    case 'analyze':
+      return analyzeText(payload as AnalyzePayload, onProgress) as EngineTaskMap[T]['result'];
+    case 'compare':
+      return compareText(payload as ComparePayload, onProgress) as EngineTaskMap[T]['result'];
+    case 'compareMany':
+      return compareManyText(payload as CompareManyPayload, onProgress) as EngineTaskMap[T]['result'];
+    case 'recordDiff':
+      return recordDiffText(payload as RecordDiffPayload, onProgress) as EngineTaskMap[T]['result'];
+    case 'nearMatches':
+      return nearMatchesText(payload as NearMatchesPayload, onProgress) as EngineTaskMap[T]['result'];
+    case 'batch':
+      return batchText(payload as BatchPayload, onProgress) as EngineTaskMap[T]['result'];
+    case 'cluster':
+      return clusterText(payload as ClusterPayload, onProgress) as EngineTaskMap[T]['result'];
+    case 'pipeline':
+      return pipelineText(payload as PipelinePayload, onProgress) as EngineTaskMap[T]['result'];
+    default:
+      throw new Error(`Unknown engine task: ${task}`);
+  }
+};
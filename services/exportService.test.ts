@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { ExportSheet, analysisSheets, batchSheets, categorySheets, recordDiffSheets, serializeSheets, toCsv, toJson, toMarkdown, toXlsxEntries } from './exportService';
+import { AnalysisResult, RecordDiffResult, TabularData } from '../types';
+import { batch } from '../core';
+
+const sheet: ExportSheet = { name: 'Films', headers: ['Title', 'Year'], rows: [['Alien, the "first"', 1979], ['Multi\nline', '']] };
+
+describe('serializers', () => {
+  it('quotes CSV cells only when needed and uses CRLF', () => {
+    expect(toCsv(sheet)).toBe('Title,Year\r\n"Alien, the ""first""",1979\r\n"Multi\nline",');
+  });
+
+  it('writes one array of row objects per sheet, keeping numbers numeric', () => {
+    expect(JSON.parse(toJson([sheet]))).toEqual({
+      Films: [{ Title: 'Alien, the "first"', Year: 1979 }, { Title: 'Multi\nline', Year: '' }],
+    });
+  });
+
+  it('escapes pipes and line breaks in Markdown tables', () => {
+    const markdown = toMarkdown([{ name: 'Pipes', headers: ['A'], rows: [['x | y'], ['one\ntwo']] }]);
+    expect(markdown).toBe('## Pipes\n\n| A |\n| --- |\n| x \\| y |\n| one<br>two |\n');
+  });
+
+  it('makes XLSX sheet names valid and unique', () => {
+    const entries = toXlsxEntries([
+      { name: 'Only in A/B [rows]', headers: [], rows: [] },
+      { name: 'only in a/b [rows]', headers: [], rows: [] },
+      { name: '', headers: ['N'], rows: [[1]] },
+    ]);
+    const workbook = entries.find(entry => entry.name === 'xl/workbook.xml')!.data as string;
+    expect(Array.from(workbook.matchAll(/<sheet name="([^"]*)"/g), match => match[1]))
+      .toEqual(['Only in A B  rows', 'only in a b  rows~2', 'Sheet3']);
+    // Numbers are written as numeric cells, text as inline strings
+    expect(entries.find(entry => entry.name === 'xl/worksheets/sheet3.xml')!.data).toContain('<c r="A2"><v>1</v></c>');
+  });
+
+  it('packs several CSV sheets into a ZIP and prefixes a single one with a BOM', async () => {
+    expect(serializeSheets([sheet, sheet], 'csv', 'out').fileName).toBe('out_csv.zip');
+    const { blob, fileName } = serializeSheets([sheet], 'csv', 'out');
+    expect(fileName).toBe('out.csv');
+    expect(Array.from(new Uint8Array(await blob.arrayBuffer()).slice(0, 3))).toEqual([0xef, 0xbb, 0xbf]);
+  });
+});
+
+describe('sheet builders', () => {
+  it('adds the other table columns to the unique list', () => {
+    const table: TabularData = {
+      fileName: 'films.csv', delimiter: ',', hasHeader: true,
+      headers: ['Year', 'Title'],
+      rows: [['1979', 'Alien'], ['1975', ' Jaws ']],
+    };
+    const result = { uniqueList: ['Jaws', 'Alien'], frequencyMap: [] } as unknown as AnalysisResult;
+    expect(analysisSheets(result, { table, column: 1 })[0]).toEqual({
+      name: 'Unique',
+      headers: ['Title', 'Year'],
+      rows: [['Jaws', '1975'], ['Alien', '1979']],
+    });
+  });
+
+  it('exports the row behind each item when a column repeats values', () => {
+    const table: TabularData = {
+      fileName: 'films.csv', delimiter: ',', hasHeader: true,
+      headers: ['Title', 'Year'],
+      rows: [['Alien', '1979'], ['', '2000'], ['Heat', '1995'], ['Alien', '2003']],
+    };
+    const source = { table, column: 0 };
+    // Round-robin deals both copies of "Alien" into the first set; each keeps its own row, past the blank one
+    const { sets } = batch('Alien\nHeat\nAlien', 'roundRobin', 2);
+    const [first] = batchSheets(sets, { label: set => `Set ${set.id + 1}`, format: { useIndexing: false, prefix: '' }, source });
+    expect(first.rows).toEqual([['Alien', '1979'], ['Alien', '2003']]);
+    // Categories have no line positions, so each copy of a title takes the next row with it
+    expect(categorySheets([{ name: 'Sci-fi', items: ['Alien'] }, { name: 'Remakes', items: ['Alien'] }], source)[0].rows)
+      .toEqual([['Sci-fi', 'Alien', '1979'], ['Remakes', 'Alien', '2003']]);
+  });
+
+  it('lists each changed field of a record diff on its own row', () => {
+    const result: RecordDiffResult = {
+      keyColumn: 'ID', columns: ['Title', 'Year'], columnsOnlyA: [], columnsOnlyB: [],
+      added: [{ key: '4', cells: ['Up', '2009'] }],
+      removed: [],
+      modified: [{ key: '1', before: ['Alien', '1979'], after: ['Aliens', '1986'], changed: [0, 1] }],
+      unchanged: 0, duplicateKeys: [],
+    };
+    const [report, added] = recordDiffSheets(result);
+    expect(report.rows).toEqual([
+      ['Added', '4', '', '', ''],
+      ['Modified', '1', 'Title', 'Alien', 'Aliens'],
+      ['Modified', '1', 'Year', '1979', '1986'],
+    ]);
+    expect(added).toEqual({ name: 'Added', headers: ['ID', 'Title', 'Year'], rows: [['4', 'Up', '2009']] });
+  });
+});
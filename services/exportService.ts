@@ -0,0 +1,396 @@
+// Import the result contracts that can be exported
+import { AnalysisResult, BatchSet, ComparisonResult, MatchDecision, MultiComparisonResult, RecordDiffResult, TableSource, TopicCategory } from "../types";
+// Import the region, count-difference and probable-match helpers used by the Comparator
+import { SetFormatOptions, countDifferenceLabel, formatSetItem, matchKey, regionLabel } from "../core";
+// Import the ZIP writer used for XLSX packages and multi-file CSV exports
+import { createZip, ZipEntry } from "./zipService";
+
+// Formats offered by the Export menu
+export type ExportFormat = 'csv' | 'json' | 'markdown' | 'xlsx';
+
+// Labels and file extensions for each format
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string }[] = [
+  { id: 'csv', label: 'CSV', extension: 'csv' },
+  { id: 'json', label: 'JSON', extension: 'json' },
+  { id: 'markdown', label: 'Markdown Table', extension: 'md' },
+  { id: 'xlsx', label: 'Excel (XLSX)', extension: 'xlsx' },
+];
+
+// A single table of output; multi-sheet formats get one sheet/file per ExportSheet
+export interface ExportSheet {
+  name: string;                  // Sheet or section name
+  headers: string[];             // Column headings
+  rows: (string | number)[][];   // Cell values; numbers stay numeric in JSON and XLSX
+}
+
+// ---------------------------------------------------------------------------
+// Sheet builders: turn each tool's result into tables
+// ---------------------------------------------------------------------------
+
+// Build a lookup from result items back to the table rows that produced them
+// Lets exports carry the other CSV columns alongside each result item
+// Input line n is the n-th row with a non-empty value in the column (as columnValues reads it)
+const sourceLookup = (source: TableSource | null | undefined) => {
+  if (!source) return null;
+  // Row and value behind each input line, and the input lines holding each value
+  const rows: string[][] = [];
+  const values: string[] = [];
+  const linesByValue = new Map<string, number[]>();
+  source.table.rows.forEach(row => {
+    const value = (row[source.column] ?? '').replace(/\s*[\r\n]+\s*/g, ' ').trim();
+    if (!value) return;
+    const lines = linesByValue.get(value);
+    if (lines) lines.push(rows.length);
+    else linesByValue.set(value, [rows.length]);
+    rows.push(row);
+    values.push(value);
+  });
+  // Every column except the one used as input
+  const extraColumns = source.table.headers.map((_, i) => i).filter(i => i !== source.column);
+  const rowCells = (row: string[] | undefined) => extraColumns.map(i => (row ? row[i] ?? '' : ''));
+  return {
+    headers: extraColumns.map(i => source.table.headers[i]),
+    // Cells of the row behind input line `line`; without a line, or when that line no longer holds the value
+    // (the text was edited after the import), the first row with the value
+    cells: (value: string, line?: number) => {
+      if (line !== undefined && values[line] === value) return rowCells(rows[line]);
+      const lines = linesByValue.get(value);
+      return rowCells(lines ? rows[lines[0]] : undefined);
+    },
+    // Cells for a list that repeats values without line positions: the n-th copy gets the n-th row with the value
+    sequence: () => {
+      const seen = new Map<string, number>();
+      return (value: string) => {
+        const lines = linesByValue.get(value);
+        const n = seen.get(value) ?? 0;
+        seen.set(value, n + 1);
+        return rowCells(lines ? rows[lines[Math.min(n, lines.length - 1)]] : undefined);
+      };
+    },
+  };
+};
+
+// Build a one-column sheet of values, extended with the source table's other columns when available
+const valueSheet = (name: string, label: string, values: string[], source?: TableSource | null): ExportSheet => {
+  const lookup = sourceLookup(source);
+  return {
+    name,
+    headers: lookup ? [label, ...lookup.headers] : [label],
+    rows: values.map(value => (lookup ? [value, ...lookup.cells(value)] : [value])),
+  };
+};
+
+// Analyzer: unique list, frequency map with counts and variants, and near-duplicate clusters
+export const analysisSheets = (result: AnalysisResult, source?: TableSource | null): ExportSheet[] => {
+  const sheets: ExportSheet[] = [
+    valueSheet('Unique', 'Title', result.uniqueList, source),
+    {
+      name: 'Frequency',
+      headers: ['Title', 'Count', 'Variants'],
+      rows: result.frequencyMap.map(item => [item.title, item.count, (item.variants || [item.title]).join(' | ')]),
+    },
+  ];
+  if (result.nearDuplicates) {
+    sheets.push({
+      name: 'Near Duplicates',
+      headers: ['Cluster', 'Representative', 'Member', 'Total Count', 'Score'],
+      rows: result.nearDuplicates.flatMap((cluster, i) =>
+        cluster.members.map(member => [i + 1, cluster.representative, member, cluster.totalCount, Number(cluster.score.toFixed(3))])),
+    });
+  }
+  return sheets;
+};
+
+// Comparator: the three regions side by side, per-item counts in count-aware mode,
+// probable matches with their review status, plus full rows per side when the lists came from tables
+export const comparisonSheets = (
+  result: ComparisonResult,
+  sourceA?: TableSource | null,
+  sourceB?: TableSource | null,
+  decisions: Record<string, MatchDecision> = {}
+): ExportSheet[] => {
+  const length = Math.max(result.aOnly.length, result.intersection.length, result.bOnly.length);
+  const sheets: ExportSheet[] = [{
+    name: 'Comparison',
+    headers: ['Only in List A', 'In Both', 'Only in List B'],
+    rows: Array.from({ length }, (_, i) => [result.aOnly[i] ?? '', result.intersection[i] ?? '', result.bOnly[i] ?? '']),
+  }];
+  if (result.counts) {
+    sheets.push({
+      name: 'Counts',
+      headers: ['Item', 'Count in A', 'Count in B', 'Difference', 'Note'],
+      rows: result.counts.map(entry => [entry.item, entry.countA, entry.countB, entry.countA - entry.countB, countDifferenceLabel(entry)]),
+    });
+  }
+  if (result.probableMatches) {
+    const status = { accepted: 'Accepted', rejected: 'Rejected' };
+    sheets.push({
+      name: 'Probable Matches',
+      headers: ['List A', 'List B', 'Score', 'Status'],
+      rows: result.probableMatches.map(match => {
+        const decision = decisions[matchKey(match)];
+        return [match.a, match.b, Number(match.score.toFixed(3)), decision ? status[decision] : 'Pending'];
+      }),
+    });
+  }
+  if (sourceA) sheets.push(valueSheet('Only in A (rows)', 'Item', result.aOnly, sourceA));
+  if (sourceB) sheets.push(valueSheet('Only in B (rows)', 'Item', result.bOnly, sourceB));
+  return sheets;
+};
+
+// N-way Comparator: one row per item and region, plus the membership matrix (1 = present)
+export const multiComparisonSheets = (result: MultiComparisonResult): ExportSheet[] => {
+  const names = result.lists.map(list => list.name);
+  return [
+    {
+      name: 'Regions',
+      headers: ['Region', 'Item'],
+      rows: result.regions.flatMap(region => region.items.map(item => [regionLabel(region.mask, names), item])),
+    },
+    {
+      name: 'Membership',
+      headers: ['Item', ...names],
+      rows: result.membership.map(({ item, mask }) => [item, ...names.map((_, i) => (mask & (1 << i) ? 1 : 0))]),
+    },
+  ];
+};
+
+// Comparator record diff: a change report with one row per added/removed row and per changed field,
+// plus the added and removed rows in full
+export const recordDiffSheets = (result: RecordDiffResult): ExportSheet[] => [
+  {
+    name: 'Change Report',
+    headers: ['Change', result.keyColumn, 'Field', 'Before', 'After'],
+    rows: [
+      ...result.added.map(record => ['Added', record.key, '', '', '']),
+      ...result.removed.map(record => ['Removed', record.key, '', '', '']),
+      ...result.modified.flatMap(record => record.changed.map(i =>
+        ['Modified', record.key, result.columns[i], record.before[i], record.after[i]])),
+    ],
+  },
+  {
+    name: 'Added',
+    headers: [result.keyColumn, ...result.columns],
+    rows: result.added.map(record => [record.key, ...record.cells]),
+  },
+  {
+    name: 'Removed',
+    headers: [result.keyColumn, ...result.columns],
+    rows: result.removed.map(record => [record.key, ...record.cells]),
+  },
+];
+
+// Batcher: one sheet per set
+export const batchSheets = (
+  sets: BatchSet[],
+  options: {
+    label: (set: BatchSet) => string;           // Set name, e.g. "Set A"
+    format: SetFormatOptions;                   // Indexing and prefix, or the item line template
+    source?: TableSource | null;                // Source table for extra columns
+  }
+): ExportSheet[] => {
+  const lookup = sourceLookup(options.source);
+  const { format } = options;
+  // A template renders the whole line, so the separate "#" column only exists without one
+  const indexColumn = format.useIndexing && !format.template;
+  const totalItems = sets.reduce((sum, set) => sum + set.items.length, 0);
+  let offset = 0;
+  return sets.map(set => {
+    const context = { offset, totalItems };
+    const sheet: ExportSheet = {
+      name: options.label(set),
+      headers: [...(indexColumn ? ['#'] : []), 'Item', ...(lookup ? lookup.headers : [])],
+      rows: set.items.map((item, i) => [
+        ...(indexColumn ? [offset + i + 1] : []),
+        format.template
+          ? formatSetItem(set, i, context, format)
+          : (format.prefix ? `${format.prefix} ${item}` : item),
+        ...(lookup ? lookup.cells(item, set.sourceLines?.[i]) : []),
+      ]),
+    };
+    offset += set.items.length;
+    return sheet;
+  });
+};
+
+// AI Clustering: one row per title with its category
+// A title listed more than once takes a different row for each copy
+export const categorySheets = (categories: TopicCategory[], source?: TableSource | null): ExportSheet[] => {
+  const lookup = sourceLookup(source);
+  const cells = lookup?.sequence();
+  return [{
+    name: 'Categories',
+    headers: ['Category', 'Title', ...(lookup ? lookup.headers : [])],
+    rows: categories.flatMap(cat => cat.items.map(item => [cat.name, item, ...(cells ? cells(item) : [])])),
+  }];
+};
+
+// ---------------------------------------------------------------------------
+// Serializers
+// ---------------------------------------------------------------------------
+
+// Quote a CSV cell when it contains a delimiter, quote or line break
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Serialize one sheet as CSV (CRLF line endings, as spreadsheet apps expect)
+export const toCsv = (sheet: ExportSheet): string =>
+  [sheet.headers, ...sheet.rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+
+// Serialize all sheets as JSON: one array of row objects per sheet
+export const toJson = (sheets: ExportSheet[]): string => {
+  const output: Record<string, Record<string, string | number>[]> = {};
+  sheets.forEach(sheet => {
+    output[sheet.name] = sheet.rows.map(row => {
+      const record: Record<string, string | number> = {};
+      sheet.headers.forEach((header, i) => { record[header] = row[i] ?? ''; });
+      return record;
+    });
+  });
+  return JSON.stringify(output, null, 2);
+};
+
+// Escape a Markdown table cell (pipes and line breaks would break the table)
+const markdownCell = (value: string | number): string =>
+  String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+// Serialize all sheets as Markdown sections with GitHub-style tables
+export const toMarkdown = (sheets: ExportSheet[]): string =>
+  sheets.map(sheet => [
+    `## ${sheet.name}`,
+    '',
+    `| ${sheet.headers.map(markdownCell).join(' | ')} |`,
+    `| ${sheet.headers.map(() => '---').join(' | ')} |`,
+    ...sheet.rows.map(row => `| ${sheet.headers.map((_, i) => markdownCell(row[i] ?? '')).join(' | ')} |`),
+  ].join('\n')).join('\n\n') + '\n';
+
+// Escape text for XML, dropping control characters XML 1.0 cannot represent
+const xmlEscape = (value: string): string =>
+  value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Convert a 0-based column index to a spreadsheet column letter (0 -> A, 26 -> AA)
+const columnLetter = (index: number): string => {
+  let label = '';
+  let i = index + 1;
+  while (i > 0) {
+    label = String.fromCharCode(65 + ((i - 1) % 26)) + label;
+    i = Math.floor((i - 1) / 26);
+  }
+  return label;
+};
+
+// Make sheet names valid for Excel: max 31 chars, no []:*?/\ and unique
+const sheetNames = (sheets: ExportSheet[]): string[] => {
+  const used = new Set<string>();
+  return sheets.map((sheet, i) => {
+    const base = (sheet.name.replace(/[\[\]:*?/\\]/g, ' ').trim() || `Sheet${i + 1}`).slice(0, 31);
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 31 - String(n).length - 1)}~${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+// Build one worksheet's XML using inline strings (no shared string table needed)
+const worksheetXml = (sheet: ExportSheet): string => {
+  const rows = [sheet.headers, ...sheet.rows].map((row, r) => {
+    const cells = row.map((value, c) => {
+      const ref = `${columnLetter(c)}${r + 1}`;
+      return typeof value === 'number' && Number.isFinite(value)
+        ? `<c r="${ref}"><v>${value}</v></c>`
+        : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(String(value))}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows}</sheetData></worksheet>`;
+};
+
+// Build a minimal XLSX workbook (one worksheet per sheet) as ZIP entries
+export const toXlsxEntries = (sheets: ExportSheet[]): ZipEntry[] => {
+  const names = sheetNames(sheets);
+  const header = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  return [
+    {
+      name: '[Content_Types].xml',
+      data: `${header}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+        + '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      data: `${header}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: `${header}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>`
+        + names.map((name, i) => `<sheet name="${xmlEscape(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')
+        + '</sheets></workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: `${header}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+        + '</Relationships>',
+    },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: worksheetXml(sheet) })),
+  ];
+};
+
+// Turn a sheet name into a safe file name fragment
+export const safeFileName = (value: string): string => value.replace(/[^\p{L}\p{N}._-]+/gu, '_').replace(/^_+|_+$/g, '') || 'export';
+
+// Serialize sheets in the chosen format
+// CSV has no notion of sheets, so more than one sheet becomes a ZIP of CSV files
+export const serializeSheets = (sheets: ExportSheet[], format: ExportFormat, baseName: string): { blob: Blob; fileName: string } => {
+  switch (format) {
+    case 'csv':
+      if (sheets.length === 1) {
+        // Prepend a BOM so Excel opens UTF-8 correctly
+        return { blob: new Blob(['\uFEFF' + toCsv(sheets[0])], { type: 'text/csv' }), fileName: `${baseName}.csv` };
+      }
+      return {
+        blob: createZip(sheets.map(sheet => ({ name: `${safeFileName(sheet.name)}.csv`, data: '\uFEFF' + toCsv(sheet) }))),
+        fileName: `${baseName}_csv.zip`,
+      };
+    case 'json':
+      return { blob: new Blob([toJson(sheets)], { type: 'application/json' }), fileName: `${baseName}.json` };
+    case 'markdown':
+      return { blob: new Blob([toMarkdown(sheets)], { type: 'text/markdown' }), fileName: `${baseName}.md` };
+    case 'xlsx':
+      return {
+        blob: createZip(toXlsxEntries(sheets), 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'),
+        fileName: `${baseName}.xlsx`,
+      };
+  }
+};
+
+// Trigger a browser download for a Blob
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  // Create a temporary URL for the Blob
+  const url = URL.createObjectURL(blob);
+  // Create a temporary anchor element and click it to trigger the download
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Revoke the URL to free up memory
+  URL.revokeObjectURL(url);
+};
+
+// Serialize and download in one step
+export const exportSheets = (sheets: ExportSheet[], format: ExportFormat, baseName: string) => {
+  const { blob, fileName } = serializeSheets(sheets, format, baseName);
+  downloadBlob(blob, fileName);
+};
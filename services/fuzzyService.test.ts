@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { findNearDuplicateClusters, findProbableMatches, similarity } from './fuzzyService';
+import { seededRandom } from '../core/random';
+import { DEFAULT_NORMALIZATION, normalizeLine } from './normalizeService';
+import { FrequencyItem, SimilarityMetric } from '../types';
+
+const items = (...titles: string[]): FrequencyItem[] => titles.map(title => ({ title, count: 1 }));
+const options = (metric: SimilarityMetric, threshold: number) => ({ metric, threshold, normalization: DEFAULT_NORMALIZATION });
+
+// Components of the "similarity >= threshold" graph, found by comparing every pair
+const bruteForceClusters = (titles: string[], metric: SimilarityMetric, threshold: number): string[][] => {
+  const keys = titles.map(title => normalizeLine(title, DEFAULT_NORMALIZATION));
+  const parent = titles.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (let i = 0; i < titles.length; i++) {
+    for (let j = i + 1; j < titles.length; j++) {
+      if (similarity(keys[i], keys[j], metric) >= threshold) parent[find(j)] = find(i);
+    }
+  }
+  const groups = new Map<number, string[]>();
+  titles.forEach((title, i) => groups.set(find(i), [...(groups.get(find(i)) || []), title]));
+  return [...groups.values()].filter(group => group.length > 1).map(group => group.sort()).sort();
+};
+
+describe('findNearDuplicateClusters', () => {
+  it('returns nothing for fewer than two entries', () => {
+    expect(findNearDuplicateClusters([], options('levenshtein', 0.8))).toEqual({ clusters: [], approximate: false });
+    expect(findNearDuplicateClusters(items('Colour'), options('levenshtein', 0.8)).clusters).toEqual([]);
+  });
+
+  it('links single-word spelling variants with the character metrics', () => {
+    for (const metric of ['levenshtein', 'cosine'] as const) {
+      const { clusters } = findNearDuplicateClusters(items('Colour', 'Color', 'Flavour'), options(metric, metric === 'levenshtein' ? 0.8 : 0.6));
+      expect(clusters.map(c => c.members.sort())).toEqual([['Color', 'Colour']]);
+    }
+  });
+
+  it('links titles with a typo inside every shared word', () => {
+    const { clusters } = findNearDuplicateClusters(items('Recieve the package', 'Receive the package', 'Return the parcel'), options('levenshtein', 0.8));
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].members.sort()).toEqual(['Receive the package', 'Recieve the package']);
+    expect(clusters[0].score).toBeCloseTo(1 - 2 / 19);
+  });
+
+  it('allows one edit in a five-letter word at the 0.8 threshold', () => {
+    expect(findNearDuplicateClusters(items('Crane', 'Crone'), options('levenshtein', 0.8)).clusters).toHaveLength(1);
+  });
+
+  it('still needs shared words for Jaccard', () => {
+    expect(findNearDuplicateClusters(items('Colour', 'Color'), options('jaccard', 0.5)).clusters).toEqual([]);
+    expect(findNearDuplicateClusters(items('red green blue', 'blue green red yellow'), options('jaccard', 0.7)).clusters).toHaveLength(1);
+  });
+
+  it('finds the same clusters as comparing every pair', () => {
+    // Short words over a small alphabet, so many pairs are near each other
+    let seed = 7;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2 ** 31) / 2 ** 31;
+    const titles = Array.from(new Set(Array.from({ length: 300 }, () =>
+      Array.from({ length: 2 + Math.floor(random() * 8) }, () => 'abcde '[Math.floor(random() * 6)]).join('').trim()
+    ).filter(Boolean)));
+    for (const metric of ['levenshtein', 'cosine', 'jaccard'] as const) {
+      for (const threshold of [0.5, 0.75, 0.9]) {
+        const clusters = findNearDuplicateClusters(items(...titles), options(metric, threshold))
+          .clusters.map(c => c.members.sort()).sort();
+        expect(clusters, `${metric} at ${threshold}`).toEqual(bruteForceClusters(titles, metric, threshold));
+      }
+    }
+  });
+
+  it('stays exact when one word is shared by thousands of titles', () => {
+    // 4000 distinct titles of 5 words drawn from 12, so every word sits in over a thousand titles
+    const words = ['red', 'blue', 'green', 'cat', 'dog', 'sun', 'moon', 'star', 'tree', 'rock', 'sea', 'sky'];
+    const random = seededRandom(7);
+    const titles = new Set<string>();
+    while (titles.size < 4000) {
+      titles.add(Array.from({ length: 5 }, () => words[Math.floor(random() * words.length)]).join(' '));
+    }
+    const { clusters, approximate } = findNearDuplicateClusters(items(...titles), options('jaccard', 0.99));
+    // At 0.99 only titles with the same set of words are linked
+    const groups = new Map<string, string[]>();
+    for (const title of titles) {
+      const key = [...new Set(title.split(' '))].sort().join(' ');
+      groups.set(key, [...(groups.get(key) || []), title]);
+    }
+    const expected = [...groups.values()].filter(group => group.length > 1).map(group => group.sort()).sort();
+    expect(approximate).toBe(false);
+    expect(clusters.map(c => c.members.sort()).sort()).toEqual(expected);
+  });
+
+  it('bounds the run on a huge, uniform list', () => {
+    const titles = Array.from({ length: 50_000 }, (_, i) => `Episode ${i} of the show ${String.fromCharCode(65 + (i % 26))}`);
+    for (const metric of ['levenshtein', 'cosine'] as const) {
+      const started = Date.now();
+      const { clusters } = findNearDuplicateClusters(items(...titles), options(metric, 0.9));
+      expect(Date.now() - started, metric).toBeLessThan(30_000);
+      expect(clusters.length, metric).toBeGreaterThan(0);
+    }
+  }, 60_000);
+});
+
+describe('findProbableMatches', () => {
+  it('returns nothing when either list is empty', () => {
+    expect(findProbableMatches([], ['Color'], options('levenshtein', 0.7))).toEqual({ matches: [], approximate: false });
+  });
+
+  it('pairs transposed letters and one-word typos one to one', () => {
+    const { matches } = findProbableMatches(['Teh Matrix', 'Colour', 'Alien'], ['The Matrix', 'Color', 'Jaws'], options('levenshtein', 0.7));
+    expect(matches.map(({ a, b }) => [a, b])).toEqual([['Colour', 'Color'], ['Teh Matrix', 'The Matrix']]);
+    expect(matches[1].score).toBeCloseTo(0.8);
+  });
+});
@@ -0,0 +1,447 @@
+// Import the shared type definitions
+import { DuplicateCluster, FrequencyItem, NormalizationOptions, ProbableMatch, SimilarityMetric } from "../types";
+// Import the normalization pipeline so fuzzy keys respect the same match rules
+import { normalizeLine } from "./normalizeService";
+
+// Interface for the settings accepted by the near-duplicate clustering
+export interface FuzzyOptions {
+  metric: SimilarityMetric;            // Which similarity measure to use
+  threshold: number;                   // Minimum similarity (0 - 1) for two entries to be linked
+  normalization: NormalizationOptions; // Rules applied before comparing
+}
+
+// Human readable labels for each metric, used by the settings UI
+export const SIMILARITY_METRICS: { id: SimilarityMetric; label: string }[] = [
+  { id: 'jaccard', label: 'Word Overlap (Jaccard)' },
+  { id: 'levenshtein', label: 'Edit Distance (Levenshtein)' },
+  { id: 'cosine', label: 'Character Trigrams (Cosine)' },
+];
+
+// Split a string into its lowercase word tokens
+const tokenize = (value: string): string[] => value.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+// Split a string into overlapping character trigrams (padded so short words still produce grams)
+const trigrams = (value: string): string[] => {
+  const padded = `  ${value.toLowerCase()} `;
+  const grams: string[] = [];
+  for (let i = 0; i + 3 <= padded.length; i++) grams.push(padded.slice(i, i + 3));
+  return grams;
+};
+
+// Compute the Levenshtein edit distance between two strings using two rolling rows
+export const levenshteinDistance = (a: string, b: string): number => {
+  // Trivial cases: one side empty means inserting every character of the other
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  // Previous and current rows of the dynamic programming table
+  let prev = new Array<number>(b.length + 1);
+  let curr = new Array<number>(b.length + 1);
+  for (let j = 0; j <= b.length; j++) prev[j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    curr[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      // Minimum of deletion, insertion and substitution
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    // Swap rows for the next iteration
+    [prev, curr] = [curr, prev];
+  }
+  return prev[b.length];
+};
+
+// Edit distance that gives up once it is certain to exceed maxEdits (returns maxEdits + 1 in that case)
+// Only a diagonal band of width 2 * maxEdits + 1 is evaluated, which keeps bulk clustering fast
+const boundedLevenshtein = (a: string, b: string, maxEdits: number): number => {
+  if (Math.abs(a.length - b.length) > maxEdits) return maxEdits + 1;
+  const over = maxEdits + 1;
+  let prev = new Array<number>(b.length + 1);
+  let curr = new Array<number>(b.length + 1);
+  for (let j = 0; j <= b.length; j++) prev[j] = j <= maxEdits ? j : over;
+
+  for (let i = 1; i <= a.length; i++) {
+    // Columns outside the band are treated as "too far"
+    const from = Math.max(1, i - maxEdits);
+    const to = Math.min(b.length, i + maxEdits);
+    curr.fill(over);
+    curr[0] = i <= maxEdits ? i : over;
+    let rowMin = curr[0];
+    for (let j = from; j <= to; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost, over);
+      if (curr[j] < rowMin) rowMin = curr[j];
+    }
+    // Every path through this row already exceeds the budget
+    if (rowMin > maxEdits) return over;
+    [prev, curr] = [curr, prev];
+  }
+  return Math.min(prev[b.length], over);
+};
+
+// Compute the similarity (0 - 1) of two strings using the chosen metric
+export const similarity = (a: string, b: string, metric: SimilarityMetric): number => {
+  // Identical strings are always a perfect match
+  if (a === b) return 1;
+
+  if (metric === 'levenshtein') {
+    const longest = Math.max(a.length, b.length);
+    return longest === 0 ? 1 : 1 - levenshteinDistance(a, b) / longest;
+  }
+
+  if (metric === 'jaccard') {
+    const setA = new Set(tokenize(a));
+    const setB = new Set(tokenize(b));
+    if (setA.size === 0 && setB.size === 0) return 1;
+    let shared = 0;
+    setA.forEach(token => { if (setB.has(token)) shared++; });
+    return shared / (setA.size + setB.size - shared);
+  }
+
+  // Cosine similarity of trigram count vectors
+  const countsA = new Map<string, number>();
+  const countsB = new Map<string, number>();
+  trigrams(a).forEach(g => countsA.set(g, (countsA.get(g) || 0) + 1));
+  trigrams(b).forEach(g => countsB.set(g, (countsB.get(g) || 0) + 1));
+  let dot = 0, normA = 0, normB = 0;
+  countsA.forEach((count, gram) => {
+    normA += count * count;
+    dot += count * (countsB.get(gram) || 0);
+  });
+  countsB.forEach(count => { normB += count * count; });
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Work allowed for an exact scan: one unit per candidate visit, plus the feature counts of every pair scored
+// (a few seconds on a typical machine). Below it every pair that can reach the threshold is compared
+const MAX_WORK = 300_000_000;
+// Work each remaining entry may spend once the budget is gone, rarest features first; near-identical inputs
+// then finish in time linear in their size and the result is marked approximate
+const ENTRY_WORK = 5_000;
+
+// Longest character grams used to block candidates for the edit-distance metric
+const MAX_GRAM = 3;
+// Tolerance for floating-point noise, so (1 - 0.8) * 5 still allows one edit
+const EPSILON = 1e-9;
+
+// Largest number of edits that keeps a pair with this longest length at or above the threshold
+const maxEditsFor = (longest: number, threshold: number): number => Math.floor((1 - threshold) * longest + EPSILON);
+
+// Give each repeat of a gram an occurrence number so every feature list is a set
+const numbered = (grams: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return grams.map(gram => {
+    const n = (seen.get(gram) || 0) + 1;
+    seen.set(gram, n);
+    return `${gram}\u0000${n}`;
+  });
+};
+
+// Gram length for a threshold: the longest (most selective) one for which every allowed edit
+// destroys fewer grams than it adds length, so near pairs keep enough shared grams to be filtered on
+const gramLength = (threshold: number): number =>
+  Math.max(1, Math.min(MAX_GRAM, Math.ceil(1 / Math.max(EPSILON, 1 - threshold) - EPSILON) - 1));
+
+// Character grams of a key padded with start and end marks, so every edit, even in a one-word key, touches few grams
+const editGrams = (key: string, gram: number): string[] => {
+  const padded = `${'\u0002'.repeat(gram - 1)}${key}${'\u0003'.repeat(gram - 1)}`;
+  const grams: string[] = [];
+  for (let i = 0; i + gram <= padded.length; i++) grams.push(padded.slice(i, i + gram));
+  return numbered(grams);
+};
+
+// Fewest padded grams a key of this length must share with any key within the edit budget
+// One edit destroys at most `gram` grams; the pair's longest length can be anything up to length / threshold
+const editOverlap = (length: number, threshold: number, gram: number): number => {
+  if (threshold <= 0) return 0;
+  let overlap = Infinity;
+  for (let longest = length; longest <= Math.floor(length / threshold + EPSILON); longest++) {
+    overlap = Math.min(overlap, longest + gram - 1 - gram * maxEditsFor(longest, threshold));
+  }
+  return overlap;
+};
+
+// Number of leading (rarest) words that must be indexed so that no pair above the Jaccard threshold is missed
+// Two records can only reach the threshold if they share at least one word within these prefixes
+const prefixLength = (size: number, threshold: number): number =>
+  Math.min(size, Math.max(1, size - Math.ceil(threshold * size) + 1));
+
+// Find every pair of keys whose similarity reaches the threshold
+// Candidates come from a prefix-filtered inverted index, so only pairs sharing a rare feature are compared:
+// whole words for Jaccard, and character grams for the character metrics, so one-word keys and typos
+// inside every word still meet. Keys too short to be guaranteed a shared gram are compared directly
+// Returns true when the work budget ran out and some entries were compared with only part of their candidates
+const scanSimilarPairs = (
+  keys: string[],
+  metric: SimilarityMetric,
+  threshold: number,
+  visit: (i: number, j: number, score: number) => void, // Called once per matching pair, with i < j
+  onProgress?: (fraction: number) => void,
+  eligible?: (i: number, j: number) => boolean           // Restricts which pairs are scored
+): boolean => {
+  // Trigram count vectors (cosine): gram ids in ascending order with their counts, and the squared norm,
+  // so a dot product is a merge of two integer arrays
+  const gramIds = new Map<string, number>();
+  const vectors = metric === 'cosine' ? keys.map(key => {
+    const counts = new Map<number, number>();
+    trigrams(key).forEach(g => {
+      if (!gramIds.has(g)) gramIds.set(g, gramIds.size);
+      const id = gramIds.get(g)!;
+      counts.set(id, (counts.get(id) || 0) + 1);
+    });
+    const ids = Int32Array.from(counts.keys()).sort();
+    let norm = 0;
+    counts.forEach(count => { norm += count * count; });
+    return { ids, counts: Int32Array.from(ids, id => counts.get(id)!), norm };
+  }) : [];
+  // Highest repeat count of one trigram in any key; it bounds how far cosine can exceed the gram overlap
+  let repeat = 1;
+  vectors.forEach(v => v.counts.forEach(count => { if (count > repeat) repeat = count; }));
+
+  // Gram length for the edit-distance blocking at this threshold
+  const gram = gramLength(threshold);
+  // Blocking features per entry: distinct words (Jaccard), padded edit grams (Levenshtein) or the scored trigrams (cosine)
+  const raw = keys.map(key => {
+    if (metric === 'jaccard') return Array.from(new Set(tokenize(key)));
+    if (metric === 'levenshtein') return editGrams(key, gram);
+    return numbered(trigrams(key));
+  });
+
+  // Count how many entries contain each feature
+  const featureFrequency = new Map<string, number>();
+  raw.forEach(list => list.forEach(f => featureFrequency.set(f, (featureFrequency.get(f) || 0) + 1)));
+  // Rank features from rarest to most common, so each entry's sorted ranks start with its rarest features
+  const rank = new Map<string, number>();
+  Array.from(featureFrequency.keys())
+    .sort((x, y) => (featureFrequency.get(x)! - featureFrequency.get(y)!) || (x < y ? -1 : x > y ? 1 : 0))
+    .forEach((feature, r) => rank.set(feature, r));
+  const features = raw.map(list => Int32Array.from(list, feature => rank.get(feature)!).sort());
+
+  // Features each entry indexes: enough that any pair reaching the threshold shares one of them,
+  // or -1 when the pair may share none (short keys, low thresholds), which sends the entry to direct comparison
+  const prefixSizes = features.map((list, i) => {
+    if (metric === 'jaccard') return prefixLength(list.length, threshold);
+    // Cosine: overlap >= cosine * sqrt(nA * nB) / repeat, and the sizes differ by at most (threshold / repeat)^2
+    const overlap = metric === 'levenshtein'
+      ? editOverlap(keys[i].length, threshold, gram)
+      : Math.ceil(list.length * (threshold / repeat) ** 2 - EPSILON);
+    return overlap > 0 ? Math.min(list.length, list.length - overlap + 1) : -1;
+  });
+
+  // Number of features two entries share (merge of the sorted rank lists)
+  const sharedCount = (a: Int32Array, b: Int32Array): number => {
+    let shared = 0;
+    for (let x = 0, y = 0; x < a.length && y < b.length;) {
+      if (a[x] === b[y]) { shared++; x++; y++; }
+      else if (a[x] < b[y]) x++;
+      else y++;
+    }
+    return shared;
+  };
+
+  // Work done so far (see MAX_WORK)
+  let work = 0;
+
+  // Score a candidate pair using the precomputed data
+  const scorePair = (i: number, j: number): number => {
+    if (keys[i] === keys[j]) return 1;
+    const shared = sharedCount(features[i], features[j]);
+    if (metric === 'jaccard') {
+      const union = features[i].length + features[j].length - shared;
+      return union === 0 ? 1 : shared / union;
+    }
+    if (metric === 'levenshtein') {
+      const longest = Math.max(keys[i].length, keys[j].length);
+      const maxEdits = maxEditsFor(longest, threshold);
+      // Count filter: every edit destroys at most `gram` grams, which is far cheaper to check than the edit distance
+      if (shared < longest + gram - 1 - gram * maxEdits) return 0;
+      // The banded edit distance evaluates up to this many cells
+      work += longest * (2 * maxEdits + 1);
+      return 1 - boundedLevenshtein(keys[i], keys[j], maxEdits) / longest;
+    }
+    // Count filter: too few shared trigrams for the cosine to reach the threshold
+    if (shared < threshold * Math.sqrt(features[i].length * features[j].length) / repeat - EPSILON) return 0;
+    const a = vectors[i], b = vectors[j];
+    if (!a.norm || !b.norm) return 0;
+    let dot = 0;
+    for (let x = 0, y = 0; x < a.ids.length && y < b.ids.length;) {
+      if (a.ids[x] === b.ids[y]) dot += a.counts[x++] * b.counts[y++];
+      else if (a.ids[x] < b.ids[y]) x++;
+      else y++;
+    }
+    // Same expression as similarity(), so pairs exactly at the threshold agree
+    return dot / Math.sqrt(a.norm * b.norm);
+  };
+
+  // Size filter: pairs whose feature counts (or lengths) differ too much can never reach the threshold
+  const sizeCompatible = (i: number, j: number): boolean => {
+    if (metric === 'levenshtein') {
+      const longest = Math.max(keys[i].length, keys[j].length);
+      return Math.abs(keys[i].length - keys[j].length) <= maxEditsFor(longest, threshold);
+    }
+    const small = Math.min(features[i].length, features[j].length);
+    const large = Math.max(features[i].length, features[j].length);
+    const ratio = metric === 'jaccard' ? threshold : (threshold / repeat) ** 2;
+    return small >= ratio * large - EPSILON;
+  };
+
+  // Inverted index from feature rank to the entries that carry it in their prefix
+  const index: number[][] = Array.from({ length: rank.size }, () => []);
+  // Entries with no guaranteed shared feature; they are compared with each other directly
+  const unblocked: number[] = [];
+  // Marks which entry was last compared against the current one, to avoid repeated comparisons
+  const lastSeen = new Int32Array(keys.length).fill(-1);
+  // The point at which the current entry must stop, and whether any entry had to stop early
+  let stopAt = Infinity;
+  let approximate = false;
+  const exhausted = (): boolean => {
+    if (work <= stopAt) return false;
+    approximate = true;
+    return true;
+  };
+
+  // Score one candidate pair (j < i) unless it was already compared or cannot match
+  const consider = (j: number, i: number) => {
+    work++;
+    if (lastSeen[j] === i) return;
+    lastSeen[j] = i;
+    if ((eligible && !eligible(j, i)) || !sizeCompatible(i, j)) return;
+    work += features[i].length + features[j].length;
+    // Compute the actual similarity and report the pair if it passes
+    const score = scorePair(i, j);
+    if (score >= threshold) visit(j, i, score);
+  };
+
+  for (let i = 0; i < keys.length; i++) {
+    // Report progress every 500 entries
+    if (onProgress && i % 500 === 0) onProgress(i / keys.length);
+    // Past the budget each entry gets a fixed allowance, so the run stays bounded
+    stopAt = work > MAX_WORK ? work + ENTRY_WORK : Infinity;
+    const size = prefixSizes[i];
+    if (size < 0) {
+      for (const j of unblocked) {
+        if (exhausted()) break;
+        consider(j, i);
+      }
+      unblocked.push(i);
+    }
+    // Unblocked entries index every feature, so blocked entries still find them
+    // Entries are always indexed, even when their own candidates were cut short
+    for (const feature of size < 0 ? features[i] : features[i].subarray(0, size)) {
+      const postings = index[feature];
+      for (const j of postings) {
+        if (exhausted()) break;
+        consider(j, i);
+      }
+      postings.push(i);
+    }
+  }
+  return approximate;
+};
+
+// Group distinct entries into clusters of near-duplicates
+// Candidates are found with a prefix-filtered inverted index, so only pairs sharing a rare word or gram are compared
+// `approximate` is set when the work budget ran out and some candidates were never compared
+export const findNearDuplicateClusters = (
+  items: FrequencyItem[],
+  options: FuzzyOptions,
+  onProgress?: (fraction: number) => void // Optional callback receiving the completed fraction (0 - 1)
+): { clusters: DuplicateCluster[]; approximate: boolean } => {
+  const { metric, threshold, normalization } = options;
+  // Nothing to cluster with fewer than two entries
+  if (items.length < 2) return { clusters: [], approximate: false };
+
+  // Normalized comparison key for each entry
+  const keys = items.map(item => normalizeLine(item.title, normalization) || item.title);
+
+  // Union-find structure used to merge linked entries into clusters
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]]; // Path halving
+      i = parent[i];
+    }
+    return i;
+  };
+  // Weakest link score recorded for each cluster root
+  const linkScore = new Map<number, number>();
+  const union = (a: number, b: number, score: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    // Already in the same cluster: this link joins nothing new
+    if (rootA === rootB) return;
+    parent[rootB] = rootA;
+    linkScore.set(rootA, Math.min(score, linkScore.get(rootA) ?? 1, linkScore.get(rootB) ?? 1));
+  };
+
+  // Link every pair that passes the threshold; pairs already in one cluster are not scored again
+  const approximate = scanSimilarPairs(keys, metric, threshold, union, onProgress, (i, j) => find(i) !== find(j));
+
+  // Collect entries by their cluster root
+  const groups = new Map<number, number[]>();
+  items.forEach((_, i) => {
+    const root = find(i);
+    const members = groups.get(root);
+    if (members) members.push(i);
+    else groups.set(root, [i]);
+  });
+
+  // Build cluster objects for every group with more than one member
+  const clusters: DuplicateCluster[] = [];
+  groups.forEach((members, root) => {
+    if (members.length < 2) return;
+    // Most frequent member first so it becomes the representative
+    const ordered = members.map(i => items[i]).sort((a, b) => b.count - a.count);
+    clusters.push({
+      representative: ordered[0].title,
+      members: ordered.map(item => item.title),
+      totalCount: ordered.reduce((sum, item) => sum + item.count, 0),
+      score: linkScore.get(root) ?? 1,
+    });
+  });
+
+  // Largest clusters first
+  clusters.sort((a, b) => b.members.length - a.members.length || b.totalCount - a.totalCount);
+  return { clusters, approximate };
+};
+
+// Pair entries of list A with their closest entry in list B
+// Each entry is used at most once; the highest-scoring pairs are taken first
+// `approximate` is set when the work budget ran out and some candidates were never compared
+export const findProbableMatches = (
+  listA: string[],
+  listB: string[],
+  options: FuzzyOptions,
+  onProgress?: (fraction: number) => void // Optional callback receiving the completed fraction (0 - 1)
+): { matches: ProbableMatch[]; approximate: boolean } => {
+  const { metric, threshold, normalization } = options;
+  if (listA.length === 0 || listB.length === 0) return { matches: [], approximate: false };
+
+  // Both lists share one index; entries below listA.length belong to A
+  const items = [...listA, ...listB];
+  const keys = items.map(item => normalizeLine(item, normalization) || item);
+  const candidates: { a: number; b: number; score: number }[] = [];
+  const approximate = scanSimilarPairs(
+    keys,
+    metric,
+    threshold,
+    (i, j, score) => candidates.push({ a: i, b: j, score }),
+    onProgress,
+    // Only pairs that cross the two lists
+    (i, j) => i < listA.length && j >= listA.length
+  );
+
+  // Greedy one-to-one assignment, best scores first
+  const usedA = new Set<number>();
+  const usedB = new Set<number>();
+  const matches: ProbableMatch[] = [];
+  candidates.sort((x, y) => y.score - x.score || x.a - y.a || x.b - y.b).forEach(({ a, b, score }) => {
+    if (usedA.has(a) || usedB.has(b)) return;
+    usedA.add(a);
+    usedB.add(b);
+    matches.push({ a: items[a], b: items[b], score });
+  });
+  return { matches, approximate };
+};
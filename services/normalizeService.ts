@@ -0,0 +1,115 @@
+// Import the normalization type definitions
+import { NormalizationOptions, NormalizationRuleId } from "../types";
+
+// Interface describing a single step of the normalization pipeline
+export interface NormalizationRule {
+  id: NormalizationRuleId;         // Unique identifier of the rule
+  label: string;                   // Short label shown in the settings UI
+  description: string;             // Explanation shown as helper text
+  apply: (value: string) => string; // Pure transform applied to a line
+}
+
+// Zero-width characters, word joiners, byte order marks and soft hyphens
+const INVISIBLE_PATTERN = /[\u200B-\u200D\u2060\uFEFF\u00AD]/g;
+// Non-breaking and fixed-width spaces
+const SPACE_PATTERN = /[\u00A0\u2000-\u200A\u202F\u205F\u3000]/g;
+// Hyphen and dash variants, including the minus sign
+const DASH_PATTERN = /[\u2010-\u2015\u2212\uFE58\uFE63\uFF0D]/g;
+
+// Ordered list of rules; they always run in this order regardless of toggle order
+// e.g. the index must be stripped before punctuation removal eats the "." in "1."
+export const NORMALIZATION_RULES: NormalizationRule[] = [
+  {
+    id: 'unicode',
+    label: 'Unicode Normalize',
+    description: 'Treat composed and decomposed characters (NFC/NFD) as equal.',
+    apply: (value) => value.normalize('NFC'),
+  },
+  {
+    id: 'stripInvisible',
+    label: 'Strip Invisible Characters',
+    description: 'Remove zero-width spaces and soft hyphens; treat non-breaking spaces as spaces.',
+    apply: (value) => value.replace(INVISIBLE_PATTERN, '').replace(SPACE_PATTERN, ' '),
+  },
+  {
+    id: 'unifyDashes',
+    label: 'Unify Dashes',
+    description: 'Treat en dashes, em dashes and minus signs as a hyphen.',
+    apply: (value) => value.replace(DASH_PATTERN, '-'),
+  },
+  {
+    id: 'stripIndex',
+    label: 'Remove Leading Index',
+    description: 'Drop list numbering such as "1." or "12)" at the start.',
+    apply: (value) => value.replace(/^\s*\d+\s*[.)\]:-]\s*/, ''),
+  },
+  {
+    id: 'stripDiacritics',
+    label: 'Strip Accents',
+    description: 'Ignore diacritics, so "Café" matches "Cafe".',
+    // Decompose, drop the combining marks, then recompose what is left
+    apply: (value) => value.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC'),
+  },
+  {
+    id: 'caseFold',
+    label: 'Ignore Case',
+    description: 'Match entries regardless of upper or lower case.',
+    // Upper-casing first expands characters like "ß" to "SS" before lowering
+    apply: (value) => value.toUpperCase().toLowerCase(),
+  },
+  {
+    id: 'stripPunctuation',
+    label: 'Strip Punctuation',
+    description: 'Remove punctuation, including smart quotes and trailing dots.',
+    apply: (value) => value.replace(/\p{P}/gu, ''),
+  },
+  {
+    id: 'collapseWhitespace',
+    label: 'Collapse Whitespace',
+    description: 'Merge repeated spaces and tabs into a single space.',
+    apply: (value) => value.replace(/\s+/g, ' ').trim(),
+  },
+];
+
+// Default configuration: safe rules on, lossy rules off
+export const DEFAULT_NORMALIZATION: NormalizationOptions = {
+  unicode: true,
+  stripInvisible: true,
+  unifyDashes: false,
+  stripIndex: false,
+  stripDiacritics: false,
+  caseFold: true,
+  stripPunctuation: false,
+  collapseWhitespace: true,
+};
+
+// Every rule off: exact matching
+export const EXACT_MATCH: NormalizationOptions = {
+  unicode: false,
+  stripInvisible: false,
+  unifyDashes: false,
+  stripIndex: false,
+  stripDiacritics: false,
+  caseFold: false,
+  stripPunctuation: false,
+  collapseWhitespace: false,
+};
+
+// Run a single line through every enabled rule and return its comparison key
+export const normalizeLine = (line: string, options: NormalizationOptions): string => {
+  // Fold the enabled rules over the trimmed input in pipeline order
+  return NORMALIZATION_RULES.reduce(
+    (value, rule) => (options[rule.id] ? rule.apply(value) : value),
+    line.trim()
+  );
+};
+
+// Rules that are off but would make two lines match if switched on (on top of the enabled ones)
+export const rulesThatMatch = (a: string, b: string, options: NormalizationOptions): NormalizationRuleId[] =>
+  NORMALIZATION_RULES
+    .filter(rule => !options[rule.id])
+    .filter(rule => {
+      const next = { ...options, [rule.id]: true };
+      return normalizeLine(a, next) === normalizeLine(b, next);
+    })
+    .map(rule => rule.id);
@@ -0,0 +1,116 @@
+// Import the pipeline type definitions
+import { PipelineGroup, PipelineRecipe, PipelineStep, PipelineStepType, TopicCategory } from "../types";
+// Import the id generator shared with workspaces
+import { createId } from "./workspaceService";
+
+// localStorage key holding the saved recipes (shared by every workspace)
+const RECIPES_KEY = "horizon_pipeline_recipes";
+
+// Labels and short descriptions for the "Add step" menu
+export const PIPELINE_STEP_TYPES: { type: PipelineStepType; label: string; description: string }[] = [
+  { type: 'unique', label: 'Unique', description: 'Remove duplicate lines (Analyzer)' },
+  { type: 'difference', label: 'Difference', description: 'Remove lines found in another list' },
+  { type: 'intersection', label: 'Intersection', description: 'Keep only lines found in another list' },
+  { type: 'filter', label: 'Filter', description: 'Keep or remove lines matching a pattern' },
+  { type: 'sort', label: 'Sort', description: 'Sort lines A-Z, Z-A or by length' },
+  { type: 'batch', label: 'Batch', description: 'Split into sets (Batcher)' },
+  { type: 'categorize', label: 'AI Categorize', description: 'Group into topics with the AI provider' },
+];
+
+// Create a step with sensible defaults for its type
+export const createStep = (type: PipelineStepType): PipelineStep => {
+  const step: PipelineStep = { id: createId(), type };
+  if (type === 'difference' || type === 'intersection') step.reference = '';
+  if (type === 'filter') Object.assign(step, { pattern: '', regex: false, keep: true });
+  if (type === 'sort') step.order = 'az';
+  if (type === 'batch') Object.assign(step, { mode: 'size', value: 25 });
+  return step;
+};
+
+// Serialize a pipeline as a recipe JSON string
+export const serializeRecipe = (name: string, steps: PipelineStep[]): string =>
+  JSON.stringify({ version: 1, name, steps } satisfies PipelineRecipe, null, 2);
+
+// Parse and validate recipe JSON; new step ids are assigned so a recipe can be loaded twice
+export const parseRecipe = (json: string): PipelineRecipe => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Recipe file is not valid JSON.");
+  }
+  const recipe = data as Partial<PipelineRecipe>;
+  if (!recipe || recipe.version !== 1 || !Array.isArray(recipe.steps)) {
+    throw new Error("Unsupported recipe format.");
+  }
+  const known = new Set(PIPELINE_STEP_TYPES.map(t => t.type));
+  const steps = recipe.steps.map(step => {
+    if (!step || !known.has(step.type)) throw new Error(`Unknown step type: ${step?.type}`);
+    return { ...step, id: createId() };
+  });
+  return { version: 1, name: String(recipe.name || 'Imported Recipe'), steps };
+};
+
+// Load every saved recipe
+export const listRecipes = (): PipelineRecipe[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECIPES_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+// Save a recipe, replacing one with the same name; returns the updated list
+export const saveRecipe = (recipe: PipelineRecipe): PipelineRecipe[] => {
+  const recipes = [...listRecipes().filter(r => r.name !== recipe.name), recipe]
+    .sort((a, b) => a.name.localeCompare(b.name));
+  localStorage.setItem(RECIPES_KEY, JSON.stringify(recipes));
+  return recipes;
+};
+
+// Delete a recipe by name; returns the updated list
+export const deleteRecipe = (name: string): PipelineRecipe[] => {
+  const recipes = listRecipes().filter(r => r.name !== name);
+  localStorage.setItem(RECIPES_KEY, JSON.stringify(recipes));
+  return recipes;
+};
+
+// Run every step and return the output after each one
+// Local steps are handed to the engine in runs; 'categorize' steps call the AI for each group
+export const executePipeline = async (
+  input: PipelineGroup[],
+  steps: PipelineStep[],
+  runLocal: (groups: PipelineGroup[], steps: PipelineStep[]) => Promise<PipelineGroup[][]>,
+  categorize: (titles: string[]) => Promise<TopicCategory[]>
+): Promise<PipelineGroup[][]> => {
+  const outputs: PipelineGroup[][] = [];
+  let current = input;
+  let i = 0;
+  while (i < steps.length) {
+    if (steps[i].type === 'categorize') {
+      // Category names carry the group name once there are several groups
+      const next: PipelineGroup[] = [];
+      for (const group of current) {
+        if (group.items.length === 0) continue;
+        const categories = await categorize(group.items);
+        categories.forEach(category => next.push({
+          name: current.length > 1 ? `${group.name} · ${category.name}` : category.name,
+          items: category.items,
+        }));
+      }
+      current = next;
+      outputs.push(current);
+      i++;
+      continue;
+    }
+    // Collect the run of local steps up to the next AI step
+    let end = i;
+    while (end < steps.length && steps[end].type !== 'categorize') end++;
+    const results = await runLocal(current, steps.slice(i, end));
+    outputs.push(...results);
+    current = results[results.length - 1];
+    i = end;
+  }
+  return outputs;
+};
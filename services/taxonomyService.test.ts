@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTaxonomyCategory, deleteTaxonomy, listTaxonomies, saveTaxonomy } from './taxonomyService';
+
+// Minimal in-memory localStorage
+const store = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => store.set(key, value),
+  removeItem: (key: string) => store.delete(key),
+});
+
+const films = (name: string) => ({ name, categories: [createTaxonomyCategory('Films')] });
+
+describe('taxonomy storage', () => {
+  beforeEach(() => store.clear());
+
+  it('skips malformed entries and fills in missing fields', () => {
+    store.set('horizon_taxonomies', JSON.stringify([
+      null,
+      'text',
+      { name: '  ', categories: [] },
+      { name: 'No categories' },
+      { name: ' Genres ', categories: [{ name: 'Drama' }, null, { name: 'Horror', examples: ['Alien', 3, ' '] }] },
+    ]));
+    expect(listTaxonomies()).toEqual([{
+      name: 'Genres',
+      categories: [
+        { name: 'Drama', description: '', examples: [] },
+        { name: 'Horror', description: '', examples: ['Alien'] },
+      ],
+    }]);
+  });
+
+  it('returns nothing for unreadable storage', () => {
+    store.set('horizon_taxonomies', '{not json');
+    expect(listTaxonomies()).toEqual([]);
+  });
+
+  it('replaces a taxonomy saved under the same trimmed name', () => {
+    saveTaxonomy(films('My Taxonomy'));
+    const saved = saveTaxonomy({ ...films('My Taxonomy '), categories: [createTaxonomyCategory('Books')] });
+    expect(saved).toEqual([{ name: 'My Taxonomy', categories: [{ name: 'Books', description: '', examples: [] }] }]);
+    expect(deleteTaxonomy(' My Taxonomy')).toEqual([]);
+  });
+
+  it('refuses to save a nameless or invalid taxonomy', () => {
+    expect(() => saveTaxonomy(films('   '))).toThrow('name');
+    expect(() => saveTaxonomy({ name: 'Empty', categories: [] })).toThrow('at least one category');
+    expect(() => saveTaxonomy({ name: 'Other', categories: [createTaxonomyCategory('other')] })).toThrow('added automatically');
+    expect(store.size).toBe(0);
+  });
+});
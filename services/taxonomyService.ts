@@ -0,0 +1,93 @@
+// Import the taxonomy type definitions
+import { Taxonomy, TaxonomyCategory } from "../types";
+// Import the name comparison used when matching replies to the taxonomy
+import { TAXONOMY_OTHER, categoryNameKey } from "../core";
+
+// localStorage key holding the saved taxonomies (shared by every workspace)
+const TAXONOMIES_KEY = "horizon_taxonomies";
+
+// Create an empty category row for the editor
+export const createTaxonomyCategory = (name = ''): TaxonomyCategory => ({ name, description: '', examples: [] });
+
+// Starting point for a new taxonomy
+export const createTaxonomy = (): Taxonomy => ({
+  name: 'My Taxonomy',
+  categories: [createTaxonomyCategory()],
+});
+
+// Trim every field and drop blank examples; rows without a name are kept so the editor can flag them
+export const cleanTaxonomy = (taxonomy: Taxonomy): Taxonomy => ({
+  name: taxonomy.name.trim(),
+  categories: taxonomy.categories.map(category => ({
+    name: category.name.trim(),
+    description: category.description.trim(),
+    examples: category.examples.map(example => example.trim()).filter(Boolean),
+  })),
+});
+
+// Why a taxonomy cannot be used yet, or null when it can
+export const taxonomyError = (taxonomy: Taxonomy): string | null => {
+  const { categories } = cleanTaxonomy(taxonomy);
+  if (categories.length === 0) return "Add at least one category to the taxonomy.";
+  if (categories.some(category => !category.name)) return "Every taxonomy category needs a name.";
+  const seen = new Set<string>();
+  for (const category of categories) {
+    const key = categoryNameKey(category.name);
+    if (key === categoryNameKey(TAXONOMY_OTHER)) return `"${TAXONOMY_OTHER}" is added automatically; remove it from the taxonomy.`;
+    if (seen.has(key)) return `Duplicate taxonomy category: ${category.name}`;
+    seen.add(key);
+  }
+  return null;
+};
+
+// Rebuild a stored taxonomy from whatever JSON was found, or null when it is unusable
+// Missing or mistyped fields become empty so a hand-edited or older entry never breaks the editor
+const readTaxonomy = (value: unknown): Taxonomy | null => {
+  const stored = value as Partial<Record<keyof Taxonomy, unknown>> | null;
+  if (!stored || typeof stored !== 'object' || typeof stored.name !== 'string' || !stored.name.trim()) return null;
+  if (!Array.isArray(stored.categories)) return null;
+  const text = (field: unknown): string => (typeof field === 'string' ? field : '');
+  return cleanTaxonomy({
+    name: stored.name,
+    categories: stored.categories
+      .filter((category): category is Record<string, unknown> => !!category && typeof category === 'object')
+      .map(category => ({
+        name: text(category.name),
+        description: text(category.description),
+        examples: Array.isArray(category.examples) ? category.examples.map(text) : [],
+      })),
+  });
+};
+
+// Load every saved taxonomy, skipping malformed entries; a repeated name keeps its last copy
+export const listTaxonomies = (): Taxonomy[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TAXONOMIES_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+    const byName = new Map<string, Taxonomy>();
+    stored.map(readTaxonomy).forEach(taxonomy => { if (taxonomy) byName.set(taxonomy.name, taxonomy); });
+    return Array.from(byName.values());
+  } catch {
+    return [];
+  }
+};
+
+// Save a taxonomy, replacing one with the same (trimmed) name; returns the updated list
+// Throws when the taxonomy has no name or cannot be used, so nothing invalid is ever stored
+export const saveTaxonomy = (taxonomy: Taxonomy): Taxonomy[] => {
+  const cleaned = cleanTaxonomy(taxonomy);
+  if (!cleaned.name) throw new Error("Give the taxonomy a name before saving it.");
+  const problem = taxonomyError(cleaned);
+  if (problem) throw new Error(problem);
+  const taxonomies = [...listTaxonomies().filter(t => t.name !== cleaned.name), cleaned]
+    .sort((a, b) => a.name.localeCompare(b.name));
+  localStorage.setItem(TAXONOMIES_KEY, JSON.stringify(taxonomies));
+  return taxonomies;
+};
+
+// Delete a taxonomy by (trimmed) name; returns the updated list
+export const deleteTaxonomy = (name: string): Taxonomy[] => {
+  const taxonomies = listTaxonomies().filter(t => t.name !== name.trim());
+  localStorage.setItem(TAXONOMIES_KEY, JSON.stringify(taxonomies));
+  return taxonomies;
+};
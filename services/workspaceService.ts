@@ -0,0 +1,82 @@
+// Import the workspace type definitions
+import { Workspace, WorkspaceSummary } from "../types";
+
+// IndexedDB database and object store names
+const DB_NAME = "horizon_sort";
+const DB_VERSION = 1;
+const STORE = "workspaces";
+
+// localStorage key remembering which workspace was open last
+export const ACTIVE_WORKSPACE_KEY = "horizon_active_workspace";
+
+// Maximum number of runs kept per tool in a workspace's history
+export const HISTORY_LIMIT_PER_TOOL = 10;
+
+// Cached connection promise so the database is opened once per session
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Open (and on first use, create) the IndexedDB database
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      // Create the object store the first time the database is opened
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Allow a retry on the next call
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run a single request against the store and resolve with its result
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Generate a unique identifier for workspaces and history entries
+export const createId = (): string =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// Build a new, empty workspace object (not yet saved)
+export const newWorkspace = (name: string): Workspace => {
+  const now = Date.now();
+  return { id: createId(), name, createdAt: now, updatedAt: now, tools: {}, history: [] };
+};
+
+// List every saved workspace, most recently updated first
+export const listWorkspaces = async (): Promise<WorkspaceSummary[]> => {
+  const all = await withStore<Workspace[]>("readonly", store => store.getAll());
+  return all
+    .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Load a single workspace by id
+export const getWorkspace = (id: string): Promise<Workspace | undefined> =>
+  withStore<Workspace | undefined>("readonly", store => store.get(id));
+
+// Insert or update a workspace
+export const saveWorkspace = async (workspace: Workspace): Promise<void> => {
+  await withStore("readwrite", store => store.put(workspace));
+};
+
+// Remove a workspace permanently
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  await withStore("readwrite", store => store.delete(id));
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { createZipBytes } from './zipService';
+
+// Bit-by-bit CRC-32, independent of the table-driven one under test
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Read an archive back through its central directory, checking each local header against it
+const readZip = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  const centralStart = view.getUint32(end + 16, true);
+  expect(centralStart + centralSize).toBe(end);
+
+  const files: { name: string; data: Uint8Array; flags: number; crc: number }[] = [];
+  let position = centralStart;
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const flags = view.getUint16(position + 8, true);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+
+    // The local header at the recorded offset repeats the same fields
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(view.getUint16(offset + 6, true)).toBe(flags);
+    expect(view.getUint16(offset + 8, true)).toBe(0); // Stored
+    expect(view.getUint32(offset + 14, true)).toBe(crc);
+    expect(view.getUint32(offset + 18, true)).toBe(size);
+    expect(view.getUint32(offset + 22, true)).toBe(size);
+    expect(view.getUint16(offset + 26, true)).toBe(nameLength);
+    const dataStart = offset + 30 + nameLength + view.getUint16(offset + 28, true);
+    files.push({ name, data: bytes.subarray(dataStart, dataStart + size), flags, crc });
+    position += 46 + nameLength;
+  }
+  expect(position).toBe(end);
+  return files;
+};
+
+describe('createZipBytes', () => {
+  it('round-trips names, contents, checksums and offsets', () => {
+    const binary = new Uint8Array(300).map((_, i) => (i * 7) & 0xff);
+    const entries = [
+      { name: 'sets/Set_A.txt', data: 'Alien\nJaws\n' },
+      { name: 'café/ノート.txt', data: 'Crème brûlée ✓' },
+      { name: 'empty.txt', data: '' },
+      { name: 'bytes.bin', data: binary },
+    ];
+    const files = readZip(createZipBytes(entries));
+    const encoder = new TextEncoder();
+    expect(files.map(file => file.name)).toEqual(entries.map(entry => entry.name));
+    files.forEach((file, i) => {
+      const expected = typeof entries[i].data === 'string' ? encoder.encode(entries[i].data as string) : entries[i].data as Uint8Array;
+      expect(Array.from(file.data)).toEqual(Array.from(expected));
+      expect(file.crc).toBe(crc32(expected));
+      // Names are always written as UTF-8, so the language encoding flag is set
+      expect(file.flags & 0x0800).toBe(0x0800);
+    });
+  });
+
+  it('writes a valid empty archive', () => {
+    const bytes = createZipBytes([]);
+    expect(bytes.length).toBe(22);
+    expect(readZip(bytes)).toEqual([]);
+  });
+
+  it('matches the standard CRC-32 check value', () => {
+    const [file] = readZip(createZipBytes([{ name: 'check.txt', data: '123456789' }]));
+    expect(file.crc).toBe(0xcbf43926);
+  });
+});
@@ -0,0 +1,109 @@
+// Minimal in-browser ZIP writer (store method, no compression)
+// Used for XLSX packages and multi-file downloads; text exports compress poorly enough in practice
+// that skipping deflate keeps this dependency-free and fast
+
+// Interface for a single file entry in the archive
+export interface ZipEntry {
+  name: string;              // Path inside the archive, e.g. "sets/Set_A.txt"
+  data: string | Uint8Array; // File content; strings are encoded as UTF-8
+}
+
+// Lazily built CRC-32 lookup table
+let crcTable: Uint32Array | null = null;
+
+// Compute the CRC-32 checksum required by the ZIP format
+const crc32 = (bytes: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Encode the current time in MS-DOS date/time format
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// Build a ZIP archive from the given entries and return its raw bytes
+export const createZipBytes = (entries: ZipEntry[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(new Date());
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const nameBytes = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+
+    // Local file header (30 bytes + name)
+    const local = new Uint8Array(30 + nameBytes.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);  // Signature
+    lv.setUint16(4, 20, true);          // Version needed to extract
+    lv.setUint16(6, 0x0800, true);      // Flags: UTF-8 file names
+    lv.setUint16(8, 0, true);           // Compression: stored
+    lv.setUint16(10, stamp.time, true);
+    lv.setUint16(12, stamp.date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true); // Compressed size
+    lv.setUint32(22, data.length, true); // Uncompressed size
+    lv.setUint16(26, nameBytes.length, true);
+    lv.setUint16(28, 0, true);          // Extra field length
+    local.set(nameBytes, 30);
+
+    // Central directory header (46 bytes + name)
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);  // Signature
+    cv.setUint16(4, 20, true);          // Version made by
+    cv.setUint16(6, 20, true);          // Version needed to extract
+    cv.setUint16(8, 0x0800, true);      // Flags: UTF-8 file names
+    cv.setUint16(10, 0, true);          // Compression: stored
+    cv.setUint16(12, stamp.time, true);
+    cv.setUint16(14, stamp.date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);     // Offset of the local header
+    central.set(nameBytes, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  // End of central directory record (22 bytes)
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);  // Entries on this disk
+  ev.setUint16(10, entries.length, true); // Total entries
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);         // Start of central directory
+
+  // Concatenate every part into one buffer
+  const parts = [...localParts, ...centralParts, end];
+  const out = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  parts.forEach(part => {
+    out.set(part, position);
+    position += part.length;
+  });
+  return out;
+};
+
+// Build a ZIP archive as a Blob ready for download
+export const createZip = (entries: ZipEntry[], mimeType = 'application/zip'): Blob =>
+  new Blob([createZipBytes(entries)], { type: mimeType });
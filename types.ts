@@ -10,6 +10,35 @@ export interface TitleStats {
 export interface FrequencyItem {
   title: string;       // The text content of the line
   count: number;       // How many times it appeared
+  variants?: string[]; // Original spellings grouped under this normalized entry
+}
+
+// Identifiers for the individual text normalization rules
+export type NormalizationRuleId =
+  | 'unicode'            // Unicode normalize to NFC (composed and decomposed forms compare equal)
+  | 'stripInvisible'     // Remove zero-width characters and turn non-breaking spaces into spaces
+  | 'unifyDashes'        // Treat en/em dashes and minus signs as a hyphen
+  | 'stripIndex'         // Remove a leading list index such as "1." or "12)"
+  | 'stripDiacritics'    // Remove accents (é -> e)
+  | 'caseFold'           // Ignore upper/lower case differences
+  | 'stripPunctuation'   // Remove punctuation including smart quotes
+  | 'collapseWhitespace'; // Merge runs of whitespace into a single space
+
+// Map of rule id to enabled flag used to configure the normalization pipeline
+export type NormalizationOptions = Record<NormalizationRuleId, boolean>;
+
+// Similarity measures available for fuzzy (near-duplicate) matching
+export type SimilarityMetric =
+  | 'levenshtein' // 1 - edit distance / length of the longer string
+  | 'jaccard'     // Shared words / all words (token-set Jaccard)
+  | 'cosine';     // Cosine similarity of character trigram counts
+
+// Interface for a group of entries that are similar but not identical
+export interface DuplicateCluster {
+  representative: string; // Most frequent entry, used as the cluster label
+  members: string[];      // Every distinct entry in the cluster (including the representative)
+  totalCount: number;     // Sum of the occurrence counts of all members
+  score: number;          // Weakest similarity link that joined the cluster (0 - 1)
 }
 
 // Interface representing the full result of an Analysis operation
@@ -18,6 +47,8 @@ export interface AnalysisResult {
   uniqueList: string[];        // Array of unique strings
   duplicateList: string[];     // Array of strings that appeared more than once
   frequencyMap: FrequencyItem[]; // Array of items sorted by frequency
+  nearDuplicates?: DuplicateCluster[]; // Fuzzy clusters, present when near-duplicate mode is on
+  nearDuplicatesApproximate?: boolean; // Set when the work budget ran out before every candidate was compared
 }
 
 // Interface representing the result of a Comparison operation
@@ -31,7 +62,135 @@ export interface ComparisonResult {
     inBOnly: number;  // Count of unique items in B
     totalA: number;   // Total items in original List A
     totalB: number;   // Total items in original List B
-  }
+    // Occurrence totals, present in count-aware mode only
+    occurrencesA?: number; // Lines in List A, duplicates included
+    occurrencesB?: number; // Lines in List B, duplicates included
+    matched?: number;      // Occurrences paired across lists (sum of the smaller count per item)
+    surplusA?: number;     // Occurrences in A beyond B's count, summed over items
+    surplusB?: number;     // Occurrences in B beyond A's count, summed over items
+  };
+  counts?: ItemCount[]; // Count-aware mode: occurrences of every distinct item in each list, sorted by item
+  probableMatches?: ProbableMatch[]; // Fuzzy mode: A-only items paired with a close B-only item, best first
+  probableMatchesApproximate?: boolean; // Set when the work budget ran out before every candidate was compared
+}
+
+// Interface for a fuzzy pairing between an A-only and a B-only item
+export interface ProbableMatch {
+  a: string;     // Item from List A
+  b: string;     // Closest item from List B
+  score: number; // Similarity (0 - 1) under the chosen metric
+}
+
+// User verdict on a probable match; undecided pairs have no entry
+export type MatchDecision = 'accepted' | 'rejected';
+
+// Overlap measures between two lists, each in the range 0 - 1
+export interface OverlapMetrics {
+  jaccard: number;         // Shared / union
+  dice: number;            // 2 × shared / (size A + size B)
+  overlap: number;         // Shared / size of the smaller list
+  containmentAInB: number; // Share of A found in B
+  containmentBInA: number; // Share of B found in A
+}
+
+// Interface for the occurrences of one item in each list of a count-aware comparison
+export interface ItemCount {
+  item: string;   // The item text
+  countA: number; // Occurrences in List A (0 if absent)
+  countB: number; // Occurrences in List B (0 if absent)
+}
+
+// Interface for one named input list in the N-way Comparator
+export interface NamedList {
+  name: string;               // User-facing list name, e.g. "CRM Export"
+  text: string;               // Raw list text, one entry per line
+  source: TableSource | null; // Imported CSV/TSV table feeding the list, if any
+}
+
+// Interface for one region of the set diagram: the items found in exactly one combination of lists
+export interface SetRegion {
+  mask: number;    // Bit i set when the items are in list i (e.g. 0b101 = lists 1 and 3 only)
+  items: string[]; // Sorted items in this region
+}
+
+// Interface representing the result of comparing any number of lists
+export interface MultiComparisonResult {
+  lists: { name: string; total: number }[];      // Input lists with their distinct item counts
+  regions: SetRegion[];                          // Non-empty regions, largest first
+  membership: { item: string; mask: number }[];  // Every distinct item with the lists it appears in, sorted
+  totalItems: number;                            // Size of the union of all lists
+}
+
+// Define a type for the split mode:
+// 'size' fixed items per set, 'count' fixed number of sets (sequential slices),
+// 'balanced' fixed number of sets whose sizes differ by at most 1, 'roundRobin' items dealt across the sets in turn,
+// 'shuffle' seeded random order then items per set, 'marker' split on blank lines or a marker line,
+// 'group' items per set without splitting items that share a regex-captured key,
+// 'budget' fill each set up to a maximum number of characters, words or approximate tokens
+export type SplitMode = 'size' | 'count' | 'balanced' | 'roundRobin' | 'shuffle' | 'marker' | 'group' | 'budget';
+
+// Unit measured by the budget split mode (tokens are approximated as characters / 4)
+export type BudgetUnit = 'chars' | 'words' | 'tokens';
+
+// Define a type for the naming convention of sets: Numeric (1, 2) or Alphabetical (A, B)
+export type NamingScheme = 'numeric' | 'alpha';
+
+// Interface defining the structure of a single Batch/Set
+export interface BatchSet {
+  id: number;      // Unique identifier number for the set (0-based index)
+  items: string[]; // Array of strings (lines) in this set
+  sourceLines?: number[]; // Position of each item among the non-empty input lines (traces items to table rows)
+  usage?: number;      // budget mode: total characters, words or tokens of the items
+  oversized?: boolean; // budget mode: the set holds a single item larger than the budget
+}
+
+// Interface representing the result of a Batch operation
+export interface BatchResult {
+  sets: BatchSet[];   // Generated sets in order
+  totalItems: number; // Total number of lines split across the sets
+  budget?: { unit: BudgetUnit; limit: number }; // budget mode: the limit every set was filled to
+}
+
+// Interface for a parsed CSV/TSV file
+export interface TabularData {
+  fileName: string;   // Name of the imported file
+  delimiter: string;  // Field separator that was detected (",", "\t", ";" or "|"; "" for a single column)
+  hasHeader: boolean; // Whether the first row was used as column names
+  headers: string[];  // Column names (generated as "Column N" when there is no header row)
+  rows: string[][];   // Data rows, each padded to the number of headers
+}
+
+// Interface for a table plus the column a tool is working on
+export interface TableSource {
+  table: TabularData; // The full parsed table, kept so other columns can be exported
+  column: number;     // Index of the column used as the tool's input lines
+}
+
+// Interface for a table row identified by its key column (record-diff mode)
+export interface KeyedRecord {
+  key: string;     // Value of the key column
+  cells: string[]; // Values of the compared columns, aligned with RecordDiffResult.columns
+}
+
+// Interface for a row whose key appears in both tables but whose fields differ
+export interface ModifiedRecord {
+  key: string;       // Value of the key column
+  before: string[];  // Values in table A, aligned with RecordDiffResult.columns
+  after: string[];   // Values in table B, aligned with RecordDiffResult.columns
+  changed: number[]; // Indexes (into columns) of the fields that differ
+}
+
+// Interface representing a key-based diff of two CSV/TSV tables
+export interface RecordDiffResult {
+  keyColumn: string;       // Name of the key column (table A's heading)
+  columns: string[];       // Non-key columns present in both tables, in table A's order
+  columnsOnlyA: string[];  // Columns dropped in table B (not compared)
+  columnsOnlyB: string[];  // Columns new in table B (not compared)
+  added: KeyedRecord[];    // Rows whose key is only in table B, sorted by key
+  removed: KeyedRecord[];  // Rows whose key is only in table A, sorted by key
+  modified: ModifiedRecord[]; // Rows in both tables with at least one changed field, sorted by key
+  unchanged: number;       // Rows in both tables with identical fields
+  duplicateKeys: string[]; // Keys repeated within a table; the first row with the key is used
 }
 
 // Interface for a single topic category generated by AI
@@ -40,9 +199,118 @@ export interface TopicCategory {
   items: string[]; // List of items belonging to this category
 }
 
+// AI backends that can run categorization
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+// Interface for the AI settings chosen in the Settings modal (stored in localStorage)
+export interface AISettings {
+  provider: AIProviderId; // Which backend to call
+  model: string;          // Model name sent to the backend (unused by the mock)
+  endpoint: string;       // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  apiKey: string;         // Key for the backend; optional for local OpenAI-compatible servers
+}
+
+// One category of a user-defined taxonomy
+export interface TaxonomyCategory {
+  name: string;        // Category name the model must use exactly
+  description: string; // What belongs here; empty when not given
+  examples: string[];  // Example titles that belong here
+}
+
+// A named, saved set of fixed categories (stored in localStorage)
+export interface Taxonomy {
+  name: string;                   // User-facing taxonomy name
+  categories: TaxonomyCategory[]; // Categories in display order ("Other" is always added)
+}
+
+// How well a categorization accounts for its input titles
+export interface CategoryCoverage {
+  totalTitles: number;       // Input titles, counting repeats
+  exact: number;             // Returned exactly as given
+  reworded: ProbableMatch[]; // Returned reworded and matched back fuzzily (a: returned text, b: input title)
+  duplicates: string[];      // Returned again after already being placed; the extra copies are dropped
+  hallucinated: string[];    // Returned items that match no input title; dropped
+  unassigned: string[];      // Input titles missing from the reply; placed in "Uncategorized"
+}
+
 // Interface for the final result returned by the AI Service
 export interface AIAnalysisResult {
   categories: TopicCategory[]; // Array of generated categories
+  coverage?: CategoryCoverage; // Validation of the categories against the input titles
+}
+
+// Kinds of step available in the pipeline builder
+export type PipelineStepType =
+  | 'unique'       // Analyzer: keep one copy of every line
+  | 'difference'   // Comparator: remove lines found in a reference list
+  | 'intersection' // Comparator: keep only lines found in a reference list
+  | 'filter'       // Keep or remove lines matching a text or regex pattern
+  | 'sort'         // Reorder lines
+  | 'batch'        // Batcher: split every group into sets
+  | 'categorize';  // AI Clustering: split every group into topic categories
+
+// Interface for one configured step in a pipeline (fields apply only to the matching type)
+export interface PipelineStep {
+  id: string;                      // Unique identifier for list keys
+  type: PipelineStepType;          // Operation performed by the step
+  reference?: string;              // difference / intersection: the other list, one entry per line
+  pattern?: string;                // filter: text or regular expression to match
+  regex?: boolean;                 // filter: treat pattern as a regular expression
+  keep?: boolean;                  // filter: true keeps matches, false removes them
+  order?: 'az' | 'za' | 'length';  // sort: alphabetical, reverse, or shortest first
+  mode?: SplitMode;                // batch: split mode (size, count, balanced or roundRobin)
+  value?: number;                  // batch: items per set, or number of sets
+}
+
+// Interface for a named list flowing between pipeline steps (one group until a batch or categorize step)
+export interface PipelineGroup {
+  name: string;    // Group label, e.g. "Input", "Set 3" or a category name
+  items: string[]; // Lines in the group
+}
+
+// Interface for a saved, reusable pipeline (serialized as JSON)
+export interface PipelineRecipe {
+  version: 1;            // Format version for future migrations
+  name: string;          // User-facing recipe name
+  steps: PipelineStep[]; // Ordered steps
+}
+
+// Fields shared by every saved run in a workspace's history
+interface HistoryEntryBase {
+  id: string;        // Unique identifier of the run
+  createdAt: number; // Epoch milliseconds when the run finished
+  summary: string;   // Short description shown in the history list
+}
+
+// A saved run: the tool it came from plus that tool's result contract
+export type HistoryEntry =
+  | (HistoryEntryBase & { tool: ViewMode.ANALYZER; result: AnalysisResult })
+  | (HistoryEntryBase & { tool: ViewMode.COMPARATOR; result: ComparisonResult | MultiComparisonResult | RecordDiffResult })
+  | (HistoryEntryBase & { tool: ViewMode.TOPICS; result: TopicCategory[] });
+
+// Interface for a persisted workspace (stored in IndexedDB)
+export interface Workspace {
+  id: string;        // Unique identifier
+  name: string;      // User-facing name
+  createdAt: number; // Epoch milliseconds
+  updatedAt: number; // Epoch milliseconds of the last autosave
+  tools: Partial<Record<ViewMode, Record<string, unknown>>>; // Saved inputs and settings per tool
+  history: HistoryEntry[]; // Past runs, newest first
+}
+
+// Lightweight workspace listing used by the sidebar
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+}
+
+// Destination for the "Send to…" action: a tool and which of its saved inputs to fill
+export interface SendTarget {
+  view: ViewMode;                              // Tool to switch to
+  field: 'inputText' | 'listA' | 'listB';      // Textarea state that receives the lines
+  sourceField: 'source' | 'sourceA' | 'sourceB'; // Imported table state cleared by the handoff
+  label: string;                               // Menu label, e.g. "Comparator · List A"
 }
 
 // Enum defining the active view/tool currently displayed in the App
@@ -50,5 +318,6 @@ export enum ViewMode {
   ANALYZER = 'analyzer',     // View mode for the Data Analyzer tool
   COMPARATOR = 'comparator', // View mode for the List Comparator tool
   TOPICS = 'topics',         // View mode for the AI Topic Sorter tool
-  BATCHER = 'batcher'        // View mode for the Batch Processor tool
+  BATCHER = 'batcher',       // View mode for the Batch Processor tool
+  PIPELINE = 'pipeline'      // View mode for the Pipeline Builder
 }
\ No newline at end of file